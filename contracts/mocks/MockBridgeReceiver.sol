@@ -0,0 +1,34 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.17;
+
+import "@openzeppelin/contracts/utils/introspection/ERC165.sol";
+import "../IBridge.sol";
+
+/// @title Bridge receiver for tests
+/// @notice Accepts any message and records the last one received
+contract MockBridgeReceiver is IBridgeReceiver, ERC165 {
+    address public lastSource;
+    bytes public lastMessage;
+    uint256 public messagesReceived;
+
+    event MessageHandled(address indexed source, bytes message);
+
+    function onMessageReceived(
+        address _source,
+        bytes calldata _message
+    ) external override {
+        lastSource = _source;
+        lastMessage = _message;
+        messagesReceived++;
+        emit MessageHandled(_source, _message);
+    }
+
+    /// @dev See {IERC165-supportsInterface}
+    function supportsInterface(
+        bytes4 interfaceId
+    ) public view virtual override returns (bool) {
+        return
+            interfaceId == type(IBridgeReceiver).interfaceId ||
+            super.supportsInterface(interfaceId);
+    }
+}
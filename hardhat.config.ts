@@ -1,6 +1,18 @@
 import { HardhatUserConfig } from "hardhat/config";
 const dotenv = require("dotenv");
 import "@nomicfoundation/hardhat-toolbox";
+import "./tasks/bridge";
+import "./tasks/validators";
+import "./tasks/peg";
+import "./tasks/deployment";
+import "./tasks/roles";
+import "./tasks/safe";
+import "./tasks/simulate";
+import "./tasks/explain";
+import "./tasks/fees";
+import "./tasks/emergency";
+import "./tasks/withdraw";
+import "./tasks/token";
 
 dotenv.config();
 
@@ -63,6 +75,10 @@ const config: HardhatUserConfig = {
     ]
   },
   networks: {
+    hardhat: {
+      // forking a local `hardhat node` (e.g. scenarios/localhost-set-peg.json) needs its hardfork history
+      chains: { 31337: { hardforkHistory: { cancun: 0 } } }
+    },
     // mainnet: {
     //   url: `https://mainnet.infura.io/v3/${process.env.INFURA_API_KEY}`,
     //   accounts: [`0x${process.env.ETH_ACCOUNT_KEY}`],
@@ -1,87 +1,103 @@
-import { ethers } from "hardhat";
+import { ethers, network } from "hardhat";
+import { PEG_PALLET_ADDRESS } from "./utils/codecs";
+import { deploymentPath, runDeployPipeline } from "./utils/deployments";
 
-async function main() {
-  const [deployer] = await ethers.getSigners();
-  const network = process.env.HARDHAT_NETWORK || "testnet";
-
-  // Get addresses based on network
-  const prefix = network === "mainnet" ? "MAIN_" : "TEST_";
+// Deploy Bridge, ERC20Peg and Token and run the setup steps
+//
+// Usage:
+//   HARDHAT_NETWORK=sepolia npx ts-node scripts/deploy.ts
+//
+// - addresses and transactions are recorded in deployments/<network>.json (DEPLOYMENT_MANIFEST to override)
+// - rerunning resumes from the last completed step
+// - roles are read from MAIN_* on root, TEST_* on the test networks (see .env.example)
+// - PALLET_ADDRESS overrides the ERC20Peg pallet address
 
-  const deployerPk = process.env[`${prefix}DEPLOYER_PK`];
-  const rolesManagerPk = process.env[`${prefix}ROLES_MANAGER_PK`];
-  const tokenManagerPk = process.env[`${prefix}TOKEN_MANAGER_PK`];
+// Env prefix of the role addresses and keys - the same accounts hardhat.config.ts configures per network
+const ENV_PREFIX: Record<string, string> = {
+  root: "MAIN_",
+  sepolia: "TEST_",
+  porcini: "TEST_",
+  hardhat: "TEST_",
+  localhost: "TEST_"
+};
 
-  const rolesManager = process.env[`${prefix}ROLES_MANAGER`];
-  const tokenManager = process.env[`${prefix}TOKEN_MANAGER`];
-  const multisig = process.env[`${prefix}MULTISIG`];
-
-  const pegAddress =
-    network === "sepolia"
-      ? process.env.SEPOLIA_PEG_ADDRESS
-      : network === "porcini"
-      ? process.env.PORCINI_PEG_ADDRESS
-      : process.env.ROOT_PEG_ADDRESS;
+async function main() {
+  const [deployer] = await ethers.getSigners();
 
-  if (
-    !deployerPk ||
-    !rolesManagerPk ||
-    !tokenManagerPk ||
-    !rolesManager ||
-    !tokenManager ||
-    !multisig
-  ) {
-    throw new Error("Missing required environment variables");
+  const prefix = ENV_PREFIX[network.name];
+  if (!prefix) {
+    throw new Error(
+      `No role configuration for network ${
+        network.name
+      }, expected one of ${Object.keys(ENV_PREFIX).join(", ")}`
+    );
   }
 
-  console.log(`\nDeploying to ${network} with:`);
-  console.log("Deployer:", deployer.address);
-  console.log("Roles Manager:", rolesManager);
-  console.log("Token Manager:", tokenManager);
-  console.log("Multisig:", multisig);
-  console.log("Peg Address:", pegAddress);
-
-  // Add gas optimization comments
-  console.log(`\nGas Optimization Report:`);
-  console.log("Contracts are compiled with optimizer enabled");
+  const required = [
+    "TOKEN_MANAGER_PK",
+    "ROLES_MANAGER",
+    "TOKEN_MANAGER",
+    "MULTISIG"
+  ].map((name) => `${prefix}${name}`);
+  const missing = required.filter((name) => !process.env[name]);
+  if (missing.length > 0) {
+    throw new Error(
+      `Missing required environment variables: ${missing.join(", ")}`
+    );
+  }
+  const [tokenManagerPk, rolesManager, tokenManager, multisig] = required.map(
+    (name) => process.env[name]!
+  );
 
-  // Deploy Token
-  const Token = await ethers.getContractFactory("Token");
-  const token = await Token.deploy(rolesManager, tokenManager, multisig);
-  await token.deployed();
-  console.log("\nToken deployed to:", token.address);
-  console.log("The Roles manager is:", rolesManager);
-  console.log("The manager of the Token is:", tokenManager);
-  console.log("The multisig of the Token is:", multisig);
+  const manifestPath =
+    process.env.DEPLOYMENT_MANIFEST || deploymentPath(network.name);
+  const config = {
+    rolesManager,
+    tokenManager,
+    multisig,
+    palletAddress: process.env.PALLET_ADDRESS || PEG_PALLET_ADDRESS
+  };
 
-  // Setup phase
+  console.log(`\nDeploying to ${network.name} with:`);
+  console.log("Deployer:", deployer.address);
+  console.log("Roles Manager:", config.rolesManager);
+  console.log("Token Manager:", config.tokenManager);
+  console.log("Multisig:", config.multisig);
+  console.log("Pallet Address:", config.palletAddress);
+  console.log("Manifest:", manifestPath, "\n");
 
-  // Initialize token with peg address (token manager) - with proper error handling
-  try {
-    const tokenManagerSigner = new ethers.Wallet(
-      tokenManagerPk,
-      ethers.provider
-    );
-    const tx = await token.connect(tokenManagerSigner).init(pegAddress);
-    await tx.wait();
-    console.log("Token initialized with peg address:", pegAddress);
-  } catch (error) {
-    console.error("Error initializing token:", error);
-    throw error;
-  }
+  const manifest = await runDeployPipeline({
+    network: network.name,
+    manifestPath,
+    config,
+    deployer,
+    tokenManager: new ethers.Wallet(tokenManagerPk, ethers.provider),
+    getFactory: (contract, signer) =>
+      ethers.getContractFactory(contract, signer)
+  });
 
+  const { Bridge, ERC20Peg, Token } = manifest.contracts;
   console.log("\nDeployment Complete");
-  console.log("Token:", token.address);
+  console.log("Bridge:", Bridge.address);
+  console.log("ERC20Peg:", ERC20Peg.address);
+  console.log("Token:", Token.address);
 
   console.log("\nPlease verify your deployment:");
-  console.log(
-    "Token:",
-    `npx hardhat verify --network ${network} ${token.address} "${rolesManager}" "${tokenManager}" "${multisig}"`
-  );
+  for (const [name, deployment] of Object.entries(manifest.contracts)) {
+    const args = deployment.constructorArgs.map((arg) => `"${arg}"`);
+    console.log(
+      `${name}:`,
+      [
+        "npx hardhat verify --network",
+        network.name,
+        deployment.address,
+        ...args
+      ].join(" ")
+    );
+  }
 }
 
-main()
-  .then(() => process.exit(0))
-  .catch((error) => {
-    console.error(error);
-    process.exit(1);
-  });
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -1,33 +1,76 @@
-import { ethers } from "hardhat";
+import { ethers, network } from "hardhat";
+import { utils } from "ethers";
+import { getContractAddress } from "./utils/addresses";
+import { prepareDeposit, sendDeposit } from "./utils/deposit";
 
-// Deposit some ERC20 token to the CENNZnet bridge contract
+// Deposit Eth or an ERC20 token into the ERC20Peg - claimable 1:1 on the Root network
+//
+// Usage:
+//   HARDHAT_NETWORK=sepolia npx ts-node scripts/deposit.ts <token|ETH> <amount> <destination>
+//
+// - amount is in decimal units of the token e.g. 1.5
+// - the peg address is read from <NETWORK>_PEG_ADDRESS (or PEG_ADDRESS to override)
 async function main() {
-  const ERC20PegFactory = await ethers.getContractFactory('ERC20Peg');
-  console.log('Connecting to CENNZnet erc20peg contract...');
-  const erc20Peg = ERC20PegFactory.attach("0x5FbDB2315678afecb367f032d93F642f64180aa3");
-  console.log('CENNZnet erc20peg attached to:', erc20Peg.address);
+  const [token, amount, destination] = process.argv.slice(2);
+  if (!token || !amount || !destination) {
+    throw new Error(
+      "Usage: scripts/deposit.ts <token|ETH> <amount> <destination>"
+    );
+  }
 
-  const BridgeFactory = await ethers.getContractFactory('CENNZnetBridge');
-  console.log('Connecting to CENNZnet bridge contract...');
-  const bridge = BridgeFactory.attach("0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512");
-  console.log('CENNZnet bridge attached to:', bridge.address);
+  const [depositor] = await ethers.getSigners();
+  const pegAddress = getContractAddress(
+    network.name,
+    "PEG",
+    process.env.PEG_ADDRESS
+  );
+  const peg = await ethers.getContractAt("ERC20Peg", pegAddress, depositor);
+  const bridge = await ethers.getContractAt(
+    "Bridge",
+    await peg.bridge(),
+    depositor
+  );
+  console.log(
+    `ERC20Peg ${peg.address} (bridge ${bridge.address}) on ${network.name}`
+  );
 
-  console.log(await erc20Peg.setBridgeAddress(bridge.address));
+  const deposit = await prepareDeposit(peg, bridge, depositor, {
+    token,
+    amount,
+    destination
+  });
+  console.log(
+    `\nDepositing ${utils.formatUnits(deposit.amount, deposit.decimals)} ${
+      deposit.symbol
+    }`
+  );
+  console.log("From:", depositor.address);
+  console.log("To (Root):", deposit.destination);
+  console.log("Message fee:", utils.formatEther(deposit.messageFee), "ETH");
+  console.log("Value sent:", utils.formatEther(deposit.value), "ETH");
 
-  console.log('Connecting to test erc20 contract...');
-  const MockERC20Factory = await ethers.getContractFactory('MockERC20');
-  const mockERC20 = MockERC20Factory.attach("0xCf7Ed3AccA5a467e9e704C703E8D87F634fB0Fc9");
-  console.log(`connected. bridge: ${erc20Peg.address}, token: ${mockERC20.address}`);
+  const result = await sendDeposit(peg, bridge, depositor, deposit);
 
-  // make deposit
-  let depositAmount = 5644;
-  let cennznetAddress = "0xd43593c715fdd31c61141abd04a99fd6822c8558854ccde39a5684e7a56da27d";
-  console.log(await mockERC20.approve(erc20Peg.address, depositAmount));
-  console.log(await erc20Peg.deposit(mockERC20.address, depositAmount, cennznetAddress));
+  console.log(
+    `\nDeposit confirmed in block ${result.blockNumber}: ${result.transactionHash}`
+  );
+  console.log("Deposit:", {
+    depositor: result.deposit.depositor,
+    tokenAddress: result.deposit.tokenAddress,
+    amount: result.deposit.amount.toString(),
+    destination: result.deposit.destination
+  });
+  console.log("SendMessage:", {
+    messageId: result.message.messageId.toString(),
+    source: result.message.source,
+    destination: result.message.destination,
+    message: result.message.message,
+    fee: result.message.fee.toString()
+  });
+  console.log("\nBridge messageId:", result.message.messageId.toString());
 }
 
-main()
-  .catch((error) => {
-    console.error(error);
-    process.exitCode = 1;
-  });
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
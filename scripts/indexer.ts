@@ -0,0 +1,92 @@
+import { ethers, network } from "hardhat";
+import { getContractAddress } from "./utils/addresses";
+import { toCsv } from "./utils/csv";
+import {
+  loadMessageIndex,
+  queryMessages,
+  syncMessages,
+  toRows
+} from "./utils/indexer";
+
+// Index Bridge `SendMessage` events into a local JSON store
+//
+// Usage:
+//   HARDHAT_NETWORK=sepolia npx ts-node scripts/indexer.ts [--once]     backfill then tail new blocks
+//   HARDHAT_NETWORK=sepolia npx ts-node scripts/indexer.ts export [--csv] [--source <address>] [--token <address>]
+//
+// - INDEXER_STORE (default indexer/<network>-messages.json)
+// - INDEXER_CONFIRMATIONS (default 12) blocks before an event is indexed
+// - INDEXER_START_BLOCK first block to index, e.g. the Bridge deployment block
+// - ERC20Peg deposit payloads are decoded for <NETWORK>_PEG_ADDRESS
+async function main() {
+  const args = process.argv.slice(2);
+  const option = (name: string) => {
+    const i = args.indexOf(`--${name}`);
+    return i >= 0 ? args[i + 1] : undefined;
+  };
+  const {
+    BRIDGE_ADDRESS,
+    PEG_ADDRESS,
+    INDEXER_STORE,
+    INDEXER_CONFIRMATIONS,
+    INDEXER_START_BLOCK,
+    INDEXER_POLL_INTERVAL
+  } = process.env;
+
+  const storePath = INDEXER_STORE || `indexer/${network.name}-messages.json`;
+  const bridge = await ethers.getContractAt(
+    "Bridge",
+    getContractAddress(network.name, "BRIDGE", BRIDGE_ADDRESS)
+  );
+
+  if (args[0] === "export") {
+    const messages = queryMessages(
+      loadMessageIndex(storePath, bridge.address),
+      {
+        source: option("source"),
+        tokenAddress: option("token")
+      }
+    );
+    if (args.includes("--csv")) {
+      process.stdout.write(toCsv(toRows(messages)));
+    } else {
+      console.log(JSON.stringify(messages, null, 2));
+    }
+    return;
+  }
+
+  const pegAddresses = PEG_ADDRESS
+    ? [PEG_ADDRESS]
+    : process.env[`${network.name.toUpperCase()}_PEG_ADDRESS`]
+    ? [getContractAddress(network.name, "PEG")]
+    : [];
+  const options = {
+    bridge,
+    storePath,
+    confirmations: Number(INDEXER_CONFIRMATIONS ?? 12),
+    startBlock: Number(INDEXER_START_BLOCK ?? 0),
+    pegAddresses
+  };
+  console.log(
+    `Indexing Bridge ${bridge.address} on ${network.name} into ${storePath}`
+  );
+
+  for (;;) {
+    try {
+      const { added, toBlock } = await syncMessages(options);
+      console.log(`Synced to block ${toBlock} (${added} new messages)`);
+    } catch (error) {
+      if (args.includes("--once")) throw error;
+      console.error(error);
+    }
+    if (args.includes("--once")) return;
+    await new Promise((resolve) =>
+      setTimeout(resolve, Number(INDEXER_POLL_INTERVAL || 15_000))
+    );
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
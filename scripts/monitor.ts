@@ -0,0 +1,95 @@
+import { ethers, network } from "hardhat";
+import { Contract } from "ethers";
+import { ContractName, getContractAddress } from "./utils/addresses";
+import {
+  AlertSink,
+  FileSink,
+  MonitoredContract,
+  StdoutSink,
+  WebhookSink,
+  loadMonitorRules,
+  pollAlerts
+} from "./utils/monitor";
+
+// Watch Bridge, ERC20Peg and Token events and alert on governance actions and anomalies
+//
+// Usage:
+//   HARDHAT_NETWORK=sepolia npx ts-node scripts/monitor.ts [--once]
+//
+// - MONITOR_RULES (default monitor/rules.json) lists the alert rules
+// - alerts go to stdout, plus MONITOR_WEBHOOK_URL (JSON POST) and MONITOR_ALERT_FILE (JSON lines) when set
+// - progress is kept in MONITOR_STATE (default monitor-state/<network>.json) so restarts resume
+// - MONITOR_CONFIRMATIONS (default 2) blocks before an event is evaluated
+// - MONITOR_START_BLOCK first block on a fresh state, defaults to the current head
+// - contract addresses are read from <NETWORK>_<CONTRACT>_ADDRESS or the deployment manifest
+const CONTRACTS: Record<MonitoredContract, ContractName> = {
+  Bridge: "BRIDGE",
+  ERC20Peg: "PEG",
+  Token: "TOKEN"
+};
+
+async function main() {
+  const once = process.argv.includes("--once");
+  const {
+    MONITOR_RULES,
+    MONITOR_STATE,
+    MONITOR_CONFIRMATIONS,
+    MONITOR_START_BLOCK,
+    MONITOR_POLL_INTERVAL,
+    MONITOR_WEBHOOK_URL,
+    MONITOR_ALERT_FILE
+  } = process.env;
+
+  const rules = loadMonitorRules(MONITOR_RULES || "monitor/rules.json");
+  const contracts: Partial<Record<MonitoredContract, Contract>> = {};
+  for (const name of new Set(rules.map((rule) => rule.contract))) {
+    contracts[name] = await ethers.getContractAt(
+      name,
+      getContractAddress(network.name, CONTRACTS[name])
+    );
+  }
+
+  const sinks: AlertSink[] = [new StdoutSink()];
+  if (MONITOR_WEBHOOK_URL) sinks.push(new WebhookSink(MONITOR_WEBHOOK_URL));
+  if (MONITOR_ALERT_FILE) sinks.push(new FileSink(MONITOR_ALERT_FILE));
+
+  const options = {
+    contracts,
+    rules,
+    sinks,
+    statePath: MONITOR_STATE || `monitor-state/${network.name}.json`,
+    confirmations: Number(MONITOR_CONFIRMATIONS ?? 2),
+    startBlock:
+      MONITOR_START_BLOCK === undefined
+        ? undefined
+        : Number(MONITOR_START_BLOCK),
+    log: () => {}
+  };
+  console.log(
+    `Monitoring ${Object.entries(contracts)
+      .map(([name, contract]) => `${name} ${contract.address}`)
+      .join(", ")} on ${network.name} with ${rules.length} rules`
+  );
+
+  for (;;) {
+    try {
+      const { toBlock, alerts } = await pollAlerts(options);
+      if (alerts.length > 0 || once) {
+        console.log(`Checked to block ${toBlock} (${alerts.length} alerts)`);
+      }
+    } catch (error) {
+      // e.g. the RPC or webhook is unreachable - the same blocks are checked again next round
+      if (once) throw error;
+      console.error(error);
+    }
+    if (once) return;
+    await new Promise((resolve) =>
+      setTimeout(resolve, Number(MONITOR_POLL_INTERVAL || 15_000))
+    );
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
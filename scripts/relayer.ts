@@ -0,0 +1,61 @@
+import { ethers, network } from "hardhat";
+import { getContractAddress } from "./utils/addresses";
+import {
+  FileProofSource,
+  HttpProofSource,
+  ProofSource,
+  relayMessages
+} from "./utils/relayer";
+
+// Relay signed Root -> Ethereum event proofs to `Bridge.receiveMessage`
+//
+// Usage:
+//   HARDHAT_NETWORK=sepolia PROOF_SOURCE=<proofs.json|https://...> npx ts-node scripts/relayer.ts [--once]
+//
+// - PROOF_SOURCE is a JSON file or an HTTP endpoint returning an array of signed messages
+// - progress is kept in RELAYER_STATE (default relayer-state/<network>.json) so reruns resume
+// - the bridge address is read from <NETWORK>_BRIDGE_ADDRESS (or BRIDGE_ADDRESS to override)
+async function main() {
+  const once = process.argv.includes("--once");
+  const { PROOF_SOURCE, RELAYER_STATE, RELAYER_POLL_INTERVAL, BRIDGE_ADDRESS } =
+    process.env;
+  if (!PROOF_SOURCE) {
+    throw new Error("Missing PROOF_SOURCE (proof file path or HTTP url)");
+  }
+
+  const source: ProofSource = /^https?:\/\//.test(PROOF_SOURCE)
+    ? new HttpProofSource(PROOF_SOURCE)
+    : new FileProofSource(PROOF_SOURCE);
+  const statePath = RELAYER_STATE || `relayer-state/${network.name}.json`;
+  const pollInterval = Number(RELAYER_POLL_INTERVAL || 30_000);
+
+  const [relayer] = await ethers.getSigners();
+  const bridge = await ethers.getContractAt(
+    "Bridge",
+    getContractAddress(network.name, "BRIDGE", BRIDGE_ADDRESS),
+    relayer
+  );
+  console.log(
+    `Relaying to Bridge ${bridge.address} on ${network.name} as ${relayer.address}`
+  );
+
+  for (;;) {
+    try {
+      const report = await relayMessages({ bridge, source, statePath });
+      console.log(
+        `Submitted ${report.submitted.length}, skipped ${report.skipped.length}, failed ${report.failed.length}`
+      );
+    } catch (error) {
+      // e.g. the proof source or RPC is unreachable - try again next round
+      if (once) throw error;
+      console.error(error);
+    }
+    if (once) return;
+    await new Promise((resolve) => setTimeout(resolve, pollInterval));
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,48 @@
+import { utils } from "ethers";
+import { readJsonFile } from "./jsonStore";
+import {
+  DeploymentManifest,
+  deployedAddress,
+  deploymentPath
+} from "./deployments";
+
+export type ContractName = "BRIDGE" | "PEG" | "TOKEN";
+
+// contract names in deployments/<network>.json
+const MANIFEST_CONTRACTS: Record<ContractName, string> = {
+  BRIDGE: "Bridge",
+  PEG: "ERC20Peg",
+  TOKEN: "Token"
+};
+
+/**
+ * Resolve a deployed contract address for `network`
+ * - an explicit `override` always wins
+ * - then `<NETWORK>_<CONTRACT>_ADDRESS` e.g. SEPOLIA_PEG_ADDRESS (see .env.example)
+ * - then the deployment manifest deployments/<network>.json
+ */
+export function getContractAddress(
+  network: string,
+  contract: ContractName,
+  override?: string
+): string {
+  const envKey = `${network.toUpperCase()}_${contract}_ADDRESS`;
+  const manifest = readJsonFile<DeploymentManifest | undefined>(
+    deploymentPath(network),
+    undefined
+  );
+  const address =
+    override ||
+    process.env[envKey] ||
+    (manifest && deployedAddress(manifest, MANIFEST_CONTRACTS[contract]));
+
+  if (!address) {
+    throw new Error(
+      `Missing ${contract.toLowerCase()} address for ${network}: pass it explicitly, set ${envKey} or deploy with scripts/deploy.ts`
+    );
+  }
+  if (!utils.isAddress(address)) {
+    throw new Error(`Invalid ${contract.toLowerCase()} address: ${address}`);
+  }
+  return utils.getAddress(address);
+}
@@ -0,0 +1,207 @@
+import { BigNumber, BigNumberish, utils } from "ethers";
+
+// Root pallet accounts paired with the Bridge and ERC20Peg - the same on every network
+export const BRIDGE_PALLET_ADDRESS =
+  "0x6D6f646C65746879627264670000000000000000";
+export const PEG_PALLET_ADDRESS = "0x6D6f646c65726332307065670000000000000000";
+
+/**
+ * The payload format of an `IBridgeReceiver` app, i.e. the `abi.decode` in its `onMessageReceived`
+ */
+export interface PayloadCodec<T> {
+  types: string[];
+  toValues(payload: T): unknown[];
+  fromValues(values: utils.Result): T;
+}
+
+// ERC20Peg deposit/withdrawal payload - abi.encode(tokenAddress, amount, destination)
+export interface PegDepositPayload {
+  tokenAddress: string;
+  amount: string;
+  destination: string;
+}
+
+// Bridge validator set update - abi.encode(validators, validatorSetId)
+export interface ValidatorSetPayload {
+  validators: string[];
+  validatorSetId: number;
+}
+
+export const pegDepositCodec: PayloadCodec<PegDepositPayload> = {
+  types: ["address", "uint128", "address"],
+  toValues: ({ tokenAddress, amount, destination }) => [
+    tokenAddress,
+    amount,
+    destination
+  ],
+  fromValues: ([tokenAddress, amount, destination]) => ({
+    tokenAddress,
+    amount: amount.toString(),
+    destination
+  })
+};
+
+export const validatorSetCodec: PayloadCodec<ValidatorSetPayload> = {
+  types: ["address[]", "uint32"],
+  toValues: ({ validators, validatorSetId }) => [validators, validatorSetId],
+  fromValues: ([validators, validatorSetId]) => ({
+    validators: [...validators],
+    validatorSetId
+  })
+};
+
+/**
+ * Throws if `message` is longer than the Bridge's `maxMessageLength` - `sendMessage` would revert
+ */
+export function checkMessageLength(
+  message: utils.BytesLike,
+  maxMessageLength: BigNumberish
+) {
+  const length = utils.hexDataLength(message);
+  if (BigNumber.from(maxMessageLength).lt(length)) {
+    throw new Error(
+      `Message is ${length} bytes, exceeds maxMessageLength ${maxMessageLength.toString()}`
+    );
+  }
+}
+
+export function encodePayload<T>(
+  codec: PayloadCodec<T>,
+  payload: T,
+  maxMessageLength?: BigNumberish
+): string {
+  const message = utils.defaultAbiCoder.encode(
+    codec.types,
+    codec.toValues(payload)
+  );
+  if (maxMessageLength !== undefined) {
+    checkMessageLength(message, maxMessageLength);
+  }
+  return message;
+}
+
+/**
+ * Decode `message`, throwing unless it is exactly the ABI encoding of the codec's types
+ * `abi.decode` ignores trailing bytes - a message that does not re-encode to itself is malformed
+ */
+export function decodePayload<T>(
+  codec: PayloadCodec<T>,
+  message: utils.BytesLike
+): T {
+  const values = utils.defaultAbiCoder.decode(codec.types, message);
+  const encoded = utils.defaultAbiCoder.encode(codec.types, values);
+  if (encoded !== utils.hexlify(message).toLowerCase()) {
+    throw new Error(
+      `Malformed (${codec.types.join(", ")}) payload: ${utils.hexDataLength(
+        message
+      )} bytes, expected ${utils.hexDataLength(encoded)}`
+    );
+  }
+  return codec.fromValues(values);
+}
+
+// A decoded message, narrowed by `app`
+export type DecodedPayload<Apps> = {
+  [App in keyof Apps]: { app: App; payload: Apps[App] };
+}[keyof Apps];
+
+interface CodecEntry {
+  app: string;
+  codec: PayloadCodec<unknown>;
+  address?: string;
+  pallet?: string;
+}
+
+/**
+ * Payload codecs keyed by the receiver contract on Ethereum and/or its Root pallet
+ * A message matches an app when its source or destination is the app's contract or pallet:
+ * outgoing messages are sent from the contract to the pallet, incoming ones the other way round
+ */
+export class CodecRegistry<Apps = {}> {
+  private readonly entries: CodecEntry[] = [];
+
+  register<App extends string, T>(
+    app: App,
+    codec: PayloadCodec<T>,
+    { address, pallet }: { address?: string; pallet?: string }
+  ): CodecRegistry<Apps & Record<App, T>> {
+    if (!address && !pallet) {
+      throw new Error(`Codec ${app} needs a contract or pallet address`);
+    }
+    this.entries.push({
+      app,
+      codec: codec as PayloadCodec<unknown>,
+      address: address?.toLowerCase(),
+      pallet: pallet?.toLowerCase()
+    });
+    return this as CodecRegistry<Apps & Record<App, T>>;
+  }
+
+  private find(source: string, destination: string): CodecEntry | undefined {
+    const ends = [source.toLowerCase(), destination.toLowerCase()];
+    return this.entries.find(
+      (entry) =>
+        (entry.address && ends.includes(entry.address)) ||
+        (entry.pallet && ends.includes(entry.pallet))
+    );
+  }
+
+  /**
+   * Decode a message by its source and destination - undefined when no app matches, throws if it is malformed
+   */
+  decode(
+    source: string,
+    destination: string,
+    message: utils.BytesLike
+  ): DecodedPayload<Apps> | undefined {
+    const entry = this.find(source, destination);
+    if (!entry) return undefined;
+    return {
+      app: entry.app,
+      payload: decodePayload(entry.codec, message)
+    } as DecodedPayload<Apps>;
+  }
+
+  /**
+   * Encode the payload of `app`, checked against `maxMessageLength` when given
+   */
+  encode<App extends keyof Apps & string>(
+    app: App,
+    payload: Apps[App],
+    maxMessageLength?: BigNumberish
+  ): string {
+    const entry = this.entries.find((e) => e.app === app);
+    if (!entry) throw new Error(`No codec registered for ${app}`);
+    return encodePayload(entry.codec, payload, maxMessageLength);
+  }
+}
+
+/**
+ * Registry of the Bridge validator set and ERC20Peg payloads
+ * Contract addresses are optional - messages are still matched by the pallet addresses
+ */
+export function bridgeCodecRegistry({
+  bridge,
+  pegs = [],
+  bridgePallet = BRIDGE_PALLET_ADDRESS,
+  pegPallet = PEG_PALLET_ADDRESS
+}: {
+  bridge?: string;
+  pegs?: string[];
+  bridgePallet?: string;
+  pegPallet?: string;
+}) {
+  const registry = new CodecRegistry<{
+    Bridge: ValidatorSetPayload;
+    ERC20Peg: PegDepositPayload;
+  }>();
+  registry.register("Bridge", validatorSetCodec, {
+    address: bridge,
+    pallet: bridgePallet
+  });
+  for (const peg of pegs) {
+    registry.register("ERC20Peg", pegDepositCodec, { address: peg });
+  }
+  registry.register("ERC20Peg", pegDepositCodec, { pallet: pegPallet });
+  return registry;
+}
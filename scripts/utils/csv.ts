@@ -0,0 +1,19 @@
+// Quote a CSV field if it contains a separator, quote or newline
+function csvField(value: unknown): string {
+  const text = value === undefined || value === null ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render rows as CSV - the header is taken from the keys of the first row
+ */
+export function toCsv(rows: Record<string, unknown>[]): string {
+  if (rows.length === 0) return "";
+  const header = Object.keys(rows[0]);
+  return (
+    [
+      header.map(csvField).join(","),
+      ...rows.map((row) => header.map((key) => csvField(row[key])).join(","))
+    ].join("\n") + "\n"
+  );
+}
@@ -0,0 +1,271 @@
+import {
+  Contract,
+  ContractFactory,
+  ContractTransaction,
+  Signer,
+  providers
+} from "ethers";
+import { readJsonFile, writeJsonFile } from "./jsonStore";
+
+export type DeploymentStatus = "pending" | "done";
+
+export interface ContractDeployment {
+  status: DeploymentStatus;
+  address: string;
+  transactionHash: string;
+  // set once the deployment is mined
+  blockNumber?: number;
+  constructorArgs: unknown[];
+  deployer: string;
+}
+
+export interface StepRecord {
+  status: DeploymentStatus;
+  // arguments of the setup call - a rerun with different ones is refused
+  args: unknown[];
+  transactionHash: string;
+  blockNumber?: number;
+  from: string;
+}
+
+export interface DeploymentManifest {
+  network: string;
+  chainId: number;
+  // keyed by contract name e.g. "Bridge"
+  contracts: Record<string, ContractDeployment>;
+  // keyed by step name e.g. "Bridge.setActive"
+  steps: Record<string, StepRecord>;
+}
+
+export interface DeployConfig {
+  // Token DEFAULT_ADMIN_ROLE
+  rolesManager: string;
+  // Token MANAGER_ROLE - calls `Token.init`
+  tokenManager: string;
+  // Token MULTISIG_ROLE
+  multisig: string;
+  // ERC20Peg `palletAddress` - the peg pallet on the Root network
+  palletAddress: string;
+}
+
+export interface DeployPipelineOptions {
+  network: string;
+  manifestPath: string;
+  config: DeployConfig;
+  // owner of the Bridge and ERC20Peg
+  deployer: Signer;
+  // signer for `config.tokenManager`
+  tokenManager: Signer;
+  // e.g. hardhat's `ethers.getContractFactory`
+  getFactory: (contract: string, signer: Signer) => Promise<ContractFactory>;
+  log?: (message: string) => void;
+}
+
+export const deploymentPath = (network: string) =>
+  `deployments/${network}.json`;
+
+/**
+ * Load the manifest for `network`, refusing one written for a different chain
+ */
+export function loadManifest(
+  path: string,
+  network: string,
+  chainId: number
+): DeploymentManifest {
+  const manifest = readJsonFile<DeploymentManifest>(path, {
+    network,
+    chainId,
+    contracts: {},
+    steps: {}
+  });
+  if (manifest.chainId !== chainId) {
+    throw new Error(
+      `Deployment manifest ${path} is for chain ${manifest.chainId}, connected to chain ${chainId}`
+    );
+  }
+  return manifest;
+}
+
+/**
+ * Address of a contract in the manifest, if its deployment was mined
+ */
+export function deployedAddress(
+  manifest: DeploymentManifest,
+  contract: string
+): string | undefined {
+  const deployment = manifest.contracts[contract];
+  return deployment?.status === "done" ? deployment.address : undefined;
+}
+
+// Receipt of a transaction sent by a previous run - undefined if it was dropped or reverted and must be sent again
+async function resumePending(
+  provider: providers.Provider,
+  transactionHash: string
+): Promise<providers.TransactionReceipt | undefined> {
+  if (!(await provider.getTransaction(transactionHash))) return undefined;
+  const receipt = await provider.waitForTransaction(transactionHash);
+  return receipt.status === 1 ? receipt : undefined;
+}
+
+/**
+ * Deploy Bridge, ERC20Peg and Token and run their setup steps, recording every transaction in the manifest
+ * The manifest is written before and after each transaction is mined: a rerun skips completed work,
+ * waits for transactions still pending from an interrupted run and only resends dropped or reverted ones
+ */
+export async function runDeployPipeline({
+  network,
+  manifestPath,
+  config,
+  deployer,
+  tokenManager,
+  getFactory,
+  log = console.log
+}: DeployPipelineOptions): Promise<DeploymentManifest> {
+  const provider = deployer.provider!;
+  const { chainId } = await provider.getNetwork();
+  const manifest = loadManifest(manifestPath, network, chainId);
+  const save = () => writeJsonFile(manifestPath, manifest);
+
+  async function deploy(
+    name: string,
+    args: unknown[],
+    signer: Signer
+  ): Promise<Contract> {
+    const factory = await getFactory(name, signer);
+    const recorded = manifest.contracts[name];
+    if (recorded) {
+      if (JSON.stringify(recorded.constructorArgs) !== JSON.stringify(args)) {
+        throw new Error(
+          `${name} in ${manifestPath} was deployed with constructor args ${JSON.stringify(
+            recorded.constructorArgs
+          )}, not ${JSON.stringify(
+            args
+          )} - remove it from the manifest to redeploy`
+        );
+      }
+      if (recorded.status === "done") {
+        if ((await provider.getCode(recorded.address)) === "0x") {
+          throw new Error(
+            `${name} has no code at ${recorded.address} - ${manifestPath} does not match ${network}`
+          );
+        }
+        log(`${name}: already deployed at ${recorded.address}`);
+        return factory.attach(recorded.address);
+      }
+      const receipt = await resumePending(provider, recorded.transactionHash);
+      if (receipt) {
+        manifest.contracts[name] = {
+          ...recorded,
+          status: "done",
+          address: receipt.contractAddress,
+          blockNumber: receipt.blockNumber
+        };
+        save();
+        log(`${name}: deployed at ${receipt.contractAddress} (resumed)`);
+        return factory.attach(receipt.contractAddress);
+      }
+      log(
+        `${name}: ${recorded.transactionHash} was not mined, deploying again`
+      );
+    }
+
+    const contract = await factory.deploy(...args);
+    manifest.contracts[name] = {
+      status: "pending",
+      address: contract.address,
+      transactionHash: contract.deployTransaction.hash,
+      constructorArgs: args,
+      deployer: await signer.getAddress()
+    };
+    save();
+    const receipt = await contract.deployTransaction.wait();
+    manifest.contracts[name] = {
+      ...manifest.contracts[name],
+      status: "done",
+      address: receipt.contractAddress,
+      blockNumber: receipt.blockNumber
+    };
+    save();
+    log(`${name}: deployed at ${receipt.contractAddress}`);
+    return contract;
+  }
+
+  async function step(
+    contractName: string,
+    contract: Contract,
+    method: string,
+    args: unknown[],
+    signer: Signer
+  ) {
+    const name = `${contractName}.${method}`;
+    const recorded = manifest.steps[name];
+    if (recorded && JSON.stringify(recorded.args) !== JSON.stringify(args)) {
+      throw new Error(
+        `${name} in ${manifestPath} was sent with args ${JSON.stringify(
+          recorded.args
+        )}, not ${JSON.stringify(
+          args
+        )} - remove it from the manifest to send it again`
+      );
+    }
+    if (recorded?.status === "done") {
+      log(`${name}: already done`);
+      return;
+    }
+    if (recorded) {
+      const receipt = await resumePending(provider, recorded.transactionHash);
+      if (receipt) {
+        manifest.steps[name] = {
+          ...recorded,
+          status: "done",
+          blockNumber: receipt.blockNumber
+        };
+        save();
+        log(`${name}: done (resumed)`);
+        return;
+      }
+      log(`${name}: ${recorded.transactionHash} was not mined, sending again`);
+    }
+
+    const tx: ContractTransaction = await contract
+      .connect(signer)
+      [method](...args);
+    manifest.steps[name] = {
+      status: "pending",
+      args,
+      transactionHash: tx.hash,
+      from: await signer.getAddress()
+    };
+    save();
+    const receipt = await tx.wait();
+    manifest.steps[name] = {
+      ...manifest.steps[name],
+      status: "done",
+      blockNumber: receipt.blockNumber
+    };
+    save();
+    log(`${name}: done`);
+  }
+
+  const bridge = await deploy("Bridge", [], deployer);
+  const peg = await deploy("ERC20Peg", [bridge.address], deployer);
+  const token = await deploy(
+    "Token",
+    [config.rolesManager, config.tokenManager, config.multisig],
+    deployer
+  );
+
+  await step("Bridge", bridge, "setActive", [true], deployer);
+  await step("Token", token, "init", [peg.address], tokenManager);
+  await step("ERC20Peg", peg, "setDepositsActive", [true], deployer);
+  await step("ERC20Peg", peg, "setWithdrawalsActive", [true], deployer);
+  await step(
+    "ERC20Peg",
+    peg,
+    "setPalletAddress",
+    [config.palletAddress],
+    deployer
+  );
+
+  return manifest;
+}
@@ -0,0 +1,226 @@
+import {
+  BigNumber,
+  Contract,
+  ContractReceipt,
+  Signer,
+  constants,
+  utils
+} from "ethers";
+import { encodePayload, pegDepositCodec } from "./codecs";
+import { depositMessageFee } from "./fees";
+
+// Reserved `tokenAddress` for native Eth deposits - ERC20Peg.ETH_RESERVED_TOKEN_ADDRESS
+export const ETH_RESERVED_TOKEN_ADDRESS = constants.AddressZero;
+
+export const ERC20_ABI = [
+  "function decimals() view returns (uint8)",
+  "function symbol() view returns (string)",
+  "function balanceOf(address) view returns (uint256)",
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function approve(address spender, uint256 amount) returns (bool)"
+];
+
+const MAX_UINT128 = BigNumber.from(2).pow(128).sub(1);
+
+export interface DepositRequest {
+  // token address or "ETH" (native Eth)
+  token: string;
+  // amount in decimal units of the token e.g. "1.5"
+  amount: string;
+  // recipient on the Root network
+  destination: string;
+}
+
+export interface PreparedDeposit {
+  tokenAddress: string;
+  symbol: string;
+  decimals: number;
+  amount: BigNumber;
+  destination: string;
+  // forwarded to the bridge with the message - see `depositMessageFee`
+  messageFee: BigNumber;
+  // total msg.value: amount + fee for Eth, fee only for ERC20s
+  value: BigNumber;
+}
+
+export interface DepositResult {
+  transactionHash: string;
+  blockNumber: number;
+  deposit: {
+    depositor: string;
+    tokenAddress: string;
+    amount: BigNumber;
+    destination: string;
+  };
+  message: {
+    messageId: BigNumber;
+    source: string;
+    destination: string;
+    message: string;
+    fee: BigNumber;
+  };
+}
+
+export const isEth = (token: string) =>
+  token.toUpperCase() === "ETH" ||
+  (utils.isAddress(token) && BigNumber.from(token).isZero());
+
+/**
+ * Resolve a deposit request against the live peg/bridge state - throws if the peg would reject it
+ */
+export async function prepareDeposit(
+  peg: Contract,
+  bridge: Contract,
+  depositor: Signer,
+  request: DepositRequest
+): Promise<PreparedDeposit> {
+  if (!(await peg.depositsActive())) {
+    throw new Error("ERC20Peg: deposits paused");
+  }
+  if (!utils.isAddress(request.destination)) {
+    throw new Error(`Invalid destination address: ${request.destination}`);
+  }
+
+  const eth = isEth(request.token);
+  const tokenAddress = eth
+    ? ETH_RESERVED_TOKEN_ADDRESS
+    : utils.getAddress(request.token);
+  const token = eth
+    ? undefined
+    : new Contract(tokenAddress, ERC20_ABI, depositor);
+  const [decimals, symbol] = token
+    ? await Promise.all([token.decimals(), token.symbol()])
+    : [18, "ETH"];
+
+  const amount = utils.parseUnits(request.amount, decimals);
+  if (amount.isZero()) throw new Error("Deposit amount must be nonzero");
+  if (amount.gt(MAX_UINT128)) throw new Error("Deposit amount exceeds uint128");
+  const destination = utils.getAddress(request.destination);
+  // the payload the peg sends - `Bridge.sendMessage` reverts if it exceeds maxMessageLength
+  encodePayload(
+    pegDepositCodec,
+    { tokenAddress, amount: amount.toString(), destination },
+    await bridge.maxMessageLength()
+  );
+
+  const messageFee = await depositMessageFee(bridge);
+  const value = eth ? amount.add(messageFee) : messageFee;
+
+  const depositorAddress = await depositor.getAddress();
+  const [ethBalance, tokenBalance] = await Promise.all([
+    depositor.getBalance(),
+    token ? token.balanceOf(depositorAddress) : undefined
+  ]);
+  if (ethBalance.lt(value)) {
+    throw new Error(
+      `Insufficient ETH: requires ${utils.formatEther(value)} (excluding gas)`
+    );
+  }
+  if (tokenBalance && tokenBalance.lt(amount)) {
+    throw new Error(
+      `Insufficient ${symbol}: balance ${utils.formatUnits(
+        tokenBalance,
+        decimals
+      )}`
+    );
+  }
+
+  return {
+    tokenAddress,
+    symbol,
+    decimals,
+    amount,
+    destination,
+    messageFee,
+    value
+  };
+}
+
+/**
+ * Approve the peg for an ERC20 deposit if the current allowance does not cover it
+ * Returns the approval receipt, or undefined if no approval was needed
+ */
+export async function approveDeposit(
+  peg: Contract,
+  depositor: Signer,
+  deposit: PreparedDeposit
+): Promise<ContractReceipt | undefined> {
+  if (deposit.tokenAddress === ETH_RESERVED_TOKEN_ADDRESS) return undefined;
+
+  const token = new Contract(deposit.tokenAddress, ERC20_ABI, depositor);
+  const allowance: BigNumber = await token.allowance(
+    await depositor.getAddress(),
+    peg.address
+  );
+  if (allowance.gte(deposit.amount)) return undefined;
+
+  const tx = await token.approve(peg.address, deposit.amount);
+  return tx.wait();
+}
+
+/**
+ * Extract the peg `Deposit` and bridge `SendMessage` events from a deposit receipt
+ */
+export function parseDepositReceipt(
+  peg: Contract,
+  bridge: Contract,
+  receipt: ContractReceipt
+): DepositResult {
+  let deposit: DepositResult["deposit"] | undefined;
+  let message: DepositResult["message"] | undefined;
+
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() === peg.address.toLowerCase()) {
+      const parsed = peg.interface.parseLog(log);
+      if (parsed.name === "Deposit") {
+        deposit = {
+          depositor: parsed.args._address,
+          tokenAddress: parsed.args.tokenAddress,
+          amount: parsed.args.amount,
+          destination: parsed.args.destination
+        };
+      }
+    } else if (log.address.toLowerCase() === bridge.address.toLowerCase()) {
+      const parsed = bridge.interface.parseLog(log);
+      if (parsed.name === "SendMessage") {
+        message = {
+          messageId: parsed.args.messageId,
+          source: parsed.args.source,
+          destination: parsed.args.destination,
+          message: parsed.args.message,
+          fee: parsed.args.fee
+        };
+      }
+    }
+  }
+
+  if (!deposit || !message) {
+    throw new Error(
+      `${receipt.transactionHash} is missing the Deposit/SendMessage events`
+    );
+  }
+  return {
+    transactionHash: receipt.transactionHash,
+    blockNumber: receipt.blockNumber,
+    deposit,
+    message
+  };
+}
+
+/**
+ * Send a prepared deposit (approving ERC20s first if needed) and wait for its events
+ */
+export async function sendDeposit(
+  peg: Contract,
+  bridge: Contract,
+  depositor: Signer,
+  deposit: PreparedDeposit
+): Promise<DepositResult> {
+  await approveDeposit(peg, depositor, deposit);
+  const tx = await peg
+    .connect(depositor)
+    .deposit(deposit.tokenAddress, deposit.amount, deposit.destination, {
+      value: deposit.value
+    });
+  return parseDepositReceipt(peg, bridge, await tx.wait());
+}
@@ -0,0 +1,199 @@
+import { Contract, ContractReceipt, Signer, providers, utils } from "ethers";
+import { ROLES } from "./roles";
+
+export type EmergencyContract = "Bridge" | "ERC20Peg" | "Token";
+
+export type EmergencyAction = "halt" | "resume";
+
+export interface EmergencyStatus {
+  bridgeActive: boolean;
+  depositsActive: boolean;
+  withdrawalsActive: boolean;
+  tokenPaused: boolean;
+}
+
+export interface EmergencyStep {
+  contract: EmergencyContract;
+  method: string;
+  args: unknown[];
+  // Bridge/ERC20Peg ownership, or the Token role the call requires
+  authority: "owner" | "MANAGER_ROLE" | "MULTISIG_ROLE";
+  // status field the call sets, and its value afterwards
+  field: keyof EmergencyStatus;
+  value: boolean;
+}
+
+// Halt stops incoming bridge messages first, then the peg, then Token transfers
+const HALT: EmergencyStep[] = [
+  {
+    contract: "Bridge",
+    method: "setActive",
+    args: [false],
+    authority: "owner",
+    field: "bridgeActive",
+    value: false
+  },
+  {
+    contract: "ERC20Peg",
+    method: "setWithdrawalsActive",
+    args: [false],
+    authority: "owner",
+    field: "withdrawalsActive",
+    value: false
+  },
+  {
+    contract: "ERC20Peg",
+    method: "setDepositsActive",
+    args: [false],
+    authority: "owner",
+    field: "depositsActive",
+    value: false
+  },
+  {
+    contract: "Token",
+    method: "pause",
+    args: [],
+    authority: "MANAGER_ROLE",
+    field: "tokenPaused",
+    value: true
+  }
+];
+
+// Resume in reverse - the Bridge only relays messages again once everything downstream is live
+const RESUME: EmergencyStep[] = HALT.map((step) =>
+  step.contract === "Token"
+    ? {
+        ...step,
+        method: "unpause",
+        authority: "MULTISIG_ROLE" as const,
+        value: false
+      }
+    : { ...step, args: [true], value: true }
+).reverse();
+
+export async function readEmergencyStatus(
+  contracts: Record<EmergencyContract, Contract>
+): Promise<EmergencyStatus> {
+  const [bridgeActive, depositsActive, withdrawalsActive, tokenPaused] =
+    await Promise.all([
+      contracts.Bridge.active(),
+      contracts.ERC20Peg.depositsActive(),
+      contracts.ERC20Peg.withdrawalsActive(),
+      contracts.Token.paused()
+    ]);
+  return { bridgeActive, depositsActive, withdrawalsActive, tokenPaused };
+}
+
+/**
+ * Steps still needed to halt/resume from `status`, in execution order - steps already in effect are left out
+ */
+export function planEmergency(
+  action: EmergencyAction,
+  status: EmergencyStatus
+): EmergencyStep[] {
+  return (action === "halt" ? HALT : RESUME).filter(
+    (step) => status[step.field] !== step.value
+  );
+}
+
+// The account a step must be sent from, or undefined when only unknown accounts hold the role
+async function authorityHolder(
+  contract: Contract,
+  step: EmergencyStep,
+  candidates: string[]
+): Promise<string | undefined> {
+  if (step.authority === "owner") return contract.owner();
+  for (const candidate of candidates) {
+    if (await contract.hasRole(ROLES[step.authority], candidate)) {
+      return utils.getAddress(candidate);
+    }
+  }
+  return undefined;
+}
+
+export interface EmergencyResult {
+  executed: { step: EmergencyStep; transactionHash: string }[];
+  // steps for a multisig (contract) authority to sign, keyed by its address
+  multisig: Record<string, EmergencyStep[]>;
+  // resume steps held back until earlier multisig steps are executed
+  deferred: EmergencyStep[];
+}
+
+/**
+ * Run `steps` with the signer holding each step's authority
+ * - steps whose authority is a contract (e.g. a Safe) are returned for it to sign instead
+ * - halting sends every step it can; resuming holds back the steps after the first multisig step,
+ *   so the Bridge is never reactivated before the Token is unpaused - re-run once the multisig has executed
+ * - throws if an authority is an EOA without a signer
+ * `roleHolders` are known Token role holders besides the signers, e.g. the `roles` of config/<network>.json
+ */
+export async function executeEmergencyPlan({
+  action,
+  contracts,
+  steps,
+  signers,
+  roleHolders = [],
+  provider,
+  log = console.log
+}: {
+  action: EmergencyAction;
+  contracts: Record<EmergencyContract, Contract>;
+  steps: EmergencyStep[];
+  signers: Signer[];
+  roleHolders?: string[];
+  provider: providers.Provider;
+  log?: (message: string) => void;
+}): Promise<EmergencyResult> {
+  const accounts = new Map<string, Signer>();
+  for (const signer of signers) {
+    accounts.set((await signer.getAddress()).toLowerCase(), signer);
+  }
+  const candidates = [
+    ...new Set([...accounts.keys(), ...roleHolders.map((a) => a.toLowerCase())])
+  ];
+
+  const result: EmergencyResult = { executed: [], multisig: {}, deferred: [] };
+  for (const step of steps) {
+    const call = `${step.contract}.${step.method}(${step.args.join(", ")})`;
+    if (action === "resume" && Object.keys(result.multisig).length > 0) {
+      log(`${call}: deferred until the multisig steps are executed`);
+      result.deferred.push(step);
+      continue;
+    }
+
+    const contract = contracts[step.contract];
+    const holder = await authorityHolder(contract, step, candidates);
+    if (!holder) {
+      throw new Error(
+        `No known ${step.authority} holder for ${call} - add it to the config roles`
+      );
+    }
+    const signer = accounts.get(holder.toLowerCase());
+    if (signer) {
+      const tx = await contract.connect(signer)[step.method](...step.args);
+      const receipt: ContractReceipt = await tx.wait();
+      log(`${call}: sent by ${holder} in ${receipt.transactionHash}`);
+      result.executed.push({ step, transactionHash: receipt.transactionHash });
+    } else if ((await provider.getCode(holder)) !== "0x") {
+      log(`${call}: ${step.authority} is held by multisig ${holder}`);
+      (result.multisig[holder] ??= []).push(step);
+    } else {
+      throw new Error(
+        `${call} needs ${step.authority} held by ${holder}, which is not a configured account`
+      );
+    }
+  }
+  return result;
+}
+
+/**
+ * Steps whose effect is not visible on-chain - executed steps only, multisig steps are still pending
+ */
+export function unconfirmedSteps(
+  result: EmergencyResult,
+  status: EmergencyStatus
+): EmergencyStep[] {
+  return result.executed
+    .map(({ step }) => step)
+    .filter((step) => status[step.field] !== step.value);
+}
@@ -0,0 +1,29 @@
+// Fields ethers v5 sets on its errors - `reason` for decoded reverts, `error` for the node's error it wraps
+interface EthersErrorFields {
+  code?: string;
+  reason?: string;
+  message?: string;
+  error?: unknown;
+}
+
+function errorFields(error: unknown): EthersErrorFields {
+  return typeof error === "object" && error !== null
+    ? (error as EthersErrorFields)
+    : {};
+}
+
+/**
+ * Human readable reason of a failed call or transaction - the revert reason where ethers decoded one
+ */
+export function errorReason(error: unknown): string {
+  const { reason, message, error: nested } = errorFields(error);
+  return reason ?? errorFields(nested).message ?? message ?? String(error);
+}
+
+/**
+ * ethers error code (e.g. `TIMEOUT`) of `error` or of the error it wraps
+ */
+export function errorCode(error: unknown): string | undefined {
+  const { code, error: nested } = errorFields(error);
+  return code ?? errorFields(nested).code;
+}
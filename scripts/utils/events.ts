@@ -0,0 +1,31 @@
+import { Contract, Event, EventFilter, providers } from "ethers";
+
+/**
+ * Number of the latest block, read from the node on every call
+ * ethers v5 `getBlockNumber()` never goes backwards, so after a reorg or a snapshot revert it is past the chain tip
+ */
+export async function getChainHead(
+  provider: providers.Provider
+): Promise<number> {
+  return (await provider.getBlock("latest")).number;
+}
+
+/**
+ * `queryFilter` over `fromBlock..toBlock` in ranges of at most `batchSize` blocks
+ * RPC providers cap the block range of a single `eth_getLogs` query
+ * Pass `"*"` for every event of the contract
+ */
+export async function queryInBatches(
+  contract: Contract,
+  filter: EventFilter | string,
+  fromBlock: number,
+  toBlock: number,
+  batchSize = 2_000
+): Promise<Event[]> {
+  const events: Event[] = [];
+  for (let from = fromBlock; from <= toBlock; from += batchSize) {
+    const to = Math.min(from + batchSize - 1, toBlock);
+    events.push(...(await contract.queryFilter(filter, from, to)));
+  }
+  return events;
+}
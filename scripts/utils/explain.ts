@@ -0,0 +1,436 @@
+import { BigNumber, constants, providers, utils } from "ethers";
+import { errorReason } from "./errors";
+import { DecodedEvent, decodeLogs, stringifyArg } from "./fork";
+import {
+  PegDepositPayload,
+  ValidatorSetPayload,
+  bridgeCodecRegistry
+} from "./codecs";
+import { roleName } from "./roles";
+
+// A contract the explainer can decode, e.g. the network's Bridge
+export interface KnownContract {
+  name: string;
+  // unset when only the ABI is known - its events are still decoded
+  address?: string;
+  interface: utils.Interface;
+}
+
+// The application message carried by SendMessage/MessageReceived
+export type NestedMessage =
+  | ({ kind: "peg" } & PegDepositPayload)
+  | ({ kind: "validators" } & ValidatorSetPayload);
+
+export interface ExplainedEvent extends DecodedEvent {
+  // contract name when the emitter is known
+  contract?: string;
+  message?: NestedMessage;
+}
+
+export interface DecodedRevert {
+  kind: "reason" | "panic" | "custom" | "empty" | "unknown";
+  // custom error name
+  name?: string;
+  message: string;
+}
+
+export interface TransactionExplanation {
+  hash: string;
+  from: string;
+  to?: string;
+  blockNumber?: number;
+  status: "success" | "reverted" | "pending";
+  // wei
+  value: string;
+  call?: { contract?: string; method: string; args: Record<string, string> };
+  events: ExplainedEvent[];
+  revert?: DecodedRevert;
+  summary: string[];
+}
+
+// Error(string) and Panic(uint256) selectors
+const ERROR_SELECTOR = "0x08c379a0";
+const PANIC_SELECTOR = "0x4e487b71";
+
+/**
+ * Decode revert data - `require` reasons, panics and the custom errors of `interfaces`
+ * e.g. "Bridge: eventId replayed" or Token's InvalidAddress()
+ */
+export function decodeRevert(
+  data: string,
+  interfaces: utils.Interface[]
+): DecodedRevert {
+  if (!data || data === "0x") {
+    return { kind: "empty", message: "reverted without a reason" };
+  }
+  const selector = data.slice(0, 10).toLowerCase();
+  try {
+    if (selector === ERROR_SELECTOR) {
+      const [reason] = utils.defaultAbiCoder.decode(
+        ["string"],
+        utils.hexDataSlice(data, 4)
+      );
+      return { kind: "reason", message: reason };
+    }
+    if (selector === PANIC_SELECTOR) {
+      const [code] = utils.defaultAbiCoder.decode(
+        ["uint256"],
+        utils.hexDataSlice(data, 4)
+      );
+      return { kind: "panic", message: `panic ${code.toHexString()}` };
+    }
+  } catch {
+    // malformed - reported as unknown below
+  }
+  for (const iface of interfaces) {
+    try {
+      const parsed = iface.parseError(data);
+      const args = parsed.errorFragment.inputs.map((input, i) =>
+        stringifyArg(parsed.args[input.name || i])
+      );
+      return {
+        kind: "custom",
+        name: parsed.name,
+        message: `${parsed.name}(${args.join(", ")})`
+      };
+    } catch {
+      // not this interface
+    }
+  }
+  return { kind: "unknown", message: `unknown error ${selector}` };
+}
+
+// Revert data from a JSON-RPC error - nodes nest it differently (Hardhat: error.data, geth: error.body)
+function revertData(error: unknown): string | undefined {
+  if (!error || typeof error !== "object") return undefined;
+  const {
+    data,
+    body,
+    error: nested
+  } = error as { data?: unknown; body?: unknown; error?: unknown };
+  if (typeof data === "string" && utils.isHexString(data)) return data;
+  if (typeof body === "string") {
+    try {
+      const found = revertData((JSON.parse(body) as { error?: unknown }).error);
+      if (found) return found;
+    } catch {
+      // not JSON
+    }
+  }
+  return revertData(data) ?? revertData(nested);
+}
+
+/**
+ * Nested peg or validator set message of a SendMessage/MessageReceived event, matched by its source and destination
+ */
+function decodeNestedMessage(
+  event: DecodedEvent,
+  codecs: ReturnType<typeof bridgeCodecRegistry>
+): NestedMessage | undefined {
+  const { source, message } = event.args;
+  try {
+    const decoded = codecs.decode(
+      source,
+      event.args.destination ?? event.args.destinate,
+      message
+    );
+    if (decoded?.app === "Bridge") {
+      return { kind: "validators", ...decoded.payload };
+    }
+    return decoded && { kind: "peg", ...decoded.payload };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Fetch a transaction and decode its call, events (including nested bridge messages) and revert reason
+ * The revert reason of a failed transaction is recovered by replaying it at the end of its block
+ * (against later state, so a competing relayer's proof shows as "Bridge: eventId replayed")
+ */
+export async function explainTransaction(
+  provider: providers.JsonRpcProvider,
+  hash: string,
+  contracts: KnownContract[]
+): Promise<TransactionExplanation> {
+  const tx = await provider.getTransaction(hash);
+  if (!tx) throw new Error(`Transaction ${hash} not found`);
+  const receipt = await provider.getTransactionReceipt(hash);
+
+  const names = new Map<string, string>();
+  for (const contract of contracts) {
+    if (contract.address) {
+      names.set(utils.getAddress(contract.address), contract.name);
+    }
+  }
+  const interfaces = contracts.map((c) => c.interface);
+  const addressOf = (name: string) =>
+    contracts.find((c) => c.name === name)?.address;
+  const peg = addressOf("ERC20Peg");
+  const codecs = bridgeCodecRegistry({
+    bridge: addressOf("Bridge"),
+    pegs: peg ? [peg] : []
+  });
+  const target = tx.to
+    ? contracts.find((c) => c.address && utils.getAddress(c.address) === tx.to)
+    : undefined;
+
+  const explanation: TransactionExplanation = {
+    hash,
+    from: tx.from,
+    to: tx.to,
+    blockNumber: receipt?.blockNumber,
+    status: !receipt
+      ? "pending"
+      : receipt.status === 0
+      ? "reverted"
+      : "success",
+    value: tx.value.toString(),
+    events: [],
+    summary: []
+  };
+
+  for (const iface of target ? [target.interface] : interfaces) {
+    try {
+      const parsed = iface.parseTransaction({ data: tx.data, value: tx.value });
+      const args: Record<string, string> = {};
+      parsed.functionFragment.inputs.forEach((input, i) => {
+        args[input.name || `${i}`] = stringifyArg(parsed.args[i]);
+      });
+      explanation.call = { contract: target?.name, method: parsed.name, args };
+      break;
+    } catch {
+      // not this interface
+    }
+  }
+
+  if (receipt) {
+    explanation.events = decodeLogs(receipt.logs, interfaces).map((event) => {
+      const explained: ExplainedEvent = {
+        ...event,
+        contract: names.get(event.address)
+      };
+      if (event.name === "SendMessage" || event.name === "MessageReceived") {
+        explained.message = decodeNestedMessage(event, codecs);
+      }
+      return explained;
+    });
+  }
+
+  if (explanation.status === "reverted") {
+    try {
+      await provider.send("eth_call", [
+        {
+          from: tx.from,
+          to: tx.to,
+          data: tx.data,
+          value: utils.hexValue(tx.value),
+          gas: utils.hexValue(tx.gasLimit)
+        },
+        utils.hexValue(receipt.blockNumber)
+      ]);
+      explanation.revert = {
+        kind: "unknown",
+        message: "the replay did not revert, the state it depended on changed"
+      };
+    } catch (error) {
+      const data = revertData(error);
+      explanation.revert = data
+        ? decodeRevert(data, interfaces)
+        : { kind: "unknown", message: errorReason(error) };
+    }
+  }
+
+  explanation.summary = summarize(explanation, names);
+  return explanation;
+}
+
+function summarize(
+  explanation: TransactionExplanation,
+  names: Map<string, string>
+): string[] {
+  const label = (address: string) =>
+    names.get(utils.getAddress(address)) ?? address;
+  // ETH and the Token have 18 decimals, other tokens are shown in base units
+  const amount = (token: string, value: string) => {
+    if (token === constants.AddressZero) {
+      return `${utils.formatEther(value)} ETH`;
+    }
+    return names.get(utils.getAddress(token)) === "Token"
+      ? `${utils.formatEther(value)} Token`
+      : `${value} base units of ${token}`;
+  };
+  const describeMessage = (message?: NestedMessage) => {
+    if (message?.kind === "peg") {
+      return ` carrying ${amount(message.tokenAddress, message.amount)} for ${
+        message.destination
+      }`;
+    }
+    if (message?.kind === "validators") {
+      return ` carrying validator set #${message.validatorSetId} (${message.validators.length} validators)`;
+    }
+    return "";
+  };
+
+  const lines: string[] = [];
+  const { call } = explanation;
+  const value = BigNumber.from(explanation.value);
+  const target = explanation.to ? label(explanation.to) : "contract creation";
+  lines.push(
+    `${label(explanation.from)} called ${
+      call ? `${call.contract ?? target}.${call.method}` : target
+    }${value.isZero() ? "" : ` with ${utils.formatEther(value)} ETH`}`
+  );
+
+  for (const event of explanation.events) {
+    const a = event.args;
+    const emitter = event.contract ?? event.address;
+    switch (event.name) {
+      case "Deposit":
+        lines.push(
+          `${label(a._address)} deposited ${amount(
+            a.tokenAddress,
+            a.amount
+          )} for ${a.destination} on Root`
+        );
+        break;
+      case "Withdraw":
+        lines.push(
+          `${emitter} paid ${amount(a.tokenAddress, a.amount)} to ${label(
+            a._address
+          )}`
+        );
+        break;
+      case "AdminWithdraw":
+        lines.push(
+          `${emitter} owner withdrew ${amount(
+            a.tokenAddress,
+            a.amount
+          )} to ${label(a._address)}`
+        );
+        break;
+      case "SendMessage":
+        lines.push(
+          `Bridge message #${a.messageId} sent from ${label(
+            a.source
+          )} to ${label(a.destination)} with a ${utils.formatEther(
+            a.fee
+          )} ETH fee${describeMessage(event.message)}`
+        );
+        break;
+      case "MessageReceived":
+        lines.push(
+          `Bridge event #${a.eventId} from ${label(
+            a.source
+          )} verified and delivered to ${label(a.destinate)}${describeMessage(
+            event.message
+          )}`
+        );
+        break;
+      case "SetValidators":
+        lines.push(
+          `Validator set #${a.validatorSetId} activated, ${utils.formatEther(
+            a.reward
+          )} ETH relayer reward`
+        );
+        break;
+      case "RoleGranted":
+        lines.push(
+          `${label(a.sender)} granted ${roleName(a.role)} to ${label(
+            a.account
+          )} on ${emitter}`
+        );
+        break;
+      case "RoleRevoked":
+        lines.push(
+          `${label(a.sender)} revoked ${roleName(a.role)} from ${label(
+            a.account
+          )} on ${emitter}`
+        );
+        break;
+      case "Transfer":
+        if (a.from === constants.AddressZero) {
+          lines.push(
+            `${amount(event.address, a.value)} minted to ${label(a.to)}`
+          );
+        } else if (a.to === constants.AddressZero) {
+          lines.push(
+            `${amount(event.address, a.value)} burned from ${label(a.from)}`
+          );
+        } else {
+          lines.push(
+            `${amount(event.address, a.value)} transferred from ${label(
+              a.from
+            )} to ${label(a.to)}`
+          );
+        }
+        break;
+      case "OwnershipTransferred":
+        lines.push(
+          `${emitter} ownership transferred from ${label(
+            a.previousOwner
+          )} to ${label(a.newOwner)}`
+        );
+        break;
+      case "Endowed":
+        lines.push(
+          `${emitter} endowed with ${utils.formatEther(a.amount)} ETH`
+        );
+        break;
+      case "unknown":
+        lines.push(`${emitter} emitted an unrecognised log`);
+        break;
+      default:
+        lines.push(
+          `${emitter} emitted ${event.name}(${Object.entries(a)
+            .map(([key, v]) => `${key}=${v}`)
+            .join(", ")})`
+        );
+    }
+  }
+
+  if (explanation.status === "reverted") {
+    lines.push(`Reverted: ${explanation.revert?.message ?? "unknown reason"}`);
+  } else if (explanation.status === "pending") {
+    lines.push("Not mined yet");
+  }
+  return lines;
+}
+
+/**
+ * Human readable explanation - decoded call, events and the narrative summary
+ */
+export function formatExplanation(explanation: TransactionExplanation): string {
+  const lines = [
+    `Transaction ${explanation.hash} (${explanation.status}${
+      explanation.blockNumber !== undefined
+        ? `, block ${explanation.blockNumber}`
+        : ""
+    })`
+  ];
+  if (explanation.call) {
+    lines.push(
+      `Call: ${explanation.call.method} ${JSON.stringify(
+        explanation.call.args
+      )}`
+    );
+  }
+  if (explanation.events.length > 0) lines.push("Events:");
+  for (const event of explanation.events) {
+    lines.push(
+      `  ${event.name} @ ${event.contract ?? event.address} ${JSON.stringify(
+        event.args
+      )}`
+    );
+    if (event.message) {
+      lines.push(`    message: ${JSON.stringify(event.message)}`);
+    }
+  }
+  if (explanation.revert) {
+    lines.push(
+      `Revert (${explanation.revert.kind}): ${explanation.revert.message}`
+    );
+  }
+  lines.push("Summary:", ...explanation.summary.map((line) => `  ${line}`));
+  return lines.join("\n");
+}
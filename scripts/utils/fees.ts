@@ -0,0 +1,219 @@
+import { BigNumber, BigNumberish, Contract, utils } from "ethers";
+import { ERC20_ABI, ETH_RESERVED_TOKEN_ADDRESS, isEth } from "./deposit";
+import { EventProof, acceptanceThreshold } from "./proof";
+import { ReceivedMessage } from "./verifier";
+
+// Storage slot of the internal `Bridge._sendMessageFee` - the fee `sendMessage` actually enforces
+// Layout: Ownable._owner (0), ReentrancyGuard._status (1), then Bridge's state variables in declaration order
+export const SEND_MESSAGE_FEE_SLOT = 13;
+
+export interface GasQuote {
+  gasLimit: BigNumber;
+  // maxFeePerGas on EIP-1559 networks, i.e. a worst case
+  gasPrice: BigNumber;
+  cost: BigNumber;
+}
+
+/**
+ * Itemized cost of an `ERC20Peg.deposit`
+ */
+export interface DepositQuote {
+  tokenAddress: string;
+  // base units of the token
+  amount: BigNumber;
+  // forwarded by the peg to `Bridge.sendMessage`
+  messageFee: BigNumber;
+  // msg.value: amount + fee for Eth, fee only for ERC20s
+  value: BigNumber;
+  // the ERC20 allowance does not cover `amount` - an `approve` is needed first
+  approvalRequired: boolean;
+  // undefined without a `from` account or while an approval is required (the deposit cannot be estimated yet)
+  gas?: GasQuote;
+  // ETH leaving the depositor's wallet: value + gas cost when estimated
+  totalCost: BigNumber;
+}
+
+/**
+ * Itemized cost of relaying a proof with `Bridge.receiveMessage`
+ */
+export interface RelayQuote {
+  // bridgeFee - not charged for messages to the bridge itself (validator set changes)
+  verificationFee: BigNumber;
+  thresholdPercent: BigNumber;
+  validators: number;
+  signatures: number;
+  signaturesRequired: number;
+  // signatures `_verifyMessage` recovers before reaching the threshold - the main gas driver
+  signaturesChecked: number;
+  // undefined without a `from` account
+  gas?: GasQuote;
+  totalCost: BigNumber;
+}
+
+/**
+ * The internal `_sendMessageFee` set by `setSendMessageFee` - it has no getter, so it is read from storage
+ */
+export async function enforcedSendMessageFee(
+  bridge: Contract
+): Promise<BigNumber> {
+  return BigNumber.from(
+    await bridge.provider.getStorageAt(bridge.address, SEND_MESSAGE_FEE_SLOT)
+  );
+}
+
+/**
+ * Message fee a deposit must carry
+ * The peg checks `msg.value` against `sendMessageFee()` while the bridge enforces the internal
+ * `_sendMessageFee`, so the larger of the two is required
+ */
+export async function depositMessageFee(bridge: Contract): Promise<BigNumber> {
+  const [advertised, enforced] = await Promise.all([
+    bridge.sendMessageFee() as Promise<BigNumber>,
+    enforcedSendMessageFee(bridge)
+  ]);
+  return enforced.gt(advertised) ? enforced : advertised;
+}
+
+// Estimate a call sent by `from` - through the provider, as a contract attached to a signer refuses a `from` override
+async function quoteGas(
+  contract: Contract,
+  from: string,
+  method: string,
+  args: unknown[],
+  value: BigNumber,
+  gasPrice?: BigNumberish
+): Promise<GasQuote> {
+  const gasLimit = await contract
+    .connect(contract.provider)
+    .estimateGas[method](...args, { from, value });
+  let price = gasPrice === undefined ? undefined : BigNumber.from(gasPrice);
+  if (!price) {
+    const feeData = await contract.provider.getFeeData();
+    price = feeData.maxFeePerGas ?? feeData.gasPrice ?? BigNumber.from(0);
+  }
+  return { gasLimit, gasPrice: price, cost: gasLimit.mul(price) };
+}
+
+/**
+ * Quote a deposit of `amount` (base units) of `token` (address or "ETH") against the live peg/bridge state
+ * Gas is estimated when `from` is given - pass `gasPrice` to override the network fee data
+ */
+export async function quoteDeposit({
+  peg,
+  bridge,
+  token,
+  amount,
+  destination,
+  from,
+  gasPrice
+}: {
+  peg: Contract;
+  bridge: Contract;
+  token: string;
+  amount: BigNumberish;
+  destination: string;
+  from?: string;
+  gasPrice?: BigNumberish;
+}): Promise<DepositQuote> {
+  if (!(await peg.depositsActive())) {
+    throw new Error("ERC20Peg: deposits paused");
+  }
+  const eth = isEth(token);
+  const tokenAddress = eth
+    ? ETH_RESERVED_TOKEN_ADDRESS
+    : utils.getAddress(token);
+  const base = BigNumber.from(amount);
+  const messageFee = await depositMessageFee(bridge);
+  const value = eth ? base.add(messageFee) : messageFee;
+
+  let approvalRequired = false;
+  if (!eth && from) {
+    const erc20 = new Contract(tokenAddress, ERC20_ABI, peg.provider);
+    const allowance: BigNumber = await erc20.allowance(from, peg.address);
+    approvalRequired = allowance.lt(base);
+  }
+
+  const gas =
+    from && !approvalRequired
+      ? await quoteGas(
+          peg,
+          from,
+          "deposit",
+          [tokenAddress, base, destination],
+          value,
+          gasPrice
+        )
+      : undefined;
+
+  return {
+    tokenAddress,
+    amount: base,
+    messageFee,
+    value,
+    approvalRequired,
+    gas,
+    totalCost: gas ? value.add(gas.cost) : value
+  };
+}
+
+/**
+ * Quote relaying `proof` for `message` against the live bridge state
+ * Gas is estimated when `from` is given - the estimate reverts (and throws) if the bridge would reject the proof
+ */
+export async function quoteRelay({
+  bridge,
+  message,
+  proof,
+  from,
+  gasPrice
+}: {
+  bridge: Contract;
+  message: ReceivedMessage;
+  proof: EventProof;
+  from?: string;
+  gasPrice?: BigNumberish;
+}): Promise<RelayQuote> {
+  const [bridgeFee, thresholdPercent] = await Promise.all([
+    bridge.bridgeFee() as Promise<BigNumber>,
+    bridge.thresholdPercent() as Promise<BigNumber>
+  ]);
+  const toBridge =
+    utils.getAddress(message.destination) === utils.getAddress(bridge.address);
+  const verificationFee = toBridge ? BigNumber.from(0) : bridgeFee;
+
+  const signatures = proof.r.filter(
+    (r) => r !== undefined && !BigNumber.from(r).isZero()
+  ).length;
+  const signaturesRequired = acceptanceThreshold(
+    proof.validators.length,
+    thresholdPercent
+  );
+  // the loop in `_verifyMessage` checks a signature before comparing against the threshold,
+  // so even a zero threshold costs one recovery
+  const signaturesChecked =
+    signatures === 0
+      ? 0
+      : Math.min(signatures, Math.max(signaturesRequired, 1));
+
+  const gas = from
+    ? await quoteGas(
+        bridge,
+        from,
+        "receiveMessage",
+        [message.source, message.destination, message.appMessage, proof],
+        verificationFee,
+        gasPrice
+      )
+    : undefined;
+
+  return {
+    verificationFee,
+    thresholdPercent,
+    validators: proof.validators.length,
+    signatures,
+    signaturesRequired,
+    signaturesChecked,
+    gas,
+    totalCost: gas ? verificationFee.add(gas.cost) : verificationFee
+  };
+}
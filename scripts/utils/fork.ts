@@ -0,0 +1,74 @@
+import { BigNumber, providers, utils } from "ethers";
+
+// A log decoded with one of the known contract interfaces
+export interface DecodedEvent {
+  address: string;
+  // event name, or "unknown" for logs no interface could decode
+  name: string;
+  args: Record<string, string>;
+}
+
+/**
+ * Reset the Hardhat network to a fork of `jsonRpcUrl`, at `blockNumber` or the latest block
+ * `provider` must be connected to the in-process Hardhat network
+ */
+export async function forkNetwork(
+  provider: providers.JsonRpcProvider,
+  jsonRpcUrl: string,
+  blockNumber?: number
+) {
+  await provider.send("hardhat_reset", [
+    { forking: { jsonRpcUrl, blockNumber } }
+  ]);
+}
+
+/**
+ * Signer for any account (e.g. a Safe or a role holder) on a Hardhat network, funded for gas
+ */
+export async function impersonate(
+  provider: providers.JsonRpcProvider,
+  address: string,
+  balance = utils.parseEther("10")
+): Promise<providers.JsonRpcSigner> {
+  await provider.send("hardhat_impersonateAccount", [address]);
+  const current = await provider.getBalance(address);
+  if (current.lt(balance)) {
+    await provider.send("hardhat_setBalance", [
+      address,
+      utils.hexStripZeros(BigNumber.from(balance).toHexString())
+    ]);
+  }
+  return provider.getSigner(address);
+}
+
+// Event/call argument as a string - numbers in base units, arrays as JSON
+export const stringifyArg = (value: unknown): string =>
+  BigNumber.isBigNumber(value)
+    ? value.toString()
+    : Array.isArray(value)
+    ? JSON.stringify(value.map(stringifyArg))
+    : String(value);
+
+/**
+ * Decode logs with the first interface that knows the event - named args only, values as strings
+ */
+export function decodeLogs(
+  logs: providers.Log[],
+  interfaces: utils.Interface[]
+): DecodedEvent[] {
+  return logs.map((log) => {
+    for (const iface of interfaces) {
+      try {
+        const parsed = iface.parseLog(log);
+        const args: Record<string, string> = {};
+        parsed.eventFragment.inputs.forEach((input, i) => {
+          args[input.name || `${i}`] = stringifyArg(parsed.args[i]);
+        });
+        return { address: log.address, name: parsed.name, args };
+      } catch {
+        // not this interface
+      }
+    }
+    return { address: log.address, name: "unknown", args: {} };
+  });
+}
@@ -0,0 +1,229 @@
+import { BigNumber, Contract, utils } from "ethers";
+import { PegDepositPayload, decodePayload, pegDepositCodec } from "./codecs";
+import { getChainHead } from "./events";
+import { readJsonFile, writeJsonFile } from "./jsonStore";
+
+// A `SendMessage` event - uint256 values as decimal strings so the store is plain JSON
+export interface IndexedMessage {
+  messageId: string;
+  source: string;
+  destination: string;
+  message: string;
+  fee: string;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+  // set when `source` is a known ERC20Peg
+  deposit?: PegDepositPayload;
+}
+
+export interface MessageIndex {
+  bridge: string;
+  // last block indexed - always at least `confirmations` behind the head when it was indexed
+  lastIndexedBlock: number;
+  lastIndexedHash?: string;
+  // keyed by messageId
+  messages: Record<string, IndexedMessage>;
+}
+
+export interface IndexerOptions {
+  bridge: Contract;
+  storePath: string;
+  // blocks behind the head before an event is considered final
+  confirmations?: number;
+  // first block to index on an empty store (e.g. the Bridge deployment block)
+  startBlock?: number;
+  // ERC20Peg contracts whose payloads are decoded
+  pegAddresses?: string[];
+  // max block range per `eth_getLogs` query
+  batchSize?: number;
+  log?: (message: string) => void;
+}
+
+export interface SyncResult {
+  fromBlock: number;
+  toBlock: number;
+  added: number;
+  // blocks rolled back after a reorg deeper than `confirmations`
+  rolledBack: number;
+}
+
+export interface MessageQuery {
+  source?: string;
+  destination?: string;
+  tokenAddress?: string;
+  depositDestination?: string;
+  fromBlock?: number;
+  toBlock?: number;
+}
+
+// undefined when the payload is not a peg deposit
+function decodeDeposit(message: string): PegDepositPayload | undefined {
+  try {
+    return decodePayload(pegDepositCodec, message);
+  } catch {
+    return undefined;
+  }
+}
+
+export function loadMessageIndex(
+  path: string,
+  bridge: string,
+  startBlock = 0
+): MessageIndex {
+  const index = readJsonFile<MessageIndex>(path, {
+    bridge,
+    lastIndexedBlock: startBlock - 1,
+    messages: {}
+  });
+  if (index.bridge.toLowerCase() !== bridge.toLowerCase()) {
+    throw new Error(
+      `Message index ${path} belongs to bridge ${index.bridge}, not ${bridge}`
+    );
+  }
+  return index;
+}
+
+// Drop everything indexed above `block`
+function rollback(index: MessageIndex, block: number) {
+  for (const [id, message] of Object.entries(index.messages)) {
+    if (message.blockNumber > block) delete index.messages[id];
+  }
+  index.lastIndexedBlock = block;
+  index.lastIndexedHash = undefined;
+}
+
+/**
+ * Index `SendMessage` events up to `head - confirmations` into the JSON store
+ * If the last indexed block is no longer canonical, the last `confirmations` blocks are dropped and re-indexed
+ */
+export async function syncMessages({
+  bridge,
+  storePath,
+  confirmations = 12,
+  startBlock = 0,
+  pegAddresses = [],
+  batchSize = 2_000,
+  log = console.log
+}: IndexerOptions): Promise<SyncResult> {
+  const index = loadMessageIndex(storePath, bridge.address, startBlock);
+  const provider = bridge.provider;
+  // matched by source only - anyone can send a message to the peg or its pallet
+  const pegs = pegAddresses.map((address) => address.toLowerCase());
+
+  let rolledBack = 0;
+  if (index.lastIndexedHash !== undefined) {
+    const block = await provider.getBlock(index.lastIndexedBlock);
+    if (block?.hash !== index.lastIndexedHash) {
+      const to = Math.max(
+        index.lastIndexedBlock - confirmations,
+        startBlock - 1
+      );
+      rolledBack = index.lastIndexedBlock - to;
+      log(
+        `Block ${index.lastIndexedBlock} was reorged, re-indexing from ${
+          to + 1
+        }`
+      );
+      rollback(index, to);
+    }
+  }
+
+  const safeHead = (await getChainHead(provider)) - confirmations;
+  const fromBlock = index.lastIndexedBlock + 1;
+  let added = 0;
+
+  for (let from = fromBlock; from <= safeHead; from += batchSize) {
+    const to = Math.min(from + batchSize - 1, safeHead);
+    const events = await bridge.queryFilter(
+      bridge.filters.SendMessage(),
+      from,
+      to
+    );
+
+    for (const event of events) {
+      const { messageId, source, destination, message, fee } = event.args!;
+      const id = BigNumber.from(messageId).toString();
+      index.messages[id] = {
+        messageId: id,
+        source,
+        destination,
+        message,
+        fee: fee.toString(),
+        blockNumber: event.blockNumber,
+        blockHash: event.blockHash,
+        transactionHash: event.transactionHash,
+        logIndex: event.logIndex,
+        deposit: pegs.includes(source.toLowerCase())
+          ? decodeDeposit(message)
+          : undefined
+      };
+      added += 1;
+    }
+
+    const block = await provider.getBlock(to);
+    if (!block) {
+      throw new Error(
+        `Block ${to} is gone - the chain was reorged, sync again`
+      );
+    }
+    index.lastIndexedBlock = to;
+    index.lastIndexedHash = block.hash;
+    writeJsonFile(storePath, index);
+    log(`Indexed blocks ${from}-${to}: ${events.length} messages`);
+  }
+
+  writeJsonFile(storePath, index);
+
+  return {
+    fromBlock,
+    toBlock: Math.max(safeHead, fromBlock - 1),
+    added,
+    rolledBack
+  };
+}
+
+const sameAddress = (a: string | undefined, b: string) =>
+  a === undefined || a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Filter indexed messages, ordered by messageId
+ */
+export function queryMessages(
+  index: MessageIndex,
+  query: MessageQuery = {}
+): IndexedMessage[] {
+  return Object.values(index.messages)
+    .filter(
+      (m) =>
+        sameAddress(query.source, m.source) &&
+        sameAddress(query.destination, m.destination) &&
+        (query.tokenAddress === undefined ||
+          (m.deposit &&
+            sameAddress(query.tokenAddress, m.deposit.tokenAddress))) &&
+        (query.depositDestination === undefined ||
+          (m.deposit &&
+            sameAddress(query.depositDestination, m.deposit.destination))) &&
+        (query.fromBlock === undefined || m.blockNumber >= query.fromBlock) &&
+        (query.toBlock === undefined || m.blockNumber <= query.toBlock)
+    )
+    .sort((a, b) => (BigNumber.from(a.messageId).lt(b.messageId) ? -1 : 1));
+}
+
+/**
+ * Flatten messages into rows for CSV/spreadsheet export
+ */
+export function toRows(messages: IndexedMessage[]) {
+  return messages.map((m) => ({
+    messageId: m.messageId,
+    blockNumber: m.blockNumber,
+    transactionHash: m.transactionHash,
+    source: m.source,
+    destination: m.destination,
+    fee: utils.formatEther(m.fee),
+    tokenAddress: m.deposit?.tokenAddress ?? "",
+    amount: m.deposit?.amount ?? "",
+    depositDestination: m.deposit?.destination ?? ""
+  }));
+}
@@ -0,0 +1,135 @@
+import { BigNumber, Contract, utils } from "ethers";
+import { readJsonFile } from "./jsonStore";
+import { ROLES, RoleName } from "./roles";
+
+// Token.sol TOTAL_SUPPLY - minted to the peg by `Token.init`
+export const TOTAL_SUPPLY = utils.parseEther("1000000000");
+
+/**
+ * Expected wiring of a network deployment - config/<network>.json
+ * Contract addresses are optional, they default to the usual address resolution (env, then deployment manifest)
+ */
+export interface DeploymentConfig {
+  bridge?: string;
+  peg?: string;
+  token?: string;
+  // Bridge.palletAddress - the Root bridge pallet
+  bridgePalletAddress: string;
+  // ERC20Peg.palletAddress - the Root ERC20 peg pallet
+  pegPalletAddress: string;
+  // owner of the Bridge and ERC20Peg
+  owner?: string;
+  // Token role holders, by Roles.sol name
+  roles: Partial<Record<RoleName, string[]>>;
+}
+
+export interface InvariantResult {
+  name: string;
+  expected: string;
+  actual: string;
+  pass: boolean;
+}
+
+export const deploymentConfigPath = (network: string) =>
+  `config/${network}.json`;
+
+export function loadDeploymentConfig(path: string): DeploymentConfig {
+  const config = readJsonFile<DeploymentConfig | undefined>(path, undefined);
+  if (!config) throw new Error(`Missing deployment config ${path}`);
+  for (const role of Object.keys(config.roles ?? {})) {
+    if (!(role in ROLES)) {
+      throw new Error(
+        `Unknown role ${role} in ${path}, see contracts/Roles.sol`
+      );
+    }
+  }
+  return config;
+}
+
+const sameAddress = (a: string, b: string) =>
+  a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Check the Token/ERC20Peg/Bridge wiring against `config`
+ * Every invariant is evaluated - a failure does not stop the remaining checks
+ */
+export async function checkDeployment(
+  contracts: { bridge: Contract; peg: Contract; token: Contract },
+  config: DeploymentConfig
+): Promise<InvariantResult[]> {
+  const { bridge, peg, token } = contracts;
+  const results: InvariantResult[] = [];
+
+  const expectAddress = (name: string, expected: string, actual: string) =>
+    results.push({
+      name,
+      expected,
+      actual,
+      pass: sameAddress(expected, actual)
+    });
+  const expectAmount = (name: string, expected: BigNumber, actual: BigNumber) =>
+    results.push({
+      name,
+      expected: utils.formatEther(expected),
+      actual: utils.formatEther(actual),
+      pass: actual.eq(expected)
+    });
+
+  expectAddress("Token.peg", peg.address, await token.peg());
+  expectAddress("ERC20Peg.bridge", bridge.address, await peg.bridge());
+  expectAddress(
+    "Bridge.palletAddress",
+    config.bridgePalletAddress,
+    await bridge.palletAddress()
+  );
+  expectAddress(
+    "ERC20Peg.palletAddress",
+    config.pegPalletAddress,
+    await peg.palletAddress()
+  );
+  expectAmount("Token.totalSupply", TOTAL_SUPPLY, await token.totalSupply());
+  expectAmount("Token.cap", TOTAL_SUPPLY, await token.cap());
+
+  if (config.owner) {
+    expectAddress("Bridge.owner", config.owner, await bridge.owner());
+    expectAddress("ERC20Peg.owner", config.owner, await peg.owner());
+  }
+
+  for (const [role, holders] of Object.entries(config.roles)) {
+    for (const holder of holders ?? []) {
+      const granted: boolean = await token.hasRole(
+        ROLES[role as RoleName],
+        holder
+      );
+      results.push({
+        name: `Token ${role}`,
+        expected: holder,
+        actual: granted ? "granted" : "not granted",
+        pass: granted
+      });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Render results as a fixed width PASS/FAIL table
+ */
+export function formatInvariantTable(results: InvariantResult[]): string {
+  const rows = [
+    ["", "Invariant", "Expected", "Actual"],
+    ...results.map((r) => [
+      r.pass ? "PASS" : "FAIL",
+      r.name,
+      r.expected,
+      r.actual
+    ])
+  ];
+  const widths = rows[0].map((_, i) =>
+    Math.max(...rows.map((row) => row[i].length))
+  );
+  return rows
+    .map((row) => row.map((cell, i) => cell.padEnd(widths[i])).join("  "))
+    .join("\n");
+}
@@ -0,0 +1,26 @@
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  writeFileSync
+} from "fs";
+import { dirname } from "path";
+
+/**
+ * Read a JSON file, returning `fallback` when it does not exist yet
+ */
+export function readJsonFile<T>(path: string, fallback: T): T {
+  if (!existsSync(path)) return fallback;
+  return JSON.parse(readFileSync(path, "utf8")) as T;
+}
+
+/**
+ * Write `data` as JSON - written to a temporary file first so an interrupted write never leaves a truncated file
+ */
+export function writeJsonFile(path: string, data: unknown) {
+  mkdirSync(dirname(path), { recursive: true });
+  const tmp = `${path}.tmp`;
+  writeFileSync(tmp, JSON.stringify(data, null, 2) + "\n");
+  renameSync(tmp, path);
+}
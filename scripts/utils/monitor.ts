@@ -0,0 +1,299 @@
+import { BigNumber, Contract, providers, utils } from "ethers";
+import { appendFileSync, mkdirSync } from "fs";
+import { dirname } from "path";
+import { getChainHead, queryInBatches } from "./events";
+import { decodeLogs } from "./fork";
+import { readJsonFile, writeJsonFile } from "./jsonStore";
+
+export type MonitoredContract = "Bridge" | "ERC20Peg" | "Token";
+
+export type Severity = "info" | "warning" | "critical";
+
+// Conditions on a decoded event arg - amounts in base units
+export interface Condition {
+  equals?: string | number | boolean;
+  above?: string | number;
+  below?: string | number;
+}
+
+export interface AlertRule {
+  name: string;
+  contract: MonitoredContract;
+  event: string;
+  severity?: Severity;
+  description?: string;
+  // every condition must hold, keyed by event arg name
+  where?: Record<string, Condition>;
+}
+
+export interface Alert {
+  rule: string;
+  severity: Severity;
+  contract: MonitoredContract;
+  address: string;
+  event: string;
+  args: Record<string, string>;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+  message: string;
+}
+
+/**
+ * Where alerts are delivered
+ */
+export interface AlertSink {
+  send(alert: Alert): Promise<void>;
+}
+
+/**
+ * Alerts printed as one line each
+ */
+export class StdoutSink implements AlertSink {
+  constructor(private readonly log: (message: string) => void = console.log) {}
+
+  async send(alert: Alert) {
+    this.log(alert.message);
+  }
+}
+
+/**
+ * Alerts appended to a JSON lines file
+ */
+export class FileSink implements AlertSink {
+  constructor(private readonly path: string) {}
+
+  async send(alert: Alert) {
+    mkdirSync(dirname(this.path), { recursive: true });
+    appendFileSync(this.path, JSON.stringify(alert) + "\n");
+  }
+}
+
+/**
+ * Alerts POSTed as JSON - `text` carries the one-line message for chat webhooks
+ */
+export class WebhookSink implements AlertSink {
+  constructor(private readonly url: string) {}
+
+  async send(alert: Alert) {
+    await utils.fetchJson(
+      { url: this.url, headers: { "content-type": "application/json" } },
+      JSON.stringify({ text: alert.message, alert })
+    );
+  }
+}
+
+export function loadMonitorRules(path: string): AlertRule[] {
+  const config = readJsonFile<{ rules: AlertRule[] } | undefined>(
+    path,
+    undefined
+  );
+  if (!config) throw new Error(`Missing monitor rules ${path}`);
+  return config.rules;
+}
+
+/**
+ * Check every rule names a contract, one of its events and that event's args
+ * `above`/`below` only apply to integer args
+ */
+export function validateRules(
+  rules: AlertRule[],
+  contracts: Partial<Record<MonitoredContract, Contract>>
+) {
+  for (const rule of rules) {
+    const contract = contracts[rule.contract];
+    if (!contract) {
+      throw new Error(`Rule ${rule.name}: unknown contract ${rule.contract}`);
+    }
+    let inputs: utils.ParamType[];
+    try {
+      inputs = contract.interface.getEvent(rule.event).inputs;
+    } catch {
+      throw new Error(
+        `Rule ${rule.name}: ${rule.contract} has no event ${rule.event}`
+      );
+    }
+    for (const [arg, condition] of Object.entries(rule.where ?? {})) {
+      const input = inputs.find((i) => i.name === arg);
+      if (!input) {
+        throw new Error(`Rule ${rule.name}: ${rule.event} has no arg ${arg}`);
+      }
+      const compares =
+        condition.above !== undefined || condition.below !== undefined;
+      if (compares && !/^u?int/.test(input.type)) {
+        throw new Error(
+          `Rule ${rule.name}: ${arg} is a ${input.type}, above/below need an integer`
+        );
+      }
+    }
+  }
+}
+
+function holds(value: string, condition: Condition): boolean {
+  if (
+    condition.equals !== undefined &&
+    value.toLowerCase() !== String(condition.equals).toLowerCase()
+  ) {
+    return false;
+  }
+  if (
+    condition.above !== undefined &&
+    !BigNumber.from(value).gt(condition.above)
+  ) {
+    return false;
+  }
+  if (
+    condition.below !== undefined &&
+    !BigNumber.from(value).lt(condition.below)
+  ) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Alerts raised by `logs` of `contract`, one per matching rule
+ */
+export function evaluateRules(
+  rules: AlertRule[],
+  contract: MonitoredContract,
+  logs: providers.Log[],
+  iface: utils.Interface
+): Alert[] {
+  const decoded = decodeLogs(logs, [iface]);
+  const alerts: Alert[] = [];
+  decoded.forEach((event, i) => {
+    const log = logs[i];
+    for (const rule of rules) {
+      if (rule.contract !== contract || rule.event !== event.name) continue;
+      const matched = Object.entries(rule.where ?? {}).every(
+        ([arg, condition]) => holds(event.args[arg], condition)
+      );
+      if (!matched) continue;
+
+      const severity = rule.severity ?? "warning";
+      const args = Object.entries(event.args)
+        .map(([name, value]) => `${name}=${value}`)
+        .join(", ");
+      alerts.push({
+        rule: rule.name,
+        severity,
+        contract,
+        address: log.address,
+        event: event.name,
+        args: event.args,
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+        logIndex: log.logIndex,
+        message: `[${severity}] ${rule.description ?? rule.name}: ${contract}.${
+          event.name
+        }(${args}) in block ${log.blockNumber} tx ${log.transactionHash}`
+      });
+    }
+  });
+  return alerts;
+}
+
+export interface MonitorState {
+  lastCheckedBlock: number;
+  // alerts of the range after lastCheckedBlock each sink already accepted, keyed by sink index
+  delivered?: Record<string, string[]>;
+}
+
+export interface MonitorOptions {
+  contracts: Partial<Record<MonitoredContract, Contract>>;
+  rules: AlertRule[];
+  sinks: AlertSink[];
+  // file persisting the last checked block between runs
+  statePath: string;
+  // blocks an event must be buried under before it is evaluated
+  confirmations?: number;
+  // first block on a fresh state, defaults to the current confirmed head (no history)
+  startBlock?: number;
+  batchSize?: number;
+  log?: (message: string) => void;
+}
+
+export interface PollResult {
+  fromBlock: number;
+  toBlock: number;
+  alerts: Alert[];
+}
+
+// identifies an alert across polls of the same range
+const alertKey = (alert: Alert) =>
+  `${alert.transactionHash}:${alert.logIndex}:${alert.rule}`;
+
+/**
+ * Evaluate the rules over the blocks confirmed since the last poll and deliver the alerts to every sink
+ * The state only advances once every sink accepted a range's alerts, so a failing sink gets them again on
+ * the next poll - delivery is at least once. Sinks which accepted an alert are not sent it again
+ */
+export async function pollAlerts({
+  contracts,
+  rules,
+  sinks,
+  statePath,
+  confirmations = 2,
+  startBlock,
+  batchSize = 2_000,
+  log = console.log
+}: MonitorOptions): Promise<PollResult> {
+  validateRules(rules, contracts);
+  const watched = [...new Set(rules.map((rule) => rule.contract))];
+  const provider = contracts[watched[0]]?.provider;
+  if (!provider) throw new Error("No rules to evaluate");
+
+  const safeHead = (await getChainHead(provider)) - confirmations;
+  const state = readJsonFile<MonitorState>(statePath, {
+    lastCheckedBlock: (startBlock ?? safeHead + 1) - 1
+  });
+  const fromBlock = state.lastCheckedBlock + 1;
+  const result: PollResult = {
+    fromBlock,
+    toBlock: Math.max(safeHead, fromBlock - 1),
+    alerts: []
+  };
+
+  for (let from = fromBlock; from <= safeHead; from += batchSize) {
+    const to = Math.min(from + batchSize - 1, safeHead);
+    const alerts: Alert[] = [];
+    for (const name of watched) {
+      const contract = contracts[name]!;
+      const events = await queryInBatches(contract, "*", from, to, batchSize);
+      alerts.push(...evaluateRules(rules, name, events, contract.interface));
+    }
+    alerts.sort(
+      (a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex
+    );
+
+    const delivered = (state.delivered ??= {});
+    for (const alert of alerts) {
+      const key = alertKey(alert);
+      const pending = sinks
+        .map((sink, i) => ({ sink, accepted: (delivered[i] ??= []) }))
+        .filter(({ accepted }) => !accepted.includes(key));
+      const results = await Promise.allSettled(
+        pending.map(({ sink }) => sink.send(alert))
+      );
+      results.forEach((outcome, i) => {
+        if (outcome.status === "fulfilled") pending[i].accepted.push(key);
+      });
+      writeJsonFile(statePath, state);
+      const failed = results.find(
+        (outcome): outcome is PromiseRejectedResult =>
+          outcome.status === "rejected"
+      );
+      if (failed) throw failed.reason;
+    }
+    result.alerts.push(...alerts);
+    state.lastCheckedBlock = to;
+    delete state.delivered;
+    writeJsonFile(statePath, state);
+    log(`Checked blocks ${from}-${to}: ${alerts.length} alerts`);
+  }
+
+  // record the starting point of a fresh state even when no block is confirmed yet
+  writeJsonFile(statePath, state);
+  return result;
+}
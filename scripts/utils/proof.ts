@@ -0,0 +1,128 @@
+import { BigNumber, BigNumberish, Wallet, constants, utils } from "ethers";
+
+// Mirror of the `EventProof` struct in contracts/IBridge.sol
+// v,r,s are sparse arrays aligned with `validators` i.e. v[i], r[i], s[i] is the signature of validators[i]
+export interface EventProof {
+  eventId: BigNumberish;
+  validatorSetId: number;
+  v: number[];
+  r: string[];
+  s: string[];
+  validators: string[];
+}
+
+export interface BridgeMessage {
+  source: string;
+  destination: string;
+  appMessage: utils.BytesLike;
+  validatorSetId: number;
+  eventId: BigNumberish;
+}
+
+export interface ThresholdPrediction {
+  // number of non-omitted signatures in the proof
+  signatures: number;
+  // `(validators.length * thresholdPercent) / 100` - as computed by `Bridge._verifyMessage`
+  required: number;
+  reached: boolean;
+}
+
+// Value of an omitted r/s slot - `_verifyMessage` skips any validator with `r == bytes32(0)`
+export const OMITTED_SIGNATURE = constants.HashZero;
+
+/**
+ * Encode the preimage verified by `Bridge.receiveMessage`
+ * i.e. `abi.encode(source, destination, appMessage, validatorSetId, eventId)`
+ */
+export function encodeProofPreimage({
+  source,
+  destination,
+  appMessage,
+  validatorSetId,
+  eventId
+}: BridgeMessage): string {
+  return utils.defaultAbiCoder.encode(
+    ["address", "address", "bytes", "uint32", "uint256"],
+    [source, destination, appMessage, validatorSetId, eventId]
+  );
+}
+
+// keccak256 digest of the preimage - this is what validators sign (raw, without the EIP-191 prefix)
+export function proofDigest(message: BridgeMessage): string {
+  return utils.keccak256(encodeProofPreimage(message));
+}
+
+// Sign a raw digest - `wallet.signMessage` would add the EIP-191 prefix which the bridge does not expect
+export function signDigest(wallet: Wallet, digest: utils.BytesLike) {
+  return utils.splitSignature(
+    wallet._signingKey().signDigest(utils.arrayify(digest))
+  );
+}
+
+/**
+ * Build an `EventProof` for `message`
+ * - `validators` is the full validator set at `message.validatorSetId` in on-chain (digest) order
+ * - `signers` are the validator wallets available to sign; any validator without a signer is omitted (zeroed r/s)
+ */
+export function buildEventProof(
+  message: BridgeMessage,
+  validators: string[],
+  signers: Wallet[]
+): EventProof {
+  const digest = proofDigest(message);
+  const signersByAddress = new Map(
+    signers.map((signer) => [signer.address.toLowerCase(), signer])
+  );
+
+  const proof: EventProof = {
+    eventId: message.eventId,
+    validatorSetId: message.validatorSetId,
+    v: [],
+    r: [],
+    s: [],
+    validators
+  };
+
+  for (const validator of validators) {
+    const signer = signersByAddress.get(validator.toLowerCase());
+    if (!signer) {
+      proof.v.push(0);
+      proof.r.push(OMITTED_SIGNATURE);
+      proof.s.push(OMITTED_SIGNATURE);
+      continue;
+    }
+    const { v, r, s } = signDigest(signer, digest);
+    proof.v.push(v);
+    proof.r.push(r);
+    proof.s.push(s);
+  }
+
+  return proof;
+}
+
+// Number of signatures `_verifyMessage` requires for a set of `validatorCount` (rounds down)
+export function acceptanceThreshold(
+  validatorCount: number,
+  thresholdPercent: BigNumberish
+): number {
+  return BigNumber.from(validatorCount)
+    .mul(thresholdPercent)
+    .div(100)
+    .toNumber();
+}
+
+// Predict whether `proof` carries enough signatures to pass the bridge `thresholdPercent`
+// Note: this only counts signatures, it does not check they are valid
+export function predictThreshold(
+  proof: EventProof,
+  thresholdPercent: BigNumberish
+): ThresholdPrediction {
+  const signatures = proof.validators.filter(
+    (_, i) => proof.r[i] !== undefined && !BigNumber.from(proof.r[i]).isZero()
+  ).length;
+  const required = acceptanceThreshold(
+    proof.validators.length,
+    thresholdPercent
+  );
+  return { signatures, required, reached: signatures >= required };
+}
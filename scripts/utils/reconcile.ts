@@ -0,0 +1,267 @@
+import {
+  BigNumber,
+  Contract,
+  Event,
+  EventFilter,
+  constants,
+  utils
+} from "ethers";
+import { ERC20_ABI, ETH_RESERVED_TOKEN_ADDRESS } from "./deposit";
+import { getChainHead, queryInBatches } from "./events";
+
+export type ReconciliationStatus = "balanced" | "endowed" | "discrepancy";
+
+// Flows of one token through the peg over the report range - amounts in base units as decimal strings
+export interface TokenReconciliation {
+  tokenAddress: string;
+  symbol: string;
+  decimals: number;
+  // peg balance at `fromBlock - 1`
+  openingBalance: string;
+  deposited: string;
+  // bridged withdrawals (`Withdraw` events not emitted by `adminEmergencyWithdraw`)
+  withdrawn: string;
+  adminWithdrawn: string;
+  // ether added through `endow()` - Eth only
+  endowed: string;
+  // opening + deposited - withdrawn - adminWithdrawn
+  expectedBalance: string;
+  // peg balance at `toBlock`
+  balance: string;
+  // balance - expectedBalance
+  difference: string;
+  depositCount: number;
+  withdrawCount: number;
+  adminWithdrawCount: number;
+  status: ReconciliationStatus;
+  notes: string[];
+}
+
+export interface ReconciliationReport {
+  peg: string;
+  fromBlock: number;
+  toBlock: number;
+  generatedAt: string;
+  tokens: TokenReconciliation[];
+}
+
+export interface ReconcileOptions {
+  peg: Contract;
+  fromBlock?: number;
+  // defaults to the latest block
+  toBlock?: number;
+  // tokens to report on even if they have no events in range
+  tokens?: string[];
+  // max block range per `eth_getLogs` query
+  batchSize?: number;
+}
+
+interface TokenFlows {
+  deposited: BigNumber;
+  withdrawn: BigNumber;
+  adminWithdrawn: BigNumber;
+  depositCount: number;
+  withdrawCount: number;
+  adminWithdrawCount: number;
+}
+
+// `adminEmergencyWithdraw` emits `Withdraw` (from `_withdraw`) followed by `AdminWithdraw` for the same transfer
+const withdrawKey = (event: Event) =>
+  [
+    event.transactionHash,
+    event.args!._address,
+    event.args!.tokenAddress,
+    event.args!.amount.toString()
+  ]
+    .join(":")
+    .toLowerCase();
+
+async function tokenMetadata(
+  peg: Contract,
+  tokenAddress: string
+): Promise<{ symbol: string; decimals: number }> {
+  if (tokenAddress === ETH_RESERVED_TOKEN_ADDRESS) {
+    return { symbol: "ETH", decimals: 18 };
+  }
+  const token = new Contract(tokenAddress, ERC20_ABI, peg.provider);
+  const [symbol, decimals] = await Promise.all([
+    token.symbol().catch(() => "UNKNOWN"),
+    token.decimals().catch(() => 18)
+  ]);
+  return { symbol, decimals };
+}
+
+async function pegBalance(
+  peg: Contract,
+  tokenAddress: string,
+  blockTag: number
+): Promise<BigNumber> {
+  if (blockTag < 0) return constants.Zero;
+  if (tokenAddress === ETH_RESERVED_TOKEN_ADDRESS) {
+    return peg.provider.getBalance(peg.address, blockTag);
+  }
+  const token = new Contract(tokenAddress, ERC20_ABI, peg.provider);
+  return token.balanceOf(peg.address, { blockTag });
+}
+
+/**
+ * Reconcile the ERC20Peg's locked balances against its `Deposit`, `Withdraw` and `AdminWithdraw` events
+ * For every token: opening balance + deposits - withdrawals must equal the balance at `toBlock`
+ * Eth added through `endow()` has no matching deposit, it is reported separately and flagged
+ * Balances before the latest block require an archive node
+ */
+export async function reconcilePeg({
+  peg,
+  fromBlock = 0,
+  toBlock,
+  tokens = [],
+  batchSize = 2_000
+}: ReconcileOptions): Promise<ReconciliationReport> {
+  const endBlock = toBlock ?? (await getChainHead(peg.provider));
+  if (fromBlock > endBlock) {
+    throw new Error(`fromBlock ${fromBlock} is after toBlock ${endBlock}`);
+  }
+  const query = (filter: EventFilter) =>
+    queryInBatches(peg, filter, fromBlock, endBlock, batchSize);
+
+  const [deposits, withdrawals, adminWithdrawals, endowments] =
+    await Promise.all([
+      query(peg.filters.Deposit()),
+      query(peg.filters.Withdraw()),
+      query(peg.filters.AdminWithdraw()),
+      query(peg.filters.Endowed())
+    ]);
+
+  const flows = new Map<string, TokenFlows>();
+  const flowsOf = (tokenAddress: string) => {
+    const key = utils.getAddress(tokenAddress);
+    if (!flows.has(key)) {
+      flows.set(key, {
+        deposited: constants.Zero,
+        withdrawn: constants.Zero,
+        adminWithdrawn: constants.Zero,
+        depositCount: 0,
+        withdrawCount: 0,
+        adminWithdrawCount: 0
+      });
+    }
+    return flows.get(key)!;
+  };
+  flowsOf(ETH_RESERVED_TOKEN_ADDRESS);
+  tokens.forEach(flowsOf);
+
+  for (const event of deposits) {
+    const flow = flowsOf(event.args!.tokenAddress);
+    flow.deposited = flow.deposited.add(event.args!.amount);
+    flow.depositCount += 1;
+  }
+
+  const adminKeys = adminWithdrawals.map(withdrawKey);
+  for (const event of adminWithdrawals) {
+    const flow = flowsOf(event.args!.tokenAddress);
+    flow.adminWithdrawn = flow.adminWithdrawn.add(event.args!.amount);
+    flow.adminWithdrawCount += 1;
+  }
+  for (const event of withdrawals) {
+    const paired = adminKeys.indexOf(withdrawKey(event));
+    if (paired >= 0) {
+      // counted as an admin withdrawal
+      adminKeys.splice(paired, 1);
+      continue;
+    }
+    const flow = flowsOf(event.args!.tokenAddress);
+    flow.withdrawn = flow.withdrawn.add(event.args!.amount);
+    flow.withdrawCount += 1;
+  }
+
+  const endowed = endowments.reduce(
+    (sum, event) => sum.add(event.args!.amount),
+    constants.Zero
+  );
+
+  const reconciliations: TokenReconciliation[] = [];
+  for (const [tokenAddress, flow] of flows) {
+    const isEth = tokenAddress === ETH_RESERVED_TOKEN_ADDRESS;
+    const [metadata, openingBalance, balance] = await Promise.all([
+      tokenMetadata(peg, tokenAddress),
+      pegBalance(peg, tokenAddress, fromBlock - 1),
+      pegBalance(peg, tokenAddress, endBlock)
+    ]);
+    const tokenEndowed = isEth ? endowed : constants.Zero;
+    const expectedBalance = openingBalance
+      .add(flow.deposited)
+      .sub(flow.withdrawn)
+      .sub(flow.adminWithdrawn);
+    const difference = balance.sub(expectedBalance);
+    const format = (amount: BigNumber) =>
+      `${utils.formatUnits(amount, metadata.decimals)} ${metadata.symbol}`;
+
+    const notes: string[] = [];
+    let status: ReconciliationStatus = "balanced";
+    if (!tokenEndowed.isZero()) {
+      notes.push(`${format(tokenEndowed)} endowed without a deposit`);
+    }
+    if (difference.eq(tokenEndowed)) {
+      if (!difference.isZero()) status = "endowed";
+    } else {
+      status = "discrepancy";
+      const unexplained = difference.sub(tokenEndowed);
+      notes.push(
+        unexplained.isNegative()
+          ? `${format(unexplained.abs())} missing from the peg`
+          : `${format(unexplained)} surplus not explained by events`
+      );
+    }
+
+    reconciliations.push({
+      tokenAddress,
+      ...metadata,
+      openingBalance: openingBalance.toString(),
+      deposited: flow.deposited.toString(),
+      withdrawn: flow.withdrawn.toString(),
+      adminWithdrawn: flow.adminWithdrawn.toString(),
+      endowed: tokenEndowed.toString(),
+      expectedBalance: expectedBalance.toString(),
+      balance: balance.toString(),
+      difference: difference.toString(),
+      depositCount: flow.depositCount,
+      withdrawCount: flow.withdrawCount,
+      adminWithdrawCount: flow.adminWithdrawCount,
+      status,
+      notes
+    });
+  }
+
+  return {
+    peg: peg.address,
+    fromBlock,
+    toBlock: endBlock,
+    generatedAt: new Date().toISOString(),
+    tokens: reconciliations
+  };
+}
+
+/**
+ * Flatten a report into rows for CSV export - amounts in decimal units of each token
+ */
+export function toReconciliationRows(report: ReconciliationReport) {
+  return report.tokens.map((t) => {
+    const format = (amount: string) => utils.formatUnits(amount, t.decimals);
+    return {
+      fromBlock: report.fromBlock,
+      toBlock: report.toBlock,
+      tokenAddress: t.tokenAddress,
+      symbol: t.symbol,
+      openingBalance: format(t.openingBalance),
+      deposited: format(t.deposited),
+      withdrawn: format(t.withdrawn),
+      adminWithdrawn: format(t.adminWithdrawn),
+      endowed: format(t.endowed),
+      expectedBalance: format(t.expectedBalance),
+      balance: format(t.balance),
+      difference: format(t.difference),
+      status: t.status,
+      notes: t.notes.join("; ")
+    };
+  });
+}
@@ -0,0 +1,284 @@
+import {
+  BigNumber,
+  Contract,
+  ContractTransaction,
+  Wallet,
+  utils
+} from "ethers";
+import { errorCode, errorReason } from "./errors";
+import { readJsonFile, writeJsonFile } from "./jsonStore";
+import { EventProof, buildEventProof } from "./proof";
+import { ReceivedMessage, verifyReceiveMessage } from "./verifier";
+
+// A Root -> Ethereum message with its validator proof, as submitted to `Bridge.receiveMessage`
+export interface SignedMessage extends ReceivedMessage {
+  proof: EventProof;
+}
+
+// JSON representation of a signed message, as read from files and proof endpoints
+export interface SignedMessageJson {
+  source: string;
+  destination: string;
+  appMessage: string;
+  proof: {
+    eventId: string | number;
+    validatorSetId: string | number;
+    v: (string | number)[];
+    r: string[];
+    s: string[];
+    validators: string[];
+  };
+}
+
+/**
+ * Where the relayer gets signed event proofs from
+ * Implementations may return messages already relayed - the relayer skips them
+ */
+export interface ProofSource {
+  fetchProofs(): Promise<SignedMessage[]>;
+}
+
+export type RelayStatus = "submitted" | "skipped" | "failed";
+
+export interface RelayRecord {
+  status: RelayStatus;
+  attempts: number;
+  transactionHash?: string;
+  reason?: string;
+  updatedAt: string;
+}
+
+export interface RelayerState {
+  bridge: string;
+  // keyed by eventId
+  messages: Record<string, RelayRecord>;
+}
+
+export interface RelayerOptions {
+  bridge: Contract;
+  source: ProofSource;
+  // file persisting progress between runs
+  statePath: string;
+  // attempts per message for transient (network) failures
+  maxAttempts?: number;
+  retryDelayMs?: number;
+  log?: (message: string) => void;
+}
+
+export interface RelayReport {
+  submitted: string[];
+  skipped: string[];
+  failed: string[];
+}
+
+// ethers error codes worth retrying - anything else (e.g. CALL_EXCEPTION) will fail again
+const TRANSIENT_ERRORS = [
+  "NETWORK_ERROR",
+  "SERVER_ERROR",
+  "TIMEOUT",
+  "NONCE_EXPIRED",
+  "REPLACEMENT_UNDERPRICED"
+];
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Parse the JSON representation of a signed message - uint256 eventIds as decimal strings
+ */
+export function parseSignedMessage(raw: SignedMessageJson): SignedMessage {
+  return {
+    source: utils.getAddress(raw.source),
+    destination: utils.getAddress(raw.destination),
+    appMessage: utils.hexlify(raw.appMessage),
+    proof: {
+      eventId: BigNumber.from(raw.proof.eventId),
+      validatorSetId: Number(raw.proof.validatorSetId),
+      v: raw.proof.v.map(Number),
+      r: raw.proof.r,
+      s: raw.proof.s,
+      validators: raw.proof.validators
+    }
+  };
+}
+
+/**
+ * Proofs from a JSON file containing an array of signed messages
+ */
+export class FileProofSource implements ProofSource {
+  constructor(private readonly path: string) {}
+
+  async fetchProofs() {
+    return readJsonFile<SignedMessageJson[]>(this.path, []).map(
+      parseSignedMessage
+    );
+  }
+}
+
+/**
+ * Proofs from an HTTP endpoint returning a JSON array of signed messages
+ */
+export class HttpProofSource implements ProofSource {
+  constructor(private readonly url: string) {}
+
+  async fetchProofs() {
+    const response = await utils.fetchJson(this.url);
+    return (response as SignedMessageJson[]).map(parseSignedMessage);
+  }
+}
+
+/**
+ * In-process proof source - signs messages with local validator wallets
+ * For local networks and tests only, where the bridge validator set is made of these wallets
+ */
+export class StubProofSource implements ProofSource {
+  private readonly messages: SignedMessage[] = [];
+
+  constructor(
+    private readonly validators: Wallet[],
+    private readonly validatorSetId: number
+  ) {}
+
+  add(message: ReceivedMessage & { eventId: number }) {
+    this.messages.push({
+      source: message.source,
+      destination: message.destination,
+      appMessage: message.appMessage,
+      proof: buildEventProof(
+        { ...message, validatorSetId: this.validatorSetId },
+        this.validators.map((wallet) => wallet.address),
+        this.validators
+      )
+    });
+  }
+
+  async fetchProofs() {
+    return [...this.messages];
+  }
+}
+
+export function loadRelayerState(path: string, bridge: string): RelayerState {
+  const state = readJsonFile<RelayerState>(path, { bridge, messages: {} });
+  if (state.bridge.toLowerCase() !== bridge.toLowerCase()) {
+    throw new Error(
+      `Relayer state ${path} belongs to bridge ${state.bridge}, not ${bridge}`
+    );
+  }
+  return state;
+}
+
+const isTransient = (error: unknown) =>
+  TRANSIENT_ERRORS.includes(errorCode(error) ?? "");
+
+/**
+ * Relay every pending message from `source` to `Bridge.receiveMessage` once
+ * - messages already verified on-chain are skipped
+ * - proofs are dry-run first, so invalid proofs are recorded as failed without spending gas
+ * - transient errors are retried up to `maxAttempts`, failed messages are retried on the next run
+ * - after an error the message is checked on-chain again, as the transaction may have been mined regardless
+ */
+export async function relayMessages({
+  bridge,
+  source,
+  statePath,
+  maxAttempts = 3,
+  retryDelayMs = 5_000,
+  log = console.log
+}: RelayerOptions): Promise<RelayReport> {
+  const state = loadRelayerState(statePath, bridge.address);
+  const report: RelayReport = { submitted: [], skipped: [], failed: [] };
+
+  const record = (eventId: string, update: Omit<RelayRecord, "updatedAt">) => {
+    state.messages[eventId] = {
+      ...update,
+      updatedAt: new Date().toISOString()
+    };
+    writeJsonFile(statePath, state);
+    report[update.status].push(eventId);
+  };
+
+  const messages = (await source.fetchProofs()).sort((a, b) =>
+    BigNumber.from(a.proof.eventId).lt(b.proof.eventId) ? -1 : 1
+  );
+
+  for (const message of messages) {
+    const eventId = BigNumber.from(message.proof.eventId).toString();
+    const previous = state.messages[eventId];
+    if (previous && previous.status !== "failed") continue;
+
+    if (await bridge.verifiedEventIds(eventId)) {
+      log(`${eventId}: already verified on-chain, skipping`);
+      record(eventId, { status: "skipped", attempts: 0 });
+      continue;
+    }
+
+    const bridgeFee: BigNumber = await bridge.bridgeFee();
+    const dryRun = await verifyReceiveMessage(
+      bridge,
+      message,
+      message.proof,
+      bridgeFee
+    );
+    if (!dryRun.valid) {
+      log(`${eventId}: invalid proof - ${dryRun.reason}`);
+      record(eventId, {
+        status: "failed",
+        attempts: previous?.attempts ?? 0,
+        reason: dryRun.reason
+      });
+      continue;
+    }
+
+    let attempts = previous?.attempts ?? 0;
+    let sentHash: string | undefined;
+    for (let attempt = 1; ; ++attempt) {
+      attempts += 1;
+      try {
+        const tx: ContractTransaction = await bridge.receiveMessage(
+          message.source,
+          message.destination,
+          message.appMessage,
+          message.proof,
+          { value: bridgeFee }
+        );
+        sentHash = tx.hash;
+        log(`${eventId}: submitted ${tx.hash}`);
+        const receipt = await tx.wait();
+        log(`${eventId}: confirmed in block ${receipt.blockNumber}`);
+        record(eventId, {
+          status: "submitted",
+          attempts,
+          transactionHash: receipt.transactionHash
+        });
+        break;
+      } catch (error) {
+        // e.g. a timeout waiting for the receipt of a transaction that was mined
+        const verified: boolean = await bridge
+          .verifiedEventIds(eventId)
+          .catch(() => false);
+        if (verified) {
+          log(`${eventId}: verified on-chain despite ${errorReason(error)}`);
+          record(eventId, {
+            status: "submitted",
+            attempts,
+            transactionHash: sentHash
+          });
+          break;
+        }
+        if (isTransient(error) && attempt < maxAttempts) {
+          log(`${eventId}: ${errorReason(error)}, retrying (${attempt})`);
+          await sleep(retryDelayMs * attempt);
+          continue;
+        }
+        log(`${eventId}: failed - ${errorReason(error)}`);
+        record(eventId, {
+          status: "failed",
+          attempts,
+          reason: errorReason(error)
+        });
+        break;
+      }
+    }
+  }
+
+  return report;
+}
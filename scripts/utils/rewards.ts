@@ -0,0 +1,195 @@
+import { BigNumber, BigNumberish, Contract } from "ethers";
+import { depositMessageFee } from "./fees";
+
+/**
+ * Bridge state and parameters the reward economics depend on
+ */
+export interface BridgeEconomics {
+  balance: BigNumber;
+  accumulatedMessageFees: BigNumber;
+  // paid by every relayed `receiveMessage` (except validator set changes)
+  bridgeFee: BigNumber;
+  // paid by every `sendMessage`, i.e. every peg deposit - kept apart in `accumulatedMessageFees`
+  sendMessageFee: BigNumber;
+  maxRewardPayout: BigNumber;
+}
+
+/**
+ * Traffic assumptions, per period (e.g. per day)
+ * Within a period the simulator applies sent messages, received messages, endowments, then the rotation
+ */
+export interface TrafficAssumptions {
+  periods: number;
+  messagesSent: number;
+  messagesReceived: number;
+  // a validator set rotation (`setValidators` payout) every `rotationInterval` periods, at the end of the period
+  rotationInterval: number;
+  endowments?: { period: number; amount: BigNumberish }[];
+  // reward a rotation should pay, defaults to `maxRewardPayout` and can not exceed it
+  targetReward?: BigNumberish;
+}
+
+export interface PeriodProjection {
+  period: number;
+  // verification fees received - available for rewards
+  verificationFees: BigNumber;
+  // message fees received - excluded from rewards
+  messageFees: BigNumber;
+  endowed: BigNumber;
+  // set in rotation periods
+  rotation?: {
+    reward: BigNumber;
+    // targetReward - reward, when underfunded
+    shortfall: BigNumber;
+    // `balance - accumulatedMessageFees` underflows, `setValidators` reverts
+    reverts: boolean;
+  };
+  // state at the end of the period
+  balance: BigNumber;
+  accumulatedMessageFees: BigNumber;
+  rewardPool: BigNumber;
+}
+
+export interface EconomicsProjection {
+  periods: PeriodProjection[];
+  totalRewards: BigNumber;
+  totalMessageFees: BigNumber;
+  // periods whose rotation pays less than the target reward, or reverts
+  underfundedRotations: number[];
+  // endowing each `amount` in its `period` covers every shortfall - empty when no rotation is underfunded
+  endowments: { period: number; amount: BigNumber }[];
+}
+
+/**
+ * Read the current reward economics inputs from a Bridge
+ */
+export async function readBridgeEconomics(
+  bridge: Contract
+): Promise<BridgeEconomics> {
+  const [
+    balance,
+    accumulatedMessageFees,
+    bridgeFee,
+    sendMessageFee,
+    maxRewardPayout
+  ] = await Promise.all([
+    bridge.provider.getBalance(bridge.address),
+    bridge.accumulatedMessageFees(),
+    bridge.bridgeFee(),
+    depositMessageFee(bridge),
+    bridge.maxRewardPayout()
+  ]);
+  return {
+    balance,
+    accumulatedMessageFees,
+    bridgeFee,
+    sendMessageFee,
+    maxRewardPayout
+  };
+}
+
+/**
+ * Project the bridge balance, message fee accumulation and `setValidators` rewards over time
+ * Mirrors `Bridge._setValidators`: reward = min(balance - accumulatedMessageFees, maxRewardPayout)
+ */
+export function projectEconomics(
+  economics: BridgeEconomics,
+  traffic: TrafficAssumptions
+): EconomicsProjection {
+  const target = BigNumber.from(
+    traffic.targetReward ?? economics.maxRewardPayout
+  );
+  if (target.gt(economics.maxRewardPayout)) {
+    throw new Error(
+      `targetReward ${target} exceeds maxRewardPayout ${economics.maxRewardPayout} - no rotation can pay it`
+    );
+  }
+  const projection = simulate(economics, traffic, target);
+
+  // a rotation pays out up to maxRewardPayout, so an endowment beyond its shortfall does not carry over -
+  // endow the first underfunded rotation and simulate again until none is left
+  const endowments: EconomicsProjection["endowments"] = [];
+  let endowed = projection;
+  while (endowed.underfundedRotations.length > 0) {
+    const period = endowed.underfundedRotations[0];
+    endowments.push({
+      period,
+      amount: endowed.periods[period].rotation!.shortfall
+    });
+    endowed = simulate(
+      economics,
+      {
+        ...traffic,
+        endowments: [...(traffic.endowments ?? []), ...endowments]
+      },
+      target
+    );
+  }
+
+  return { ...projection, endowments };
+}
+
+function simulate(
+  economics: BridgeEconomics,
+  traffic: TrafficAssumptions,
+  target: BigNumber
+): Omit<EconomicsProjection, "endowments"> {
+  let balance = economics.balance;
+  let accumulatedMessageFees = economics.accumulatedMessageFees;
+
+  const periods: PeriodProjection[] = [];
+  const underfundedRotations: number[] = [];
+  let totalRewards = BigNumber.from(0);
+  let totalMessageFees = BigNumber.from(0);
+
+  for (let period = 0; period < traffic.periods; ++period) {
+    const messageFees = economics.sendMessageFee.mul(traffic.messagesSent);
+    const verificationFees = economics.bridgeFee.mul(traffic.messagesReceived);
+    const endowed = (traffic.endowments ?? [])
+      .filter((e) => e.period === period)
+      .reduce((sum, e) => sum.add(e.amount), BigNumber.from(0));
+
+    balance = balance.add(messageFees).add(verificationFees).add(endowed);
+    accumulatedMessageFees = accumulatedMessageFees.add(messageFees);
+    totalMessageFees = totalMessageFees.add(messageFees);
+
+    let rotation: PeriodProjection["rotation"];
+    if (
+      traffic.rotationInterval > 0 &&
+      (period + 1) % traffic.rotationInterval === 0
+    ) {
+      const reverts = balance.lt(accumulatedMessageFees);
+      const pool = reverts
+        ? BigNumber.from(0)
+        : balance.sub(accumulatedMessageFees);
+      const reward = pool.lt(economics.maxRewardPayout)
+        ? pool
+        : economics.maxRewardPayout;
+      // a reverting rotation also needs the missing message fees covered
+      const shortfall = reverts
+        ? target.add(accumulatedMessageFees.sub(balance))
+        : reward.lt(target)
+        ? target.sub(reward)
+        : BigNumber.from(0);
+      balance = balance.sub(reward);
+      totalRewards = totalRewards.add(reward);
+      if (reverts || !shortfall.isZero()) underfundedRotations.push(period);
+      rotation = { reward, shortfall, reverts };
+    }
+
+    periods.push({
+      period,
+      verificationFees,
+      messageFees,
+      endowed,
+      rotation,
+      balance,
+      accumulatedMessageFees,
+      rewardPool: balance.lt(accumulatedMessageFees)
+        ? BigNumber.from(0)
+        : balance.sub(accumulatedMessageFees)
+    });
+  }
+
+  return { periods, totalRewards, totalMessageFees, underfundedRotations };
+}
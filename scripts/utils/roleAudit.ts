@@ -0,0 +1,170 @@
+import { Contract, Event } from "ethers";
+import { getChainHead, queryInBatches } from "./events";
+import { ROLES, RoleName, roleName } from "./roles";
+
+export interface RoleHolder {
+  // Roles.sol name, or the role id for unknown roles
+  role: string;
+  account: string;
+  // last RoleGranted for this account
+  grantedBlock: number;
+  grantedTransaction: string;
+  // `hasRole` at the end of the scanned range
+  onChain: boolean;
+  // externally owned account (no code)
+  eoa: boolean;
+}
+
+export interface RoleInventory {
+  contract: string;
+  fromBlock: number;
+  toBlock: number;
+  holders: RoleHolder[];
+}
+
+export type RoleDriftKind = "unexpected" | "missing" | "inconsistent";
+
+export interface RoleDrift {
+  kind: RoleDriftKind;
+  role: string;
+  account: string;
+  detail: string;
+}
+
+// Expected role holders by Roles.sol name - roles not listed are expected to have no holders
+export type ExpectedRoles = Partial<Record<RoleName, string[]>>;
+
+export interface RoleInventoryOptions {
+  // first block to scan - must not be after the contract deployment for a complete inventory
+  fromBlock?: number;
+  toBlock?: number;
+  batchSize?: number;
+}
+
+const byPosition = (a: Event, b: Event) =>
+  a.blockNumber - b.blockNumber || a.logIndex - b.logIndex;
+
+/**
+ * Rebuild current role membership of an AccessControl contract from `RoleGranted`/`RoleRevoked`
+ * Every holder is cross-checked with `hasRole`
+ */
+export async function rebuildRoleInventory(
+  contract: Contract,
+  { fromBlock = 0, toBlock, batchSize }: RoleInventoryOptions = {}
+): Promise<RoleInventory> {
+  const endBlock = toBlock ?? (await getChainHead(contract.provider));
+  const [granted, revoked] = await Promise.all([
+    queryInBatches(
+      contract,
+      contract.filters.RoleGranted(),
+      fromBlock,
+      endBlock,
+      batchSize
+    ),
+    queryInBatches(
+      contract,
+      contract.filters.RoleRevoked(),
+      fromBlock,
+      endBlock,
+      batchSize
+    )
+  ]);
+
+  // role id -> account -> granting event
+  const members = new Map<string, Map<string, Event>>();
+  for (const event of [...granted, ...revoked].sort(byPosition)) {
+    const { role, account } = event.args!;
+    if (!members.has(role)) members.set(role, new Map());
+    if (event.event === "RoleGranted") {
+      members.get(role)!.set(account, event);
+    } else {
+      members.get(role)!.delete(account);
+    }
+  }
+
+  const holders: RoleHolder[] = [];
+  for (const [role, accounts] of members) {
+    for (const [account, event] of accounts) {
+      const [onChain, code] = await Promise.all([
+        contract.hasRole(role, account, { blockTag: endBlock }),
+        contract.provider.getCode(account, endBlock)
+      ]);
+      holders.push({
+        role: roleName(role),
+        account,
+        grantedBlock: event.blockNumber,
+        grantedTransaction: event.transactionHash,
+        onChain,
+        eoa: code === "0x"
+      });
+    }
+  }
+
+  return { contract: contract.address, fromBlock, toBlock: endBlock, holders };
+}
+
+const sameAddress = (a: string, b: string) =>
+  a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Diff an inventory against the expected role holders
+ * - unexpected: holds a role it should not (e.g. a deployer EOA still holding admin)
+ * - missing: an expected holder without the role
+ * - inconsistent: events and `hasRole` disagree, usually because the scan started after the deployment
+ */
+export async function auditRoles(
+  contract: Contract,
+  inventory: RoleInventory,
+  expected: ExpectedRoles
+): Promise<RoleDrift[]> {
+  const drift: RoleDrift[] = [];
+  const expectedHolders = (role: string) =>
+    (expected as Record<string, string[] | undefined>)[role] ?? [];
+
+  for (const holder of inventory.holders) {
+    const { role, account } = holder;
+    if (!holder.onChain) {
+      drift.push({
+        kind: "inconsistent",
+        role,
+        account,
+        detail: "granted by events but hasRole is false"
+      });
+    } else if (!expectedHolders(role).some((a) => sameAddress(a, account))) {
+      drift.push({
+        kind: "unexpected",
+        role,
+        account,
+        detail: `${holder.eoa ? "EOA" : "contract"} granted in block ${
+          holder.grantedBlock
+        }`
+      });
+    }
+  }
+
+  for (const [role, accounts] of Object.entries(expected)) {
+    for (const account of accounts ?? []) {
+      const inInventory = inventory.holders.some(
+        (h) => h.role === role && sameAddress(h.account, account)
+      );
+      if (inInventory) continue;
+      const onChain: boolean = await contract.hasRole(
+        ROLES[role as RoleName],
+        account,
+        { blockTag: inventory.toBlock }
+      );
+      drift.push(
+        onChain
+          ? {
+              kind: "inconsistent",
+              role,
+              account,
+              detail: `hasRole is true but no RoleGranted since block ${inventory.fromBlock}`
+            }
+          : { kind: "missing", role, account, detail: "expected holder" }
+      );
+    }
+  }
+
+  return drift;
+}
@@ -0,0 +1,23 @@
+import { constants, utils } from "ethers";
+
+// Role ids from contracts/Roles.sol
+export const ROLES = {
+  DEFAULT_ADMIN_ROLE: constants.HashZero,
+  TOKEN_ROLE: utils.id("TOKEN_ROLE"),
+  TOKEN_RECOVERY_ROLE: utils.id("TOKEN_RECOVERY_ROLE"),
+  PEG_MANAGER_ROLE: utils.id("PEG_MANAGER_ROLE"),
+  MANAGER_ROLE: utils.id("MANAGER_ROLE"),
+  MULTISIG_ROLE: utils.id("MULTISIG_ROLE")
+};
+
+export type RoleName = keyof typeof ROLES;
+
+/**
+ * Name of a role id, or the id itself for roles not in Roles.sol
+ */
+export function roleName(role: string): string {
+  const entry = Object.entries(ROLES).find(
+    ([, id]) => id.toLowerCase() === role.toLowerCase()
+  );
+  return entry ? entry[0] : role;
+}
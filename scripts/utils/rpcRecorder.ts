@@ -0,0 +1,107 @@
+import { createServer } from "http";
+import { AddressInfo } from "net";
+import { utils } from "ethers";
+
+// JSON-RPC responses captured from a live node, replayed to run a fork offline
+export interface RpcRecording {
+  network?: string;
+  blockNumber?: number;
+  // keyed by `${method}:${JSON.stringify(params)}`
+  responses: Record<string, { result?: unknown; error?: unknown }>;
+}
+
+export interface RpcRecorder {
+  url: string;
+  close(): Promise<void>;
+}
+
+interface JsonRpcRequest {
+  jsonrpc: "2.0";
+  id: number | string | null;
+  method: string;
+  params?: unknown[];
+}
+
+const requestKey = ({ method, params }: JsonRpcRequest) =>
+  `${method}:${JSON.stringify(params ?? [])}`;
+
+/**
+ * Local JSON-RPC endpoint for Hardhat forking
+ * - record: forwards every request to `upstream` and stores the response in `recording`
+ * - replay: answers from `recording` only, requests that were not recorded fail
+ * Record against a pinned block with an empty cache/hardhat-network-fork, otherwise Hardhat answers from its own cache
+ */
+export async function startRpcRecorder({
+  mode,
+  recording,
+  upstream
+}: {
+  mode: "record" | "replay";
+  recording: RpcRecording;
+  upstream?: string;
+}): Promise<RpcRecorder> {
+  if (mode === "record" && !upstream) {
+    throw new Error("Recording needs an upstream RPC url");
+  }
+
+  async function handle(request: JsonRpcRequest) {
+    const key = requestKey(request);
+    if (mode === "record" && !(key in recording.responses)) {
+      const { result, error } = await utils.fetchJson(
+        upstream!,
+        JSON.stringify({ ...request, id: 1 })
+      );
+      recording.responses[key] = { result, error };
+    }
+    const recorded = recording.responses[key];
+    if (!recorded) {
+      return {
+        jsonrpc: "2.0",
+        id: request.id,
+        error: { code: -32000, message: `Not recorded: ${key}` }
+      };
+    }
+    return recorded.error !== undefined
+      ? { jsonrpc: "2.0", id: request.id, error: recorded.error }
+      : { jsonrpc: "2.0", id: request.id, result: recorded.result };
+  }
+
+  const server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", async () => {
+      try {
+        const payload = JSON.parse(body);
+        const response = Array.isArray(payload)
+          ? await Promise.all(payload.map(handle))
+          : await handle(payload);
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(response));
+      } catch (error) {
+        res.writeHead(500, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify({
+            jsonrpc: "2.0",
+            id: null,
+            error: {
+              code: -32603,
+              message: error instanceof Error ? error.message : String(error)
+            }
+          })
+        );
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve()));
+        // Hardhat keeps its fork connection alive
+        server.closeAllConnections();
+      })
+  };
+}
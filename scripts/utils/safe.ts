@@ -0,0 +1,223 @@
+import { BigNumber, BigNumberish, Contract, providers, utils } from "ethers";
+import { errorReason } from "./errors";
+import { DecodedEvent, decodeLogs, impersonate } from "./fork";
+
+// Safe Transaction Builder batch file format (https://help.safe.global - Transaction Builder)
+export interface SafeContractMethod {
+  inputs: { internalType: string; name: string; type: string }[];
+  name: string;
+  payable: boolean;
+}
+
+export interface SafeTransaction {
+  to: string;
+  value: string;
+  // raw calldata - null when `contractMethod` is given, the Transaction Builder encodes the inputs itself
+  data: string | null;
+  contractMethod?: SafeContractMethod;
+  contractInputsValues?: Record<string, string>;
+}
+
+export interface SafeBatch {
+  version: "1.0";
+  chainId: string;
+  createdAt: number;
+  meta: {
+    name: string;
+    description: string;
+    txBuilderVersion: string;
+    createdFromSafeAddress: string;
+    createdFromOwnerAddress: string;
+    checksum?: string;
+  };
+  transactions: SafeTransaction[];
+}
+
+// A contract call to be executed by the Safe
+export interface SafeCall {
+  contract: Contract;
+  method: string;
+  args: unknown[];
+  value?: BigNumberish;
+}
+
+export interface SimulatedTransaction {
+  to: string;
+  method: string;
+  // a Safe batch executes atomically - transactions after a revert are skipped,
+  // the ones before it are rolled back
+  status: "success" | "reverted" | "skipped" | "rolled-back";
+  gasUsed?: string;
+  reason?: string;
+  events: DecodedEvent[];
+}
+
+const TX_BUILDER_VERSION = "1.16.5";
+
+// Transaction Builder input values are strings - arrays/tuples as JSON
+const inputValue = (value: unknown): string =>
+  BigNumber.isBigNumber(value)
+    ? value.toString()
+    : Array.isArray(value)
+    ? JSON.stringify(value.map(inputValue))
+    : String(value);
+
+export function safeTransaction({
+  contract,
+  method,
+  args,
+  value = 0
+}: SafeCall): SafeTransaction {
+  const fragment = contract.interface.getFunction(method);
+  // fail early on bad arguments rather than in the Safe UI
+  contract.interface.encodeFunctionData(fragment, args);
+
+  const contractInputsValues: Record<string, string> = {};
+  fragment.inputs.forEach((input, i) => {
+    contractInputsValues[input.name] = inputValue(args[i]);
+  });
+  return {
+    to: contract.address,
+    value: BigNumber.from(value).toString(),
+    data: null,
+    contractMethod: {
+      inputs: fragment.inputs.map((input) => ({
+        internalType: input.type,
+        name: input.name,
+        type: input.type
+      })),
+      name: fragment.name,
+      payable: fragment.payable
+    },
+    contractInputsValues
+  };
+}
+
+// Transaction Builder checksum serialization - object keys sorted, undefined as null
+function serialize(json: unknown): string {
+  if (Array.isArray(json)) return `[${json.map(serialize).join(",")}]`;
+  if (typeof json === "object" && json !== null) {
+    const keys = Object.keys(json).sort();
+    return `{${JSON.stringify(keys)}${keys
+      .map((key) => `${serialize((json as Record<string, unknown>)[key])},`)
+      .join("")}}`;
+  }
+  return json === undefined ? "null" : JSON.stringify(json);
+}
+
+/**
+ * Checksum the Transaction Builder verifies on import - computed without `meta.name` and `meta.checksum`
+ */
+export function batchChecksum(batch: SafeBatch): string {
+  const { checksum, ...meta } = batch.meta;
+  return utils.keccak256(
+    utils.toUtf8Bytes(serialize({ ...batch, meta: { ...meta, name: null } }))
+  );
+}
+
+export function buildSafeBatch({
+  chainId,
+  safe,
+  calls,
+  name = "Transactions Batch",
+  description = ""
+}: {
+  chainId: number;
+  safe: string;
+  calls: SafeCall[];
+  name?: string;
+  description?: string;
+}): SafeBatch {
+  const batch: SafeBatch = {
+    version: "1.0",
+    chainId: chainId.toString(),
+    createdAt: Date.now(),
+    meta: {
+      name,
+      description,
+      txBuilderVersion: TX_BUILDER_VERSION,
+      createdFromSafeAddress: utils.getAddress(safe),
+      createdFromOwnerAddress: ""
+    },
+    transactions: calls.map(safeTransaction)
+  };
+  batch.meta.checksum = batchChecksum(batch);
+  return batch;
+}
+
+/**
+ * Calldata of a batch transaction
+ */
+export function encodeSafeTransaction(tx: SafeTransaction): string {
+  if (!tx.contractMethod) return tx.data ?? "0x";
+  const iface = new utils.Interface([
+    {
+      type: "function",
+      name: tx.contractMethod.name,
+      inputs: tx.contractMethod.inputs,
+      outputs: [],
+      stateMutability: tx.contractMethod.payable ? "payable" : "nonpayable"
+    }
+  ]);
+  const values = tx.contractMethod.inputs.map(({ name, type }) => {
+    const value = tx.contractInputsValues?.[name] ?? "";
+    if (type === "bool") return value === "true";
+    if (type.endsWith("]") || type.startsWith("tuple")) {
+      return JSON.parse(value);
+    }
+    return value;
+  });
+  return iface.encodeFunctionData(tx.contractMethod.name, values);
+}
+
+const methodName = (tx: SafeTransaction) =>
+  tx.contractMethod?.name ?? (tx.data ?? "0x").slice(0, 10);
+
+/**
+ * Execute a batch as its Safe on a Hardhat network (usually a fork), returning the events each transaction emits
+ * Transactions are sent one by one from the impersonated Safe. Like a MultiSend the batch is all or nothing:
+ * after a revert the network is reverted to its state before the batch
+ */
+export async function simulateSafeBatch(
+  provider: providers.JsonRpcProvider,
+  batch: SafeBatch,
+  interfaces: utils.Interface[]
+): Promise<SimulatedTransaction[]> {
+  const safe = await impersonate(provider, batch.meta.createdFromSafeAddress);
+  const snapshot: string = await provider.send("evm_snapshot", []);
+  const results: SimulatedTransaction[] = [];
+
+  for (const tx of batch.transactions) {
+    const result: SimulatedTransaction = {
+      to: tx.to,
+      method: methodName(tx),
+      status: "skipped",
+      events: []
+    };
+    results.push(result);
+    if (results.some((r) => r.status === "reverted")) continue;
+
+    try {
+      const sent = await safe.sendTransaction({
+        to: tx.to,
+        value: tx.value,
+        data: encodeSafeTransaction(tx)
+      });
+      const receipt = await sent.wait();
+      result.status = "success";
+      result.gasUsed = receipt.gasUsed.toString();
+      result.events = decodeLogs(receipt.logs, interfaces);
+    } catch (error) {
+      result.status = "reverted";
+      result.reason = errorReason(error);
+    }
+  }
+
+  if (results.some((r) => r.status === "reverted")) {
+    await provider.send("evm_revert", [snapshot]);
+    for (const result of results) {
+      if (result.status === "success") result.status = "rolled-back";
+    }
+  }
+  return results;
+}
@@ -0,0 +1,294 @@
+import { BigNumber, Contract, constants, providers, utils } from "ethers";
+import { ERC20_ABI } from "./deposit";
+import { errorReason } from "./errors";
+import { getChainHead } from "./events";
+import { DecodedEvent, decodeLogs, impersonate } from "./fork";
+import { readJsonFile } from "./jsonStore";
+import { ROLES } from "./roles";
+
+export type ScenarioContract = "Bridge" | "ERC20Peg" | "Token";
+
+// One call made by an impersonated actor
+export interface ScenarioStep {
+  // actor name ("owner", "pegOwner", "multisig", "tokenManager" or a scenario actor) or an address
+  as: string;
+  contract: ScenarioContract;
+  method: string;
+  // "$<actor>" string arguments are replaced by the actor's address
+  args?: unknown[];
+  // wei
+  value?: string;
+}
+
+/**
+ * A scripted change rehearsed against forked state - scenarios/<name>.json
+ */
+export interface Scenario {
+  name: string;
+  description?: string;
+  // network to fork, its url is taken from hardhat.config
+  network: string;
+  // fork block - required to record an offline fixture
+  blockNumber?: number;
+  // contract addresses, default to the network's deployed contracts
+  contracts?: Partial<Record<ScenarioContract, string>>;
+  // extra named accounts
+  actors?: Record<string, string>;
+  // accounts whose ETH/Token balances are diffed - the contracts and actors are always watched
+  watch?: string[];
+  // extra ERC20s to diff, besides ETH and the Token
+  tokens?: string[];
+  steps: ScenarioStep[];
+}
+
+export interface StepResult {
+  step: ScenarioStep;
+  from: string;
+  // steps after a revert are skipped
+  status: "success" | "reverted" | "skipped";
+  reason?: string;
+  events: DecodedEvent[];
+}
+
+export interface BalanceDiff {
+  account: string;
+  // "ETH" or the token symbol
+  asset: string;
+  before: string;
+  after: string;
+  delta: string;
+}
+
+export interface ScenarioReport {
+  scenario: string;
+  blockNumber: number;
+  actors: Record<string, string>;
+  steps: StepResult[];
+  // non-zero balance changes only
+  balances: BalanceDiff[];
+}
+
+export function loadScenario(path: string): Scenario {
+  const scenario = readJsonFile<Scenario | undefined>(path, undefined);
+  if (!scenario) throw new Error(`Missing scenario ${path}`);
+  if (!scenario.network || !Array.isArray(scenario.steps)) {
+    throw new Error(`Scenario ${path} needs a network and steps`);
+  }
+  return scenario;
+}
+
+/**
+ * Built-in actors read from the forked state: the Bridge and ERC20Peg owners,
+ * plus the Token MULTISIG_ROLE/MANAGER_ROLE holders when known (e.g. from config/<network>.json)
+ */
+export async function resolveActors(
+  contracts: Record<ScenarioContract, Contract>,
+  roleHolders: { multisig?: string; tokenManager?: string } = {}
+): Promise<Record<string, string>> {
+  const actors: Record<string, string> = {
+    owner: await contracts.Bridge.owner(),
+    pegOwner: await contracts.ERC20Peg.owner()
+  };
+  for (const [name, holder] of Object.entries(roleHolders)) {
+    if (holder) actors[name] = utils.getAddress(holder);
+  }
+  if (
+    actors.multisig &&
+    !(await contracts.Token.hasRole(ROLES.MULTISIG_ROLE, actors.multisig))
+  ) {
+    throw new Error(`multisig ${actors.multisig} does not hold MULTISIG_ROLE`);
+  }
+  if (
+    actors.tokenManager &&
+    !(await contracts.Token.hasRole(ROLES.MANAGER_ROLE, actors.tokenManager))
+  ) {
+    throw new Error(
+      `tokenManager ${actors.tokenManager} does not hold MANAGER_ROLE`
+    );
+  }
+  return actors;
+}
+
+async function snapshotBalances(
+  provider: providers.Provider,
+  accounts: string[],
+  tokens: Contract[]
+): Promise<Map<string, BigNumber>> {
+  const balances = new Map<string, BigNumber>();
+  for (const account of accounts) {
+    balances.set(`${account}:ETH`, await provider.getBalance(account));
+    for (const token of tokens) {
+      balances.set(
+        `${account}:${token.address}`,
+        await token.balanceOf(account)
+      );
+    }
+  }
+  return balances;
+}
+
+// Gas paid per sender in blocks `fromBlock..toBlock` - reverted transactions are mined and pay gas too
+async function gasPaid(
+  provider: providers.Provider,
+  fromBlock: number,
+  toBlock: number
+): Promise<Map<string, BigNumber>> {
+  const paid = new Map<string, BigNumber>();
+  for (let blockNumber = fromBlock; blockNumber <= toBlock; ++blockNumber) {
+    const block = await provider.getBlockWithTransactions(blockNumber);
+    for (const tx of block.transactions) {
+      const receipt = await provider.getTransactionReceipt(tx.hash);
+      const from = utils.getAddress(tx.from);
+      paid.set(
+        from,
+        (paid.get(from) ?? constants.Zero).add(
+          receipt.gasUsed.mul(receipt.effectiveGasPrice)
+        )
+      );
+    }
+  }
+  return paid;
+}
+
+/**
+ * Replay a scenario on the connected Hardhat network (usually a fork) and diff balances and events
+ * Every step is sent from its impersonated actor, so no private keys are involved
+ * Actor ETH balance changes exclude the gas they paid, including for reverted steps
+ */
+export async function runScenario({
+  provider,
+  scenario,
+  contracts,
+  actors: builtinActors = {}
+}: {
+  provider: providers.JsonRpcProvider;
+  scenario: Scenario;
+  contracts: Record<ScenarioContract, Contract>;
+  actors?: Record<string, string>;
+}): Promise<ScenarioReport> {
+  const actors = { ...builtinActors, ...scenario.actors };
+  const resolve = (actor: string) => {
+    if (actors[actor]) return actors[actor];
+    if (utils.isAddress(actor)) return utils.getAddress(actor);
+    throw new Error(`Unknown actor ${actor} in scenario ${scenario.name}`);
+  };
+  // resolve every actor before sending anything
+  const senders = scenario.steps.map((step) => resolve(step.as));
+
+  const tokens = [
+    contracts.Token,
+    ...(scenario.tokens ?? []).map(
+      (address) => new Contract(address, ERC20_ABI, provider)
+    )
+  ];
+  const symbols = new Map<string, string>([["ETH", "ETH"]]);
+  for (const token of tokens) {
+    symbols.set(token.address, await token.symbol());
+  }
+  const accounts = [
+    ...new Set(
+      [
+        ...Object.values(contracts).map((c) => c.address),
+        ...Object.values(actors),
+        ...(scenario.watch ?? [])
+      ].map((a) => utils.getAddress(a))
+    )
+  ];
+
+  // impersonation tops up gas money - done before the snapshot so it does not show in the diff
+  const signers = new Map<string, providers.JsonRpcSigner>();
+  for (const sender of new Set(senders)) {
+    signers.set(sender, await impersonate(provider, sender));
+  }
+  const interfaces = Object.values(contracts).map((c) => c.interface);
+  const before = await snapshotBalances(provider, accounts, tokens);
+  const startBlock = await getChainHead(provider);
+
+  const steps: StepResult[] = [];
+  for (const [i, step] of scenario.steps.entries()) {
+    const result: StepResult = {
+      step,
+      from: senders[i],
+      status: "skipped",
+      events: []
+    };
+    steps.push(result);
+    if (steps.some((s) => s.status === "reverted")) continue;
+
+    try {
+      const overrides = step.value ? [{ value: step.value }] : [];
+      const args = (step.args ?? []).map((arg) =>
+        typeof arg === "string" && arg.startsWith("$")
+          ? resolve(arg.slice(1))
+          : arg
+      );
+      const tx = await contracts[step.contract]
+        .connect(signers.get(senders[i])!)
+        [step.method](...args, ...overrides);
+      const receipt = await tx.wait();
+      result.status = "success";
+      result.events = decodeLogs(receipt.logs, interfaces);
+    } catch (error) {
+      result.status = "reverted";
+      result.reason = errorReason(error);
+    }
+  }
+
+  const after = await snapshotBalances(provider, accounts, tokens);
+  const endBlock = await getChainHead(provider);
+  const gas = await gasPaid(provider, startBlock + 1, endBlock);
+  const balances: BalanceDiff[] = [];
+  for (const [key, previous] of before) {
+    const [account, asset] = key.split(":");
+    const current =
+      asset === "ETH"
+        ? after.get(key)!.add(gas.get(account) ?? constants.Zero)
+        : after.get(key)!;
+    if (current.eq(previous)) continue;
+    balances.push({
+      account,
+      asset: symbols.get(asset) ?? asset,
+      before: previous.toString(),
+      after: current.toString(),
+      delta: current.sub(previous).toString()
+    });
+  }
+
+  return {
+    scenario: scenario.name,
+    blockNumber: endBlock,
+    actors,
+    steps,
+    balances
+  };
+}
+
+/**
+ * Human readable report - amounts in 18 decimal units
+ */
+export function formatScenarioReport(report: ScenarioReport): string {
+  const lines = [`Scenario ${report.scenario} (block ${report.blockNumber})`];
+  report.steps.forEach(({ step, from, status, reason, events }, i) => {
+    lines.push(
+      `${i}: ${step.as} (${from}) ${step.contract}.${
+        step.method
+      } ${status.toUpperCase()}${reason ? `: ${reason}` : ""}`
+    );
+    for (const event of events) {
+      lines.push(
+        `  ${event.name} @ ${event.address} ${JSON.stringify(event.args)}`
+      );
+    }
+  });
+  lines.push("Balance changes:");
+  if (report.balances.length === 0) lines.push("  none");
+  for (const diff of report.balances) {
+    const delta = BigNumber.from(diff.delta);
+    lines.push(
+      `  ${diff.account} ${diff.asset}: ${
+        delta.isNegative() ? "-" : "+"
+      }${utils.formatEther(delta.abs())}`
+    );
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,273 @@
+import { BigNumber, Contract, constants, utils } from "ethers";
+import { getChainHead, queryInBatches } from "./events";
+
+// A mint (Transfer from address(0)) or burn (Transfer to address(0)) - amounts in base units as decimal strings
+export interface SupplyChange {
+  blockNumber: number;
+  transactionHash: string;
+  kind: "mint" | "burn";
+  account: string;
+  amount: string;
+  // total supply after the change
+  totalSupply: string;
+}
+
+export interface TokenHolder {
+  address: string;
+  balance: string;
+  // percent of the total supply, 2 decimals
+  share: string;
+  // the address is or was the Token's peg - its balance is locked, not circulating
+  peg: boolean;
+}
+
+export interface SupplyReport {
+  token: string;
+  symbol: string;
+  decimals: number;
+  fromBlock: number;
+  toBlock: number;
+  generatedAt: string;
+  cap: string;
+  totalSupply: string;
+  minted: string;
+  burned: string;
+  mintCount: number;
+  burnCount: number;
+  // init's peg followed by every `PegChanged` peg
+  pegs: string[];
+  pegBalance: string;
+  // totalSupply - pegBalance
+  circulatingSupply: string;
+  // cap - totalSupply, what `mint` can still create
+  headroom: string;
+  holderCount: number;
+  topHolders: TokenHolder[];
+  history: SupplyChange[];
+  // the rebuilt supply and balances match `totalSupply()` and `balanceOf()` at `toBlock`
+  consistent: boolean;
+  notes: string[];
+}
+
+export interface SupplyReportOptions {
+  token: Contract;
+  // the Token deployment block - balances are rebuilt from here, so no earlier Transfer may be missed
+  fromBlock?: number;
+  // defaults to the latest block
+  toBlock?: number;
+  // number of holders listed
+  top?: number;
+  batchSize?: number;
+}
+
+const ZERO_ADDRESS = constants.AddressZero;
+
+// percent with 2 decimals, rounded down
+function share(balance: BigNumber, total: BigNumber): string {
+  if (total.isZero()) return "0.00";
+  const basisPoints = balance.mul(10_000).div(total).toNumber();
+  return `${Math.floor(basisPoints / 100)}.${String(basisPoints % 100).padStart(
+    2,
+    "0"
+  )}`;
+}
+
+/**
+ * Rebuild the Token's supply history and holder balances from its `Transfer` events
+ * The init peg is the recipient of the mint of the whole cap, later pegs come from `PegChanged`
+ * Balances before the latest block require an archive node
+ */
+export async function buildSupplyReport({
+  token,
+  fromBlock = 0,
+  toBlock,
+  top = 10,
+  batchSize = 2_000
+}: SupplyReportOptions): Promise<SupplyReport> {
+  const endBlock = toBlock ?? (await getChainHead(token.provider));
+  if (fromBlock > endBlock) {
+    throw new Error(`fromBlock ${fromBlock} is after toBlock ${endBlock}`);
+  }
+  const overrides = { blockTag: endBlock };
+  const [symbol, decimals, cap, totalSupply, currentPeg, transfers, changes] =
+    await Promise.all([
+      token.symbol(overrides),
+      token.decimals(overrides),
+      token.cap(overrides) as Promise<BigNumber>,
+      token.totalSupply(overrides) as Promise<BigNumber>,
+      token.peg(overrides) as Promise<string>,
+      queryInBatches(
+        token,
+        token.filters.Transfer(),
+        fromBlock,
+        endBlock,
+        batchSize
+      ),
+      queryInBatches(
+        token,
+        token.filters.PegChanged(),
+        fromBlock,
+        endBlock,
+        batchSize
+      )
+    ]);
+
+  const balances = new Map<string, BigNumber>();
+  const credit = (account: string, amount: BigNumber) =>
+    balances.set(
+      account,
+      (balances.get(account) ?? constants.Zero).add(amount)
+    );
+
+  const history: SupplyChange[] = [];
+  const pegs: string[] = [];
+  let supply = constants.Zero;
+  let minted = constants.Zero;
+  let burned = constants.Zero;
+
+  for (const event of transfers) {
+    const { from, to, value } = event.args!;
+    if (from !== ZERO_ADDRESS) credit(from, value.mul(-1));
+    if (to !== ZERO_ADDRESS) credit(to, value);
+
+    if (from === ZERO_ADDRESS) {
+      supply = supply.add(value);
+      minted = minted.add(value);
+      // only `init` mints the whole cap at once
+      if (value.eq(cap) && !pegs.includes(to)) pegs.push(to);
+    } else if (to === ZERO_ADDRESS) {
+      supply = supply.sub(value);
+      burned = burned.add(value);
+    } else {
+      continue;
+    }
+    history.push({
+      blockNumber: event.blockNumber,
+      transactionHash: event.transactionHash,
+      kind: from === ZERO_ADDRESS ? "mint" : "burn",
+      account: from === ZERO_ADDRESS ? to : from,
+      amount: value.toString(),
+      totalSupply: supply.toString()
+    });
+  }
+  for (const event of changes) {
+    if (!pegs.includes(event.args!.peg)) pegs.push(event.args!.peg);
+  }
+  if (currentPeg !== ZERO_ADDRESS && !pegs.includes(currentPeg)) {
+    pegs.push(currentPeg);
+  }
+
+  const notes: string[] = [];
+  const format = (amount: BigNumber) =>
+    `${utils.formatUnits(amount, decimals)} ${symbol}`;
+  if (!supply.eq(totalSupply)) {
+    notes.push(
+      `Transfers rebuild a supply of ${format(
+        supply
+      )}, totalSupply() is ${format(
+        totalSupply
+      )} - start at the Token deployment block`
+    );
+  }
+
+  const holders = [...balances.entries()]
+    .filter(([, balance]) => !balance.isZero())
+    .sort(([a, x], [b, y]) =>
+      y.eq(x) ? a.localeCompare(b) : y.gt(x) ? 1 : -1
+    );
+  const topHolders: TokenHolder[] = holders
+    .slice(0, top)
+    .map(([address, balance]) => ({
+      address,
+      balance: balance.toString(),
+      share: share(balance, totalSupply),
+      peg: pegs.includes(address)
+    }));
+
+  // spot check the rebuilt balances of the listed holders and pegs
+  for (const address of new Set([
+    ...topHolders.map((h) => h.address),
+    ...pegs
+  ])) {
+    const onChain: BigNumber = await token.balanceOf(address, overrides);
+    const rebuilt = balances.get(address) ?? constants.Zero;
+    if (!onChain.eq(rebuilt)) {
+      notes.push(
+        `${address}: Transfers rebuild ${format(
+          rebuilt
+        )}, balanceOf() is ${format(onChain)}`
+      );
+    }
+  }
+
+  const pegBalance = pegs.reduce(
+    (sum, peg) => sum.add(balances.get(peg) ?? constants.Zero),
+    constants.Zero
+  );
+
+  return {
+    token: token.address,
+    symbol,
+    decimals,
+    fromBlock,
+    toBlock: endBlock,
+    generatedAt: new Date().toISOString(),
+    cap: cap.toString(),
+    totalSupply: totalSupply.toString(),
+    minted: minted.toString(),
+    burned: burned.toString(),
+    mintCount: history.filter((c) => c.kind === "mint").length,
+    burnCount: history.filter((c) => c.kind === "burn").length,
+    pegs,
+    pegBalance: pegBalance.toString(),
+    circulatingSupply: totalSupply.sub(pegBalance).toString(),
+    headroom: cap.sub(totalSupply).toString(),
+    holderCount: holders.length,
+    topHolders,
+    history,
+    consistent: notes.length === 0,
+    notes
+  };
+}
+
+/**
+ * Flatten the report headline figures into metric/value rows for CSV export - amounts in decimal units
+ */
+export function toSupplySummaryRows(report: SupplyReport) {
+  const format = (amount: string) => utils.formatUnits(amount, report.decimals);
+  return [
+    ["token", report.token],
+    ["symbol", report.symbol],
+    ["fromBlock", report.fromBlock],
+    ["toBlock", report.toBlock],
+    ["cap", format(report.cap)],
+    ["totalSupply", format(report.totalSupply)],
+    ["minted", format(report.minted)],
+    ["burned", format(report.burned)],
+    ["mintCount", report.mintCount],
+    ["burnCount", report.burnCount],
+    ["pegBalance", format(report.pegBalance)],
+    ["circulatingSupply", format(report.circulatingSupply)],
+    ["headroom", format(report.headroom)],
+    ["holderCount", report.holderCount],
+    ["consistent", report.consistent]
+  ].map(([metric, value]) => ({ metric, value }));
+}
+
+export function toHolderRows(report: SupplyReport) {
+  return report.topHolders.map((holder, i) => ({
+    rank: i + 1,
+    address: holder.address,
+    balance: utils.formatUnits(holder.balance, report.decimals),
+    share: holder.share,
+    peg: holder.peg
+  }));
+}
+
+export function toSupplyHistoryRows(report: SupplyReport) {
+  return report.history.map((change) => ({
+    ...change,
+    amount: utils.formatUnits(change.amount, report.decimals),
+    totalSupply: utils.formatUnits(change.totalSupply, report.decimals)
+  }));
+}
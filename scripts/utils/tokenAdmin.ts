@@ -0,0 +1,224 @@
+import { BigNumber, Contract, constants, utils } from "ethers";
+import { ROLES, RoleName, roleName } from "./roles";
+
+// A Token lifecycle call - amounts in decimal units e.g. "1.5", roles by name or id
+export type TokenCall =
+  | { method: "init"; peg: string }
+  | { method: "mint"; to: string; amount: string }
+  | { method: "burn"; amount: string }
+  | { method: "setPeg"; peg: string }
+  | { method: "pause" }
+  | { method: "unpause" }
+  | { method: "grantRole" | "revokeRole"; role: string; account: string };
+
+export interface PreparedTokenCall {
+  method: TokenCall["method"];
+  args: unknown[];
+  // role the sender must hold
+  role: string;
+  // event confirming the call
+  event: string;
+  description: string;
+}
+
+// Roles checked by each Token function - grantRole/revokeRole need the admin of the granted role
+const REQUIRED_ROLE: Record<
+  Exclude<TokenCall["method"], "grantRole" | "revokeRole">,
+  RoleName
+> = {
+  init: "MANAGER_ROLE",
+  mint: "MULTISIG_ROLE",
+  burn: "MULTISIG_ROLE",
+  setPeg: "MULTISIG_ROLE",
+  pause: "MANAGER_ROLE",
+  unpause: "MULTISIG_ROLE"
+};
+
+/**
+ * Role id of a Roles.sol role name, or a bytes32 role id as is
+ */
+export function resolveRole(role: string): string {
+  if (role in ROLES) return ROLES[role as RoleName];
+  if (utils.isHexString(role, 32)) return role;
+  throw new Error(
+    `Unknown role ${role}, expected one of ${Object.keys(ROLES).join(
+      ", "
+    )} or a bytes32 id`
+  );
+}
+
+function nonZeroAddress(value: string, what: string): string {
+  const address = utils.getAddress(value);
+  if (address === constants.AddressZero) {
+    throw new Error(`${what} must not be the zero address`);
+  }
+  return address;
+}
+
+/**
+ * Check `call` against the live Token state and the roles of `from` - throws with the reason the Token would revert
+ * Amounts are parsed with the Token's decimals
+ */
+export async function prepareTokenCall(
+  token: Contract,
+  from: string,
+  call: TokenCall
+): Promise<PreparedTokenCall> {
+  const [decimals, symbol, paused, peg] = await Promise.all([
+    token.decimals(),
+    token.symbol(),
+    token.paused() as Promise<boolean>,
+    token.peg() as Promise<string>
+  ]);
+  const format = (amount: BigNumber) =>
+    `${utils.formatUnits(amount, decimals)} ${symbol}`;
+  const parseAmount = (amount: string) => {
+    const parsed = utils.parseUnits(amount, decimals);
+    if (parsed.lte(0)) throw new Error("Amount must be positive");
+    return parsed;
+  };
+  const requireUnpaused = () => {
+    if (paused)
+      throw new Error(`Token is paused - ${call.method} would revert`);
+  };
+
+  let prepared: PreparedTokenCall;
+  switch (call.method) {
+    case "init": {
+      requireUnpaused();
+      if (peg !== constants.AddressZero) {
+        throw new Error(`Token is already initialized, peg() is ${peg}`);
+      }
+      const newPeg = nonZeroAddress(call.peg, "Peg");
+      const cap: BigNumber = await token.cap();
+      prepared = {
+        method: "init",
+        args: [newPeg],
+        role: ROLES[REQUIRED_ROLE.init],
+        event: "Transfer",
+        description: `Mint the whole supply of ${format(
+          cap
+        )} to the peg ${newPeg}`
+      };
+      break;
+    }
+    case "mint": {
+      requireUnpaused();
+      const to = nonZeroAddress(call.to, "Recipient");
+      if (to === token.address) {
+        throw new Error("The Token can not hold itself - InvalidAddress");
+      }
+      if (to === peg) {
+        throw new Error(
+          `${to} is the peg - UseDepositInsteadOfTransfer, mint to another account`
+        );
+      }
+      const amount = parseAmount(call.amount);
+      const [cap, totalSupply]: BigNumber[] = await Promise.all([
+        token.cap(),
+        token.totalSupply()
+      ]);
+      const headroom = cap.sub(totalSupply);
+      if (amount.gt(headroom)) {
+        throw new Error(
+          `Minting ${format(amount)} exceeds the cap: ${format(
+            headroom
+          )} headroom under ${format(cap)}`
+        );
+      }
+      prepared = {
+        method: "mint",
+        args: [to, amount],
+        role: ROLES[REQUIRED_ROLE.mint],
+        event: "Transfer",
+        description: `Mint ${format(amount)} to ${to} (headroom after: ${format(
+          headroom.sub(amount)
+        )})`
+      };
+      break;
+    }
+    case "burn": {
+      requireUnpaused();
+      const amount = parseAmount(call.amount);
+      const balance: BigNumber = await token.balanceOf(from);
+      if (amount.gt(balance)) {
+        throw new Error(
+          `${from} holds ${format(balance)}, can not burn ${format(amount)}`
+        );
+      }
+      prepared = {
+        method: "burn",
+        args: [amount],
+        role: ROLES[REQUIRED_ROLE.burn],
+        event: "Transfer",
+        description: `Burn ${format(amount)} held by ${from}`
+      };
+      break;
+    }
+    case "setPeg": {
+      const newPeg = nonZeroAddress(call.peg, "Peg");
+      if (newPeg === peg) throw new Error(`${newPeg} is already the peg`);
+      prepared = {
+        method: "setPeg",
+        args: [newPeg],
+        role: ROLES[REQUIRED_ROLE.setPeg],
+        event: "PegChanged",
+        description: `Change the peg from ${peg} to ${newPeg}`
+      };
+      break;
+    }
+    case "pause":
+    case "unpause": {
+      const pause = call.method === "pause";
+      if (paused === pause) {
+        throw new Error(`Token is already ${pause ? "paused" : "unpaused"}`);
+      }
+      prepared = {
+        method: call.method,
+        args: [],
+        role: ROLES[REQUIRED_ROLE[call.method]],
+        event: pause ? "Paused" : "Unpaused",
+        description: pause
+          ? "Pause transfers, mints and burns"
+          : "Resume transfers, mints and burns"
+      };
+      break;
+    }
+    case "grantRole":
+    case "revokeRole": {
+      const role = resolveRole(call.role);
+      const account = nonZeroAddress(call.account, "Account");
+      const grant = call.method === "grantRole";
+      const [adminRole, holds]: [string, boolean] = await Promise.all([
+        token.getRoleAdmin(role),
+        token.hasRole(role, account)
+      ]);
+      if (holds === grant) {
+        throw new Error(
+          `${account} ${grant ? "already holds" : "does not hold"} ${roleName(
+            role
+          )}`
+        );
+      }
+      prepared = {
+        method: call.method,
+        args: [role, account],
+        role: adminRole,
+        event: grant ? "RoleGranted" : "RoleRevoked",
+        description: `${grant ? "Grant" : "Revoke"} ${roleName(role)} ${
+          grant ? "to" : "from"
+        } ${account}`
+      };
+      break;
+    }
+  }
+
+  if (!(await token.hasRole(prepared.role, from))) {
+    throw new Error(
+      `${from} does not hold ${roleName(prepared.role)} on Token ${
+        token.address
+      } - ${call.method} would revert`
+    );
+  }
+  return prepared;
+}
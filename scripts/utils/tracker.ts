@@ -0,0 +1,364 @@
+import { BigNumber, Contract, providers, utils } from "ethers";
+import { decodePayload, pegDepositCodec } from "./codecs";
+import { getChainHead, queryInBatches } from "./events";
+
+// Lifecycle of an Ethereum -> Root deposit
+// - failed: the deposit transaction reverted
+// - pending-confirmations: not mined yet, or fewer than `confirmations` blocks deep
+// - emitted: `SendMessage` is final on Ethereum, Root has not processed it (or no Root lookup is configured)
+// - observed-on-root: Root processed the message and credited the destination
+export type DepositState =
+  | "failed"
+  | "pending-confirmations"
+  | "emitted"
+  | "observed-on-root";
+
+// Lifecycle of a Root -> Ethereum withdrawal
+// - not-received: the Bridge has not verified the eventId yet, i.e. no relayer submitted its proof
+// - failed: a `receiveMessage` transaction for it reverted, e.g. while withdrawals were paused
+// - pending-confirmations: withdrawn, fewer than `confirmations` blocks deep
+// - withdrawn: `Withdraw` is final on Ethereum
+export type WithdrawalState =
+  | "not-received"
+  | "failed"
+  | "pending-confirmations"
+  | "withdrawn";
+
+// Where Root processed an Ethereum message
+export interface RootObservation {
+  blockNumber: number;
+  blockHash?: string;
+  extrinsicHash?: string;
+}
+
+/**
+ * Root-side lookup of Ethereum messages by `SendMessage` messageId
+ */
+export interface RootLookup {
+  findMessage(messageId: string): Promise<RootObservation | undefined>;
+}
+
+/**
+ * Root observations from an HTTP endpoint - `GET <url>/<messageId>` returns a RootObservation, 404 until processed
+ */
+export class HttpRootLookup implements RootLookup {
+  constructor(private readonly url: string) {}
+
+  async findMessage(messageId: string) {
+    try {
+      return (await utils.fetchJson(
+        `${this.url.replace(/\/$/, "")}/${messageId}`
+      )) as RootObservation;
+    } catch (error) {
+      // ethers sets the HTTP status on fetchJson errors
+      const { status } = (error ?? {}) as { status?: unknown };
+      if (status === 404) return undefined;
+      throw error;
+    }
+  }
+}
+
+/**
+ * In-process Root lookup - for local networks and tests, where no Root node processes the messages
+ */
+export class StubRootLookup implements RootLookup {
+  private readonly observed = new Map<string, RootObservation>();
+
+  observe(messageId: string, observation: RootObservation) {
+    this.observed.set(messageId, observation);
+  }
+
+  async findMessage(messageId: string) {
+    return this.observed.get(messageId);
+  }
+}
+
+// uint values as decimal strings, block fields unset until the transaction is mined
+export interface TrackedDeposit {
+  transactionHash: string;
+  blockNumber?: number;
+  confirmations: number;
+  depositor: string;
+  tokenAddress: string;
+  amount: string;
+  destination: string;
+  messageId?: string;
+  state: DepositState;
+  root?: RootObservation;
+}
+
+export interface TrackedWithdrawal {
+  eventId: string;
+  transactionHash?: string;
+  blockNumber?: number;
+  confirmations: number;
+  recipient?: string;
+  tokenAddress?: string;
+  amount?: string;
+  state: WithdrawalState;
+}
+
+interface TrackerOptions {
+  peg: Contract;
+  bridge: Contract;
+  // blocks before a transaction is final
+  confirmations?: number;
+  // first block searched by address/eventId, e.g. the peg deployment block
+  fromBlock?: number;
+}
+
+const sameAddress = (a: string, b: string) =>
+  a.toLowerCase() === b.toLowerCase();
+
+function parseLogs(contract: Contract, logs: providers.Log[]) {
+  return logs
+    .filter((log) => sameAddress(log.address, contract.address))
+    .map((log) => ({ log, event: contract.interface.parseLog(log) }));
+}
+
+const depth = (head: number, blockNumber?: number) =>
+  blockNumber === undefined ? 0 : head - blockNumber + 1;
+
+async function trackDepositTransaction(
+  { peg, bridge, confirmations = 12 }: TrackerOptions,
+  hash: string,
+  root: RootLookup | undefined,
+  head: number
+): Promise<TrackedDeposit[]> {
+  const provider = peg.provider;
+  const tx = await provider.getTransaction(hash);
+  if (!tx) throw new Error(`Transaction ${hash} not found`);
+  const receipt = await provider.getTransactionReceipt(hash);
+
+  if (!receipt || receipt.status === 0) {
+    // nothing emitted - report the requested deposit from the call data
+    if (!tx.to || !sameAddress(tx.to, peg.address)) {
+      throw new Error(`${hash} is not an ERC20Peg deposit`);
+    }
+    const call = peg.interface.parseTransaction({
+      data: tx.data,
+      value: tx.value
+    });
+    if (call.name !== "deposit") {
+      throw new Error(`${hash} calls ERC20Peg.${call.name}, not deposit`);
+    }
+    return [
+      {
+        transactionHash: hash,
+        blockNumber: receipt?.blockNumber,
+        confirmations: depth(head, receipt?.blockNumber),
+        depositor: tx.from,
+        tokenAddress: call.args._tokenAddress,
+        amount: call.args._amount.toString(),
+        destination: call.args._destination,
+        state: receipt ? "failed" : "pending-confirmations"
+      }
+    ];
+  }
+
+  const deposits = parseLogs(peg, receipt.logs).filter(
+    ({ event }) => event.name === "Deposit"
+  );
+  if (deposits.length === 0) {
+    throw new Error(`${hash} emitted no ERC20Peg Deposit`);
+  }
+  const messages = parseLogs(bridge, receipt.logs).filter(
+    ({ event }) =>
+      event.name === "SendMessage" &&
+      sameAddress(event.args.source, peg.address)
+  );
+
+  const tracked: TrackedDeposit[] = [];
+  for (const { log, event } of deposits) {
+    // the peg sends its message right after emitting Deposit
+    const message = messages.find((m) => m.log.logIndex > log.logIndex);
+    const messageId = message?.event.args.messageId.toString();
+    const deposit: TrackedDeposit = {
+      transactionHash: hash,
+      blockNumber: receipt.blockNumber,
+      confirmations: depth(head, receipt.blockNumber),
+      depositor: event.args._address,
+      tokenAddress: event.args.tokenAddress,
+      amount: event.args.amount.toString(),
+      destination: event.args.destination,
+      messageId,
+      state: "pending-confirmations"
+    };
+    if (deposit.confirmations >= confirmations) {
+      deposit.root =
+        root && messageId ? await root.findMessage(messageId) : undefined;
+      deposit.state = deposit.root ? "observed-on-root" : "emitted";
+    }
+    tracked.push(deposit);
+  }
+  return tracked;
+}
+
+/**
+ * Find the deposits of a transaction or depositor and where each is in its lifecycle
+ * Without a Root lookup, final deposits are reported as `emitted`
+ */
+export async function trackDeposits(
+  options: TrackerOptions & {
+    transactionHash?: string;
+    depositor?: string;
+    root?: RootLookup;
+  }
+): Promise<TrackedDeposit[]> {
+  const { peg, transactionHash, depositor, fromBlock = 0, root } = options;
+  const head = await getChainHead(peg.provider);
+  if (transactionHash) {
+    return trackDepositTransaction(options, transactionHash, root, head);
+  }
+  if (!depositor) throw new Error("Pass a deposit transaction or depositor");
+
+  const events = await queryInBatches(
+    peg,
+    peg.filters.Deposit(depositor),
+    fromBlock,
+    head
+  );
+  const tracked: TrackedDeposit[] = [];
+  for (const hash of new Set(events.map((e) => e.transactionHash))) {
+    const deposits = await trackDepositTransaction(options, hash, root, head);
+    tracked.push(
+      ...deposits.filter((d) => sameAddress(d.depositor, depositor))
+    );
+  }
+  return tracked;
+}
+
+async function trackWithdrawalTransaction(
+  { peg, bridge, confirmations = 12 }: TrackerOptions,
+  hash: string,
+  head: number
+): Promise<TrackedWithdrawal[]> {
+  const provider = bridge.provider;
+  const tx = await provider.getTransaction(hash);
+  if (!tx) throw new Error(`Transaction ${hash} not found`);
+  const receipt = await provider.getTransactionReceipt(hash);
+
+  if (!receipt || receipt.status === 0) {
+    if (!tx.to || !sameAddress(tx.to, bridge.address)) {
+      throw new Error(`${hash} is not a Bridge receiveMessage`);
+    }
+    const call = bridge.interface.parseTransaction({
+      data: tx.data,
+      value: tx.value
+    });
+    if (call.name !== "receiveMessage") {
+      throw new Error(`${hash} calls Bridge.${call.name}, not receiveMessage`);
+    }
+    let payload;
+    try {
+      payload = decodePayload(pegDepositCodec, call.args.appMessage);
+    } catch {
+      // not a peg message - only the eventId is known
+    }
+    return [
+      {
+        eventId: BigNumber.from(call.args.proof.eventId).toString(),
+        transactionHash: hash,
+        blockNumber: receipt?.blockNumber,
+        confirmations: depth(head, receipt?.blockNumber),
+        recipient: payload?.destination,
+        tokenAddress: payload?.tokenAddress,
+        amount: payload?.amount,
+        state: receipt ? "failed" : "not-received"
+      }
+    ];
+  }
+
+  const received = parseLogs(bridge, receipt.logs).filter(
+    ({ event }) =>
+      event.name === "MessageReceived" &&
+      sameAddress(event.args.destinate, peg.address)
+  );
+  const withdrawals = parseLogs(peg, receipt.logs).filter(
+    ({ event }) => event.name === "Withdraw"
+  );
+
+  return received.map(({ log, event }) => {
+    // `onMessageReceived` withdraws right after the Bridge emits MessageReceived
+    const withdrawal = withdrawals.find((w) => w.log.logIndex > log.logIndex);
+    const tracked: TrackedWithdrawal = {
+      eventId: event.args.eventId.toString(),
+      transactionHash: hash,
+      blockNumber: receipt.blockNumber,
+      confirmations: depth(head, receipt.blockNumber),
+      recipient: withdrawal?.event.args._address,
+      tokenAddress: withdrawal?.event.args.tokenAddress,
+      amount: withdrawal?.event.args.amount.toString(),
+      state: "pending-confirmations"
+    };
+    if (tracked.confirmations >= confirmations) tracked.state = "withdrawn";
+    return tracked;
+  });
+}
+
+/**
+ * Match Root `eventId`s to the `MessageReceived` and `Withdraw` events of a relay transaction, recipient or eventId
+ */
+export async function trackWithdrawals(
+  options: TrackerOptions & {
+    transactionHash?: string;
+    recipient?: string;
+    eventId?: string;
+  }
+): Promise<TrackedWithdrawal[]> {
+  const {
+    peg,
+    bridge,
+    transactionHash,
+    recipient,
+    eventId,
+    fromBlock = 0
+  } = options;
+  const head = await getChainHead(bridge.provider);
+  if (transactionHash) {
+    return trackWithdrawalTransaction(options, transactionHash, head);
+  }
+
+  if (eventId !== undefined) {
+    const events = await queryInBatches(
+      bridge,
+      bridge.filters.MessageReceived(eventId),
+      fromBlock,
+      head
+    );
+    if (events.length === 0) {
+      if (await bridge.verifiedEventIds(eventId)) {
+        throw new Error(
+          `eventId ${eventId} was received before block ${fromBlock}`
+        );
+      }
+      return [{ eventId, confirmations: 0, state: "not-received" }];
+    }
+    const tracked = await trackWithdrawalTransaction(
+      options,
+      events[0].transactionHash,
+      head
+    );
+    return tracked.filter((w) => w.eventId === eventId);
+  }
+
+  if (!recipient) {
+    throw new Error("Pass a relay transaction, recipient or eventId");
+  }
+  const events = await queryInBatches(
+    peg,
+    peg.filters.Withdraw(recipient),
+    fromBlock,
+    head
+  );
+  const tracked: TrackedWithdrawal[] = [];
+  for (const hash of new Set(events.map((e) => e.transactionHash))) {
+    const withdrawals = await trackWithdrawalTransaction(options, hash, head);
+    tracked.push(
+      ...withdrawals.filter(
+        (w) => w.recipient && sameAddress(w.recipient, recipient)
+      )
+    );
+  }
+  return tracked;
+}
@@ -0,0 +1,296 @@
+import { BigNumber, BigNumberish, Contract, utils } from "ethers";
+import { decodePayload, validatorSetCodec } from "./codecs";
+import { readJsonFile, writeJsonFile } from "./jsonStore";
+
+// Bridge events which (re)define the digest of a validator set
+export type ValidatorSetEvent =
+  | "ForceSetActiveValidators"
+  | "ForceSetHistoricValidators"
+  | "SetValidators";
+
+export interface ValidatorSetEntry {
+  validatorSetId: number;
+  // keccak256(abi.encode(validators)) - as stored in `Bridge.validatorSetDigests`
+  digest: string;
+  // null when the addresses could not be recovered (e.g. the set was submitted through another contract)
+  validators: string[] | null;
+  source: ValidatorSetEvent | "local";
+  blockNumber?: number;
+  transactionHash?: string;
+}
+
+export interface ValidatorSetRegistry {
+  bridge: string;
+  // keyed by validatorSetId
+  sets: Record<string, ValidatorSetEntry>;
+}
+
+export type ValidatorSetUpdate = "active" | "historic";
+
+export interface PreparedValidatorSetUpdate {
+  kind: ValidatorSetUpdate;
+  validatorSetId: number;
+  validators: string[];
+  digest: string;
+  onChainDigest: string;
+  // the on-chain digest already matches - submitting would be a no-op
+  unchanged: boolean;
+}
+
+export function validatorSetDigest(validators: string[]): string {
+  return utils.keccak256(
+    utils.defaultAbiCoder.encode(["address[]"], [validators])
+  );
+}
+
+export function loadRegistry(
+  path: string,
+  bridge: string
+): ValidatorSetRegistry {
+  const registry = readJsonFile<ValidatorSetRegistry>(path, {
+    bridge,
+    sets: {}
+  });
+  if (registry.bridge.toLowerCase() !== bridge.toLowerCase()) {
+    throw new Error(
+      `Registry ${path} belongs to bridge ${registry.bridge}, not ${bridge}`
+    );
+  }
+  return registry;
+}
+
+export function saveRegistry(path: string, registry: ValidatorSetRegistry) {
+  writeJsonFile(path, registry);
+}
+
+export function recordValidatorSet(
+  registry: ValidatorSetRegistry,
+  entry: ValidatorSetEntry
+) {
+  registry.sets[entry.validatorSetId] = entry;
+}
+
+/**
+ * Normalise a validator list - checksummed addresses, in the order given (the digest is order dependent)
+ */
+export function normaliseValidators(validators: string[]): string[] {
+  if (validators.length === 0) throw new Error("Bridge: empty validator set");
+
+  const normalised = validators.map((validator) => {
+    if (!utils.isAddress(validator)) {
+      throw new Error(`Invalid validator address: ${validator}`);
+    }
+    return utils.getAddress(validator);
+  });
+  const duplicate = normalised.find((v, i) => normalised.indexOf(v) !== i);
+  if (duplicate) throw new Error(`Duplicate validator address: ${duplicate}`);
+
+  return normalised;
+}
+
+/**
+ * The revert reason the Bridge would give for a forced validator set update, if any
+ * Mirrors the checks in `forceActiveValidatorSet` and `forceHistoricValidatorSet`
+ */
+export function checkValidatorSetUpdate(
+  kind: ValidatorSetUpdate,
+  validatorSetId: number,
+  validatorCount: number,
+  state: { activeValidatorSetId: number; proofTTL: BigNumberish }
+): string | undefined {
+  if (validatorCount === 0) return "Bridge: empty validator set";
+  if (kind === "active") {
+    if (validatorSetId < state.activeValidatorSetId) {
+      return "Bridge: set is historic";
+    }
+  } else if (
+    BigNumber.from(validatorSetId)
+      .add(state.proofTTL)
+      .lte(state.activeValidatorSetId)
+  ) {
+    return "Bridge: set is inactive";
+  }
+  return undefined;
+}
+
+/**
+ * Validate a forced validator set update against the registry and the live Bridge before it is submitted
+ * Throws if the Bridge would reject it or the ordering conflicts with the registered set for the same id
+ */
+export async function prepareValidatorSetUpdate(
+  bridge: Contract,
+  registry: ValidatorSetRegistry,
+  kind: ValidatorSetUpdate,
+  validatorSetId: number,
+  validators: string[]
+): Promise<PreparedValidatorSetUpdate> {
+  const normalised = normaliseValidators(validators);
+  const [activeValidatorSetId, proofTTL, onChainDigest] = await Promise.all([
+    bridge.activeValidatorSetId(),
+    bridge.proofTTL(),
+    bridge.validatorSetDigests(validatorSetId)
+  ]);
+
+  const reason = checkValidatorSetUpdate(
+    kind,
+    validatorSetId,
+    normalised.length,
+    { activeValidatorSetId, proofTTL }
+  );
+  if (reason) throw new Error(reason);
+
+  const digest = validatorSetDigest(normalised);
+  const registered = registry.sets[validatorSetId];
+  if (registered?.validators && registered.digest !== digest) {
+    const sameMembers =
+      registered.validators.length === normalised.length &&
+      [...registered.validators].sort().join() ===
+        [...normalised].sort().join();
+    if (sameMembers) {
+      throw new Error(
+        `Validator set ${validatorSetId} is registered with the same addresses in a different order - the digest would change`
+      );
+    }
+  }
+
+  return {
+    kind,
+    validatorSetId,
+    validators: normalised,
+    digest,
+    onChainDigest,
+    unchanged: onChainDigest === digest
+  };
+}
+
+/**
+ * Recover the validator addresses for a digest event from the calldata of its transaction
+ * Returns null if the transaction did not call the Bridge directly
+ */
+async function recoverValidators(
+  bridge: Contract,
+  transactionHash: string,
+  digest: string
+): Promise<string[] | null> {
+  const tx = await bridge.provider.getTransaction(transactionHash);
+  if (tx.to?.toLowerCase() !== bridge.address.toLowerCase()) return null;
+
+  let validators: string[];
+  try {
+    const call = bridge.interface.parseTransaction({
+      data: tx.data,
+      value: tx.value
+    });
+    if (
+      call.name === "forceActiveValidatorSet" ||
+      call.name === "forceHistoricValidatorSet"
+    ) {
+      validators = call.args[0];
+    } else if (call.name === "receiveMessage") {
+      ({ validators } = decodePayload(
+        validatorSetCodec,
+        call.args[2] // appMessage
+      ));
+    } else {
+      return null;
+    }
+  } catch {
+    return null;
+  }
+
+  return validatorSetDigest(validators) === digest
+    ? validators.map((v) => utils.getAddress(v))
+    : null;
+}
+
+/**
+ * Rebuild the registry from the Bridge validator set events
+ * Later events for the same validatorSetId replace earlier ones, as they do on-chain
+ */
+export async function rebuildRegistry(
+  bridge: Contract,
+  fromBlock: number = 0,
+  toBlock: number | "latest" = "latest"
+): Promise<ValidatorSetRegistry> {
+  const eventNames: ValidatorSetEvent[] = [
+    "ForceSetActiveValidators",
+    "ForceSetHistoricValidators",
+    "SetValidators"
+  ];
+  const events = (
+    await Promise.all(
+      eventNames.map((name) =>
+        bridge.queryFilter(bridge.filters[name](), fromBlock, toBlock)
+      )
+    )
+  )
+    .flat()
+    .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+
+  const registry: ValidatorSetRegistry = { bridge: bridge.address, sets: {} };
+  for (const event of events) {
+    const { validatorSetDigest: digest, validatorSetId } = event.args!;
+    recordValidatorSet(registry, {
+      validatorSetId,
+      digest,
+      validators: await recoverValidators(
+        bridge,
+        event.transactionHash,
+        digest
+      ),
+      source: event.event as ValidatorSetEvent,
+      blockNumber: event.blockNumber,
+      transactionHash: event.transactionHash
+    });
+  }
+  return registry;
+}
+
+/**
+ * Merge a registry rebuilt by `rebuildRegistry` into the registered one
+ * Recovered sets replace their registered entry. Registered addresses are kept where recovery failed
+ * (e.g. the set was relayed through a multisig) or the set is outside the scanned range,
+ * as long as their digest still matches on-chain - stale entries are dropped
+ */
+export async function mergeRegistry(
+  bridge: Contract,
+  registered: ValidatorSetRegistry,
+  rebuilt: ValidatorSetRegistry
+): Promise<ValidatorSetRegistry> {
+  const stale = new Set(
+    (await findStaleEntries(bridge, registered)).map((e) => e.validatorSetId)
+  );
+  const merged: ValidatorSetRegistry = { bridge: rebuilt.bridge, sets: {} };
+  for (const entry of Object.values(registered.sets)) {
+    if (!stale.has(entry.validatorSetId)) recordValidatorSet(merged, entry);
+  }
+  for (const entry of Object.values(rebuilt.sets)) {
+    const kept = merged.sets[entry.validatorSetId];
+    recordValidatorSet(
+      merged,
+      !entry.validators && kept?.validators && kept.digest === entry.digest
+        ? { ...entry, validators: kept.validators }
+        : entry
+    );
+  }
+  return merged;
+}
+
+/**
+ * Registered sets which no longer match the on-chain digest
+ */
+export async function findStaleEntries(
+  bridge: Contract,
+  registry: ValidatorSetRegistry
+): Promise<ValidatorSetEntry[]> {
+  const stale: ValidatorSetEntry[] = [];
+  for (const entry of Object.values(registry.sets)) {
+    const onChain: string = await bridge.validatorSetDigests(
+      entry.validatorSetId
+    );
+    if (onChain !== entry.digest) {
+      stale.push(entry);
+    }
+  }
+  return stale;
+}
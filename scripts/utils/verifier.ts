@@ -0,0 +1,218 @@
+import { BigNumber, BigNumberish, Contract, constants, utils } from "ethers";
+import { EventProof, acceptanceThreshold, encodeProofPreimage } from "./proof";
+
+// secp256k1n / 2 - ECDSA.tryRecover rejects any `s` above this (malleable signatures)
+const SECP256K1_HALF_N = BigNumber.from(
+  "0x7FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF5D576E7357A4501DDFE92F46681B20A0"
+);
+
+// Snapshot of the Bridge storage read by `receiveMessage` / `_verifyMessage`
+export interface BridgeState {
+  // bridge contract address - `receiveMessage` waives the fee for messages addressed to the bridge itself
+  address?: string;
+  active: boolean;
+  activeValidatorSetId: number;
+  proofTTL: BigNumberish;
+  thresholdPercent: BigNumberish;
+  bridgeFee: BigNumberish;
+  // validatorSetId => keccak256(abi.encode(validators)), missing ids are bytes32(0) as on-chain
+  validatorSetDigests: Record<number, string>;
+  verifiedEventIds: BigNumberish[];
+}
+
+export interface ReceivedMessage {
+  source: string;
+  destination: string;
+  appMessage: utils.BytesLike;
+}
+
+export type VerifyResult = { valid: true } | { valid: false; reason: string };
+
+// Either a snapshot of the on-chain state or a live Bridge contract handle
+export type BridgeStateSource = BridgeState | Contract;
+
+const VALID: VerifyResult = { valid: true };
+const fail = (reason: string): VerifyResult => ({ valid: false, reason });
+
+function isContract(source: BridgeStateSource): source is Contract {
+  return typeof (source as Contract).validatorSetDigests === "function";
+}
+
+/**
+ * Read the Bridge state relevant to verifying `proof`
+ * Only the digest of `proof.validatorSetId` and the `proof.eventId` replay flag are fetched
+ */
+export async function snapshotBridgeState(
+  bridge: Contract,
+  proof: EventProof
+): Promise<BridgeState> {
+  const [
+    active,
+    activeValidatorSetId,
+    proofTTL,
+    thresholdPercent,
+    bridgeFee,
+    digest,
+    replayed
+  ] = await Promise.all([
+    bridge.active(),
+    bridge.activeValidatorSetId(),
+    bridge.proofTTL(),
+    bridge.thresholdPercent(),
+    bridge.bridgeFee(),
+    bridge.validatorSetDigests(proof.validatorSetId),
+    bridge.verifiedEventIds(proof.eventId)
+  ]);
+
+  return {
+    address: bridge.address,
+    active,
+    activeValidatorSetId,
+    proofTTL,
+    thresholdPercent,
+    bridgeFee,
+    validatorSetDigests: { [proof.validatorSetId]: digest },
+    verifiedEventIds: replayed ? [proof.eventId] : []
+  };
+}
+
+async function resolveState(
+  source: BridgeStateSource,
+  proof: EventProof
+): Promise<BridgeState> {
+  return isContract(source) ? snapshotBridgeState(source, proof) : source;
+}
+
+// Mirror of `digest.recover(v, r, s)` (OpenZeppelin ECDSA 4.x) - returns the revert reason on failure
+function recover(
+  digest: string,
+  v: number,
+  r: string,
+  s: string
+): { signer: string } | { reason: string } {
+  if (BigNumber.from(s).gt(SECP256K1_HALF_N)) {
+    return { reason: "ECDSA: invalid signature 's' value" };
+  }
+  // the ecrecover precompile returns address(0) for anything other than v = 27/28
+  if (v !== 27 && v !== 28) {
+    return { reason: "ECDSA: invalid signature" };
+  }
+  try {
+    return { signer: utils.recoverAddress(digest, { v, r, s }) };
+  } catch {
+    return { reason: "ECDSA: invalid signature" };
+  }
+}
+
+/**
+ * Off-chain mirror of `Bridge._verifyMessage`
+ * Runs the checks in contract order and returns the revert reason of the first failing check
+ */
+export function verifyMessageWithState(
+  state: BridgeState,
+  message: ReceivedMessage,
+  proof: EventProof
+): VerifyResult {
+  const eventId = BigNumber.from(proof.eventId);
+  const validatorSetId = proof.validatorSetId;
+  const validators = proof.validators;
+
+  if (!state.active) return fail("Bridge: bridge inactive");
+  if (state.verifiedEventIds.some((id) => eventId.eq(id))) {
+    return fail("Bridge: eventId replayed");
+  }
+  if (validatorSetId > state.activeValidatorSetId) {
+    return fail("Bridge: future validator set");
+  }
+  if (
+    BigNumber.from(state.activeValidatorSetId - validatorSetId).gt(
+      state.proofTTL
+    )
+  ) {
+    return fail("Bridge: expired proof");
+  }
+  if (validators.length === 0) return fail("Bridge: invalid validator set");
+
+  const expectedDigest =
+    state.validatorSetDigests[validatorSetId] ?? constants.HashZero;
+  const digest = utils.keccak256(
+    utils.defaultAbiCoder.encode(["address[]"], [validators])
+  );
+  if (digest !== expectedDigest.toLowerCase()) {
+    return fail("Bridge: unexpected validator digest");
+  }
+
+  const messageDigest = utils.keccak256(
+    encodeProofPreimage({
+      ...message,
+      validatorSetId,
+      eventId
+    })
+  );
+  const threshold = acceptanceThreshold(
+    validators.length,
+    state.thresholdPercent
+  );
+  let witnessCount = 0;
+
+  for (let i = 0; i < validators.length; ++i) {
+    const [v, r, s] = [proof.v[i], proof.r[i], proof.s[i]];
+    // calldata array access out of bounds panics rather than reverting with a reason
+    if (r === undefined) return fail("Panic(0x32)");
+    if (BigNumber.from(r).isZero()) continue;
+    if (v === undefined || s === undefined) return fail("Panic(0x32)");
+
+    const recovered = recover(messageDigest, v, r, s);
+    if ("reason" in recovered) return fail(recovered.reason);
+    if (recovered.signer.toLowerCase() !== validators[i].toLowerCase()) {
+      return fail("Bridge: signature invalid");
+    }
+    witnessCount += 1;
+    if (witnessCount >= threshold) break;
+  }
+
+  if (witnessCount < threshold) return fail("Bridge: not enough signatures");
+
+  return VALID;
+}
+
+/**
+ * Dry run `Bridge._verifyMessage` against a state snapshot or a live Bridge contract
+ */
+export async function verifyMessage(
+  source: BridgeStateSource,
+  message: ReceivedMessage,
+  proof: EventProof
+): Promise<VerifyResult> {
+  return verifyMessageWithState(
+    await resolveState(source, proof),
+    message,
+    proof
+  );
+}
+
+/**
+ * Dry run `Bridge.receiveMessage` up to (and including) `_verifyMessage`
+ * i.e. also checks the supplied `value` covers `bridgeFee` and the message is not empty
+ * Note: the destination `onMessageReceived` call is not simulated
+ */
+export async function verifyReceiveMessage(
+  source: BridgeStateSource,
+  message: ReceivedMessage,
+  proof: EventProof,
+  value: BigNumberish
+): Promise<VerifyResult> {
+  const state = await resolveState(source, proof);
+  const toBridge =
+    state.address !== undefined &&
+    state.address.toLowerCase() === message.destination.toLowerCase();
+
+  if (BigNumber.from(value).lt(state.bridgeFee) && !toBridge) {
+    return fail("Bridge: must supply bridge fee");
+  }
+  if (utils.arrayify(message.appMessage).length === 0) {
+    return fail("Bridge: empty message");
+  }
+
+  return verifyMessageWithState(state, message, proof);
+}
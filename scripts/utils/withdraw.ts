@@ -0,0 +1,256 @@
+import { BigNumber, Contract, ContractReceipt, Signer, utils } from "ethers";
+import { PegDepositPayload, decodePayload, pegDepositCodec } from "./codecs";
+import { ERC20_ABI, isEth } from "./deposit";
+import { errorReason } from "./errors";
+import {
+  SignedMessage,
+  SignedMessageJson,
+  parseSignedMessage
+} from "./relayer";
+import {
+  BridgeState,
+  snapshotBridgeState,
+  verifyReceiveMessage
+} from "./verifier";
+
+export interface WithdrawalClaim {
+  eventId: BigNumber;
+  tokenAddress: string;
+  symbol: string;
+  decimals: number;
+  amount: BigNumber;
+  recipient: string;
+  // msg.value of the claim - `receiveMessage` requires the bridge fee
+  bridgeFee: BigNumber;
+  message: SignedMessage;
+  // why the claim would fail, empty if the dry run passed
+  problems: string[];
+}
+
+export interface WithdrawalResult {
+  transactionHash: string;
+  blockNumber: number;
+  eventId: BigNumber;
+  recipient: string;
+  tokenAddress: string;
+  amount: BigNumber;
+}
+
+/**
+ * Parse a proof blob - a signed message as served to the relayer, or an array holding exactly one
+ */
+export function parseWithdrawalProof(json: string): SignedMessage {
+  let raw: unknown = JSON.parse(json);
+  if (Array.isArray(raw)) {
+    if (raw.length !== 1) {
+      throw new Error(`Expected one signed message, got ${raw.length}`);
+    }
+    raw = raw[0];
+  }
+  const fields: Partial<SignedMessageJson> =
+    typeof raw === "object" && raw !== null ? raw : {};
+  for (const field of [
+    "source",
+    "destination",
+    "appMessage",
+    "proof"
+  ] as const) {
+    if (fields[field] === undefined) {
+      throw new Error(`Proof JSON is missing ${field}`);
+    }
+  }
+  return parseSignedMessage(fields as SignedMessageJson);
+}
+
+const sameAddress = (a: string, b: string) =>
+  a.toLowerCase() === b.toLowerCase();
+
+// Bridge revert reasons in terms of the claim
+function explainBridgeFailure(
+  reason: string,
+  state: BridgeState,
+  message: SignedMessage
+): string {
+  const { validatorSetId } = message.proof;
+  switch (reason) {
+    case "Bridge: bridge inactive":
+      return "the Bridge is paused - no messages are accepted";
+    case "Bridge: eventId replayed":
+      return `eventId ${BigNumber.from(
+        message.proof.eventId
+      ).toString()} was already claimed`;
+    case "Bridge: future validator set":
+      return `the proof is signed by validator set ${validatorSetId}, the Bridge only knows sets up to ${state.activeValidatorSetId} - wait for the validator set update to be relayed`;
+    case "Bridge: expired proof":
+      return `the proof has expired - validator set ${validatorSetId} is more than proofTTL (${state.proofTTL.toString()}) sets behind the active set ${
+        state.activeValidatorSetId
+      }, request a new proof from Root`;
+    case "Bridge: unexpected validator digest":
+      return `the proof's validators are not validator set ${validatorSetId} registered on the Bridge`;
+    case "Bridge: signature invalid":
+      return "a signature in the proof does not match its validator - the proof or message was altered";
+    case "Bridge: not enough signatures":
+      return "the proof does not carry enough validator signatures yet";
+    default:
+      return reason;
+  }
+}
+
+/**
+ * Decode a withdrawal proof and dry run the claim against the live Bridge and ERC20Peg
+ * Every reason the claim would fail is collected in `problems`, the transaction is only simulated once none is found
+ */
+export async function prepareWithdrawalClaim(
+  peg: Contract,
+  bridge: Contract,
+  claimer: Signer,
+  message: SignedMessage
+): Promise<WithdrawalClaim> {
+  if (!sameAddress(message.destination, peg.address)) {
+    throw new Error(
+      `The message is addressed to ${message.destination}, not the ERC20Peg ${peg.address}`
+    );
+  }
+  let payload: PegDepositPayload;
+  try {
+    payload = decodePayload(pegDepositCodec, message.appMessage);
+  } catch (error) {
+    throw new Error(`Not an ERC20Peg withdrawal: ${errorReason(error)}`);
+  }
+
+  const eth = isEth(payload.tokenAddress);
+  const token = eth
+    ? undefined
+    : new Contract(payload.tokenAddress, ERC20_ABI, peg.provider);
+  const [decimals, symbol] = token
+    ? await Promise.all([token.decimals(), token.symbol()])
+    : [18, "ETH"];
+  const amount = BigNumber.from(payload.amount);
+  const format = (value: BigNumber) =>
+    `${utils.formatUnits(value, decimals)} ${symbol}`;
+
+  const problems: string[] = [];
+  const [state, palletAddress, withdrawalsActive, pegBalance] =
+    await Promise.all([
+      snapshotBridgeState(bridge, message.proof),
+      peg.palletAddress(),
+      peg.withdrawalsActive(),
+      token
+        ? token.balanceOf(peg.address)
+        : peg.provider.getBalance(peg.address)
+    ]);
+  const bridgeFee = BigNumber.from(state.bridgeFee);
+
+  const verified = await verifyReceiveMessage(
+    state,
+    message,
+    message.proof,
+    bridgeFee
+  );
+  if (!verified.valid) {
+    problems.push(explainBridgeFailure(verified.reason, state, message));
+  }
+  if (!sameAddress(message.source, palletAddress)) {
+    problems.push(
+      `the message comes from ${message.source}, the ERC20Peg only accepts its pallet ${palletAddress}`
+    );
+  }
+  if (!withdrawalsActive) {
+    problems.push("ERC20Peg withdrawals are paused");
+  }
+  if (pegBalance.lt(amount)) {
+    problems.push(
+      `the ERC20Peg holds ${format(pegBalance)}, the withdrawal needs ${format(
+        amount
+      )}`
+    );
+  }
+  const claimerBalance = await claimer.getBalance();
+  if (claimerBalance.lt(bridgeFee)) {
+    problems.push(
+      `the claimer holds ${utils.formatEther(
+        claimerBalance
+      )} ETH, the bridge fee is ${utils.formatEther(bridgeFee)} ETH`
+    );
+  }
+
+  // anything the checks above do not cover, e.g. a token refusing the transfer
+  if (problems.length === 0) {
+    try {
+      await bridge
+        .connect(claimer)
+        .callStatic.receiveMessage(
+          message.source,
+          message.destination,
+          message.appMessage,
+          message.proof,
+          { value: bridgeFee }
+        );
+    } catch (error) {
+      problems.push(`receiveMessage would revert: ${errorReason(error)}`);
+    }
+  }
+
+  return {
+    eventId: BigNumber.from(message.proof.eventId),
+    tokenAddress: utils.getAddress(payload.tokenAddress),
+    symbol,
+    decimals,
+    amount,
+    recipient: utils.getAddress(payload.destination),
+    bridgeFee,
+    message,
+    problems
+  };
+}
+
+/**
+ * Extract the peg `Withdraw` event from a claim receipt
+ */
+export function parseWithdrawalReceipt(
+  peg: Contract,
+  claim: WithdrawalClaim,
+  receipt: ContractReceipt
+): WithdrawalResult {
+  const withdraw = receipt.logs
+    .filter((log) => sameAddress(log.address, peg.address))
+    .map((log) => peg.interface.parseLog(log))
+    .find((event) => event.name === "Withdraw");
+  if (!withdraw) {
+    throw new Error(`${receipt.transactionHash} did not emit Withdraw`);
+  }
+  return {
+    transactionHash: receipt.transactionHash,
+    blockNumber: receipt.blockNumber,
+    eventId: claim.eventId,
+    recipient: withdraw.args._address,
+    tokenAddress: withdraw.args.tokenAddress,
+    amount: withdraw.args.amount
+  };
+}
+
+/**
+ * Submit a prepared claim with the bridge fee and wait for its `Withdraw` event
+ * Throws without sending if the dry run found problems
+ */
+export async function sendWithdrawalClaim(
+  peg: Contract,
+  bridge: Contract,
+  claimer: Signer,
+  claim: WithdrawalClaim
+): Promise<WithdrawalResult> {
+  if (claim.problems.length > 0) {
+    throw new Error(`Claim would fail: ${claim.problems.join("; ")}`);
+  }
+  const { message } = claim;
+  const tx = await bridge
+    .connect(claimer)
+    .receiveMessage(
+      message.source,
+      message.destination,
+      message.appMessage,
+      message.proof,
+      { value: claim.bridgeFee }
+    );
+  return parseWithdrawalReceipt(peg, claim, await tx.wait());
+}
@@ -0,0 +1,411 @@
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { BigNumber, Contract, utils } from "ethers";
+import { getContractAddress } from "../scripts/utils/addresses";
+import { enforcedSendMessageFee } from "../scripts/utils/fees";
+import { readJsonFile } from "../scripts/utils/jsonStore";
+import {
+  TrafficAssumptions,
+  projectEconomics,
+  readBridgeEconomics
+} from "../scripts/utils/rewards";
+import { confirm, waitForEvent } from "./utils";
+
+// Bridge owner (admin) tasks
+// e.g. `npx hardhat bridge:set-bridge-fee --network sepolia --value 0.005`
+// The bridge address defaults to <NETWORK>_BRIDGE_ADDRESS, the first configured account must be the Bridge owner
+
+interface BridgeTaskArgs {
+  bridge?: string;
+  yes: boolean;
+}
+
+export async function getBridge(
+  hre: HardhatRuntimeEnvironment,
+  address?: string
+): Promise<Contract> {
+  const [signer] = await hre.ethers.getSigners();
+  return hre.ethers.getContractAt(
+    "Bridge",
+    getContractAddress(hre.network.name, "BRIDGE", address),
+    signer
+  );
+}
+
+async function getOwnedBridge(
+  hre: HardhatRuntimeEnvironment,
+  address?: string
+): Promise<Contract> {
+  const bridge = await getBridge(hre, address);
+  const [owner, signer] = await Promise.all([
+    bridge.owner(),
+    bridge.signer.getAddress()
+  ]);
+  if (owner !== signer) {
+    throw new Error(
+      `Signer ${signer} is not the Bridge owner (${owner}) on ${hre.network.name}`
+    );
+  }
+  console.log(`Bridge ${bridge.address} on ${hre.network.name}`);
+  return bridge;
+}
+
+const ether = {
+  parse: (value: string) => utils.parseEther(value),
+  format: (value: BigNumber) => `${utils.formatEther(value)} ETH`
+};
+
+const integer = {
+  parse: (value: string) => BigNumber.from(value),
+  format: (value: BigNumber) => value.toString()
+};
+
+function parseBool(value: string) {
+  if (value !== "true" && value !== "false") {
+    throw new Error(`Expected true or false, got ${value}`);
+  }
+  return value === "true";
+}
+
+interface SetterTask<T> {
+  name: string;
+  description: string;
+  method: string;
+  event: string;
+  // reads the current on-chain value, undefined where the contract has no getter
+  current?: (bridge: Contract) => Promise<T>;
+  parse: (value: string) => T;
+  format: (value: T) => string;
+}
+
+function bridgeSetterTask<T>({
+  name,
+  description,
+  method,
+  event,
+  current,
+  parse,
+  format
+}: SetterTask<T>) {
+  task(name, description)
+    .addParam("value", "The new value")
+    .addOptionalParam("bridge", "Bridge address", undefined, types.string)
+    .addFlag("yes", "Skip the confirmation prompt")
+    .setAction(
+      async (
+        args: BridgeTaskArgs & { value: string },
+        hre: HardhatRuntimeEnvironment
+      ) => {
+        const bridge = await getOwnedBridge(hre, args.bridge);
+        const value = parse(args.value);
+
+        console.log(
+          `Current: ${current ? format(await current(bridge)) : "unknown"}`
+        );
+        console.log(`New:     ${format(value)}`);
+        if (!(await confirm(`Send ${method}?`, args.yes))) {
+          console.log("Aborted");
+          return;
+        }
+
+        const updated = await waitForEvent(
+          await bridge[method](value),
+          bridge,
+          event
+        );
+        console.log(`${event}: ${format(updated.args![0])}`);
+      }
+    );
+}
+
+bridgeSetterTask({
+  name: "bridge:set-active",
+  description: "Activate/deactivate the bridge (true|false)",
+  method: "setActive",
+  event: "BridgeActiveUpdated",
+  current: (bridge) => bridge.active(),
+  parse: parseBool,
+  format: (active: boolean) => (active ? "active" : "inactive")
+});
+
+bridgeSetterTask({
+  name: "bridge:set-bridge-fee",
+  description: "Set the message verification fee (in ETH)",
+  method: "setBridgeFee",
+  event: "BridgeFeeUpdated",
+  current: (bridge) => bridge.bridgeFee(),
+  ...ether
+});
+
+bridgeSetterTask({
+  name: "bridge:set-threshold",
+  description: "Set the validator acceptance threshold (percent, <= 100)",
+  method: "setThreshold",
+  event: "ThresholdUpdated",
+  current: (bridge) => bridge.thresholdPercent(),
+  parse: (value) => {
+    const percent = BigNumber.from(value);
+    if (percent.gt(100)) throw new Error("Bridge: percent must be <= 100");
+    return percent;
+  },
+  format: (value) => `${value.toString()}%`
+});
+
+bridgeSetterTask({
+  name: "bridge:set-proof-ttl",
+  description: "Set the number of eras before a proof expires",
+  method: "setProofTTL",
+  event: "ProofTTLUpdated",
+  current: (bridge) => bridge.proofTTL(),
+  ...integer
+});
+
+bridgeSetterTask({
+  name: "bridge:set-max-reward-payout",
+  description: "Set the max reward paid for validator set updates (in ETH)",
+  method: "setMaxRewardPayout",
+  event: "MaxRewardPayoutUpdated",
+  current: (bridge) => bridge.maxRewardPayout(),
+  ...ether
+});
+
+bridgeSetterTask({
+  name: "bridge:set-pallet-address",
+  description: "Set the paired Root bridge pallet address",
+  method: "setPalletAddress",
+  event: "PalletAddressUpdated",
+  current: (bridge) => bridge.palletAddress(),
+  parse: (value) => utils.getAddress(value),
+  format: (value) => value
+});
+
+bridgeSetterTask({
+  name: "bridge:set-max-message-length",
+  description: "Set the max outgoing message length (in bytes)",
+  method: "setMaxMessageLength",
+  event: "MaxMessageLengthUpdated",
+  current: (bridge) => bridge.maxMessageLength(),
+  ...integer
+});
+
+bridgeSetterTask({
+  name: "bridge:set-send-message-fee",
+  description: "Set the fee required by sendMessage (in ETH)",
+  method: "setSendMessageFee",
+  event: "SendMessageFeeUpdated",
+  // `sendMessageFee()` returns the separate `messageFee` value, not the enforced `_sendMessageFee`
+  current: enforcedSendMessageFee,
+  ...ether
+});
+
+bridgeSetterTask({
+  name: "bridge:set-sent-event-id",
+  description: "Set the id of the next outgoing message",
+  method: "setSentEventId",
+  event: "SentEventIdUpdated",
+  current: (bridge) => bridge.sentEventId(),
+  ...integer
+});
+
+task("bridge:withdraw-all", "Withdraw the entire bridge ether balance")
+  .addParam("to", "Recipient address")
+  .addOptionalParam("bridge", "Bridge address", undefined, types.string)
+  .addFlag(
+    "force",
+    "Withdraw even though accumulated message fees would be left unbacked"
+  )
+  .addFlag("yes", "Skip the confirmation prompt")
+  .setAction(
+    async (
+      args: BridgeTaskArgs & { to: string; force: boolean },
+      hre: HardhatRuntimeEnvironment
+    ) => {
+      const bridge = await getOwnedBridge(hre, args.bridge);
+      const to = utils.getAddress(args.to);
+      const [balance, accumulatedMessageFees]: BigNumber[] = await Promise.all([
+        hre.ethers.provider.getBalance(bridge.address),
+        bridge.accumulatedMessageFees()
+      ]);
+
+      console.log(`Current balance:          ${ether.format(balance)}`);
+      console.log(
+        `Accumulated message fees: ${ether.format(accumulatedMessageFees)}`
+      );
+      console.log(
+        `New balance:              ${ether.format(BigNumber.from(0))}`
+      );
+      // withdrawAll does not reset accumulatedMessageFees, so `_setValidators` would underflow on
+      // `balance - accumulatedMessageFees` and revert every validator rotation
+      if (!accumulatedMessageFees.isZero()) {
+        const warning = `withdrawAll leaves accumulatedMessageFees at ${ether.format(
+          accumulatedMessageFees
+        )} - validator set updates revert until the bridge holds at least that much again`;
+        if (!args.force) {
+          throw new Error(
+            `${warning}. Run bridge:withdraw-msg-fees first, or pass --force`
+          );
+        }
+        console.warn(`Warning: ${warning}`);
+      }
+      if (!(await confirm(`Withdraw all to ${to}?`, args.yes))) {
+        console.log("Aborted");
+        return;
+      }
+
+      const withdrawn = await waitForEvent(
+        await bridge.withdrawAll(to),
+        bridge,
+        "EtherWithdrawn"
+      );
+      console.log(
+        `EtherWithdrawn: ${ether.format(withdrawn.args!._amount)} to ${
+          withdrawn.args!._to
+        }`
+      );
+    }
+  );
+
+task("bridge:withdraw-msg-fees", "Withdraw accumulated message fees")
+  .addParam("to", "Recipient address")
+  .addOptionalParam(
+    "amount",
+    "Amount in ETH (defaults to all accumulated fees)",
+    undefined,
+    types.string
+  )
+  .addOptionalParam("bridge", "Bridge address", undefined, types.string)
+  .addFlag("yes", "Skip the confirmation prompt")
+  .setAction(
+    async (
+      args: BridgeTaskArgs & { to: string; amount?: string },
+      hre: HardhatRuntimeEnvironment
+    ) => {
+      const bridge = await getOwnedBridge(hre, args.bridge);
+      const to = utils.getAddress(args.to);
+      const accumulated: BigNumber = await bridge.accumulatedMessageFees();
+      const amount = args.amount ? ether.parse(args.amount) : accumulated;
+      if (amount.gt(accumulated)) {
+        throw new Error(
+          `Amount exceeds accumulated message fees (${ether.format(
+            accumulated
+          )})`
+        );
+      }
+
+      console.log(`Current accumulated fees: ${ether.format(accumulated)}`);
+      console.log(
+        `New accumulated fees:     ${ether.format(accumulated.sub(amount))}`
+      );
+      if (
+        !(await confirm(`Withdraw ${ether.format(amount)} to ${to}?`, args.yes))
+      ) {
+        console.log("Aborted");
+        return;
+      }
+
+      const withdrawn = await waitForEvent(
+        await bridge.withdrawMsgFees(to, amount),
+        bridge,
+        "WithdrawnMessageFees"
+      );
+      console.log(
+        `WithdrawnMessageFees: ${ether.format(withdrawn.args!.amount)} to ${
+          withdrawn.args!.recipient
+        }`
+      );
+    }
+  );
+
+task(
+  "bridge:simulate-rewards",
+  "Project the bridge balance and validator set rotation rewards under traffic assumptions"
+)
+  .addParam(
+    "traffic",
+    "JSON file: { periods, messagesSent, messagesReceived, rotationInterval, endowments?, targetReward? } (amounts in wei)"
+  )
+  .addOptionalParam(
+    "bridgeFee",
+    "Bridge fee in ETH (defaults to the live value)",
+    undefined,
+    types.string
+  )
+  .addOptionalParam(
+    "maxRewardPayout",
+    "Max reward payout in ETH (defaults to the live value)",
+    undefined,
+    types.string
+  )
+  .addOptionalParam("bridge", "Bridge address", undefined, types.string)
+  .addFlag("json", "Print the projection as JSON")
+  .setAction(
+    async (
+      args: {
+        traffic: string;
+        bridgeFee?: string;
+        maxRewardPayout?: string;
+        bridge?: string;
+        json: boolean;
+      },
+      hre: HardhatRuntimeEnvironment
+    ) => {
+      const traffic = readJsonFile<TrafficAssumptions | undefined>(
+        args.traffic,
+        undefined
+      );
+      if (!traffic) throw new Error(`Missing traffic file ${args.traffic}`);
+
+      const economics = await readBridgeEconomics(
+        await getBridge(hre, args.bridge)
+      );
+      if (args.bridgeFee) economics.bridgeFee = ether.parse(args.bridgeFee);
+      if (args.maxRewardPayout) {
+        economics.maxRewardPayout = ether.parse(args.maxRewardPayout);
+      }
+      const projection = projectEconomics(economics, traffic);
+
+      if (args.json) {
+        // BigNumbers serialize as { type, hex } - print wei strings instead
+        console.log(
+          JSON.stringify(
+            projection,
+            (_, value) =>
+              value?.type === "BigNumber"
+                ? BigNumber.from(value.hex).toString()
+                : value,
+            2
+          )
+        );
+      } else {
+        console.table(
+          projection.periods.map((p) => ({
+            period: p.period,
+            balance: utils.formatEther(p.balance),
+            messageFees: utils.formatEther(p.accumulatedMessageFees),
+            rewardPool: utils.formatEther(p.rewardPool),
+            reward: p.rotation
+              ? p.rotation.reverts
+                ? "reverts"
+                : utils.formatEther(p.rotation.reward)
+              : ""
+          }))
+        );
+        console.log(`Total rewards: ${ether.format(projection.totalRewards)}`);
+      }
+
+      if (projection.endowments.length > 0) {
+        // the JSON output already carries the recommendation
+        if (!args.json) {
+          console.log(
+            `Underfunded rotations in periods ${projection.underfundedRotations.join(
+              ", "
+            )}, endow:`
+          );
+          for (const { period, amount } of projection.endowments) {
+            console.log(`  period ${period}: ${ether.format(amount)}`);
+          }
+        }
+        process.exitCode = 1;
+      }
+    }
+  );
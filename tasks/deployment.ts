@@ -0,0 +1,60 @@
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { getContractAddress } from "../scripts/utils/addresses";
+import {
+  checkDeployment,
+  deploymentConfigPath,
+  formatInvariantTable,
+  loadDeploymentConfig
+} from "../scripts/utils/invariants";
+
+// Post-deployment checks
+// e.g. `npx hardhat verify-deployment --network sepolia` - must pass on Sepolia and Porcini before a release
+
+task(
+  "verify-deployment",
+  "Check the Token/ERC20Peg/Bridge wiring and roles against config/<network>.json"
+)
+  .addOptionalParam(
+    "expected",
+    "Expected deployment config file",
+    undefined,
+    types.string
+  )
+  .setAction(
+    async (args: { expected?: string }, hre: HardhatRuntimeEnvironment) => {
+      const path = args.expected ?? deploymentConfigPath(hre.network.name);
+      const config = loadDeploymentConfig(path);
+      const { ethers, network } = hre;
+
+      const [bridge, peg, token] = await Promise.all([
+        ethers.getContractAt(
+          "Bridge",
+          getContractAddress(network.name, "BRIDGE", config.bridge)
+        ),
+        ethers.getContractAt(
+          "ERC20Peg",
+          getContractAddress(network.name, "PEG", config.peg)
+        ),
+        ethers.getContractAt(
+          "Token",
+          getContractAddress(network.name, "TOKEN", config.token)
+        )
+      ]);
+      console.log(`Deployment on ${network.name} (${path}):`);
+      console.log(`  Bridge:   ${bridge.address}`);
+      console.log(`  ERC20Peg: ${peg.address}`);
+      console.log(`  Token:    ${token.address}\n`);
+
+      const results = await checkDeployment({ bridge, peg, token }, config);
+      console.log(formatInvariantTable(results));
+
+      const failed = results.filter((r) => !r.pass).length;
+      console.log(
+        failed === 0
+          ? `\nAll ${results.length} invariants passed`
+          : `\n${failed} of ${results.length} invariants failed`
+      );
+      if (failed > 0) process.exitCode = 1;
+    }
+  );
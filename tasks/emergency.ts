@@ -0,0 +1,170 @@
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { Contract } from "ethers";
+import { existsSync } from "fs";
+import { join } from "path";
+import { ContractName, getContractAddress } from "../scripts/utils/addresses";
+import {
+  EmergencyAction,
+  EmergencyContract,
+  executeEmergencyPlan,
+  planEmergency,
+  readEmergencyStatus,
+  unconfirmedSteps
+} from "../scripts/utils/emergency";
+import {
+  deploymentConfigPath,
+  loadDeploymentConfig
+} from "../scripts/utils/invariants";
+import { writeJsonFile } from "../scripts/utils/jsonStore";
+import { buildSafeBatch } from "../scripts/utils/safe";
+import { confirm } from "./utils";
+
+// Incident runbook - halt/resume the Bridge, ERC20Peg and Token in one command
+// Each call is sent by the configured account holding its authority, calls for a multisig are written as Safe batches
+
+const CONTRACTS: Record<EmergencyContract, ContractName> = {
+  Bridge: "BRIDGE",
+  ERC20Peg: "PEG",
+  Token: "TOKEN"
+};
+
+async function getContracts(hre: HardhatRuntimeEnvironment) {
+  const path = deploymentConfigPath(hre.network.name);
+  const config = existsSync(path) ? loadDeploymentConfig(path) : undefined;
+  const configured: Record<EmergencyContract, string | undefined> = {
+    Bridge: config?.bridge,
+    ERC20Peg: config?.peg,
+    Token: config?.token
+  };
+  const contracts = {} as Record<EmergencyContract, Contract>;
+  for (const [name, contract] of Object.entries(CONTRACTS)) {
+    const key = name as EmergencyContract;
+    contracts[key] = await hre.ethers.getContractAt(
+      name,
+      getContractAddress(hre.network.name, contract, configured[key])
+    );
+  }
+  const roleHolders = [
+    ...(config?.roles.MANAGER_ROLE ?? []),
+    ...(config?.roles.MULTISIG_ROLE ?? [])
+  ];
+  return { contracts, roleHolders };
+}
+
+task(
+  "emergency:status",
+  "Show whether the bridge, peg and Token are live or halted"
+).setAction(async (_, hre: HardhatRuntimeEnvironment) => {
+  const { contracts } = await getContracts(hre);
+  const status = await readEmergencyStatus(contracts);
+  console.table(status);
+
+  const halt = planEmergency("halt", status).length;
+  const resume = planEmergency("resume", status).length;
+  console.log(
+    halt === 0 ? "HALTED" : resume === 0 ? "LIVE" : "PARTIALLY HALTED"
+  );
+});
+
+function emergencyTask(action: EmergencyAction, description: string) {
+  task(`emergency:${action}`, description)
+    .addOptionalParam(
+      "outDir",
+      "Directory for the Safe batches of multisig-held calls",
+      "emergency",
+      types.string
+    )
+    .addFlag("yes", "Skip the confirmation prompt")
+    .setAction(
+      async (
+        args: { outDir: string; yes: boolean },
+        hre: HardhatRuntimeEnvironment
+      ) => {
+        const { contracts, roleHolders } = await getContracts(hre);
+        const before = await readEmergencyStatus(contracts);
+        console.table(before);
+
+        const steps = planEmergency(action, before);
+        if (steps.length === 0) {
+          console.log(`Nothing to ${action}`);
+          return;
+        }
+        for (const step of steps) {
+          console.log(
+            `- ${step.contract}.${step.method}(${step.args.join(", ")}) as ${
+              step.authority
+            }`
+          );
+        }
+        if (!(await confirm(`${action} ${hre.network.name}?`, args.yes))) {
+          console.log("Aborted");
+          return;
+        }
+
+        const result = await executeEmergencyPlan({
+          action,
+          contracts,
+          steps,
+          signers: await hre.ethers.getSigners(),
+          roleHolders,
+          provider: hre.ethers.provider
+        });
+
+        const { chainId } = await hre.ethers.provider.getNetwork();
+        for (const [safe, safeSteps] of Object.entries(result.multisig)) {
+          const path = join(
+            args.outDir,
+            `${hre.network.name}-${action}-${safe}.json`
+          );
+          writeJsonFile(
+            path,
+            buildSafeBatch({
+              chainId,
+              safe,
+              calls: safeSteps.map((step) => ({
+                contract: contracts[step.contract],
+                method: step.method,
+                args: step.args
+              })),
+              name: `Emergency ${action}`,
+              description: `emergency:${action} on ${hre.network.name}`
+            })
+          );
+          console.log(`Safe batch for ${safe} written to ${path}`);
+        }
+
+        const after = await readEmergencyStatus(contracts);
+        console.table(after);
+        const unconfirmed = unconfirmedSteps(result, after);
+        for (const step of unconfirmed) {
+          console.log(
+            `${step.contract}.${step.method} did not take effect: ${
+              step.field
+            } is ${after[step.field]}`
+          );
+        }
+        if (Object.keys(result.multisig).length > 0) {
+          console.log(
+            `Incomplete: sign the Safe batches${
+              result.deferred.length > 0
+                ? `, then re-run emergency:${action}`
+                : ""
+            }`
+          );
+        }
+        if (unconfirmed.length > 0 || Object.keys(result.multisig).length > 0) {
+          process.exitCode = 1;
+        }
+      }
+    );
+}
+
+emergencyTask(
+  "halt",
+  "Deactivate the Bridge, pause ERC20Peg withdrawals and deposits, then pause the Token"
+);
+emergencyTask(
+  "resume",
+  "Unpause the Token, resume ERC20Peg deposits and withdrawals, then reactivate the Bridge"
+);
@@ -0,0 +1,57 @@
+import { task } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { ContractName, getContractAddress } from "../scripts/utils/addresses";
+import {
+  KnownContract,
+  explainTransaction,
+  formatExplanation
+} from "../scripts/utils/explain";
+
+// Transaction explainer - decodes a Bridge/ERC20Peg/Token transaction instead of reading it on a block explorer
+
+const CONTRACTS: [string, ContractName][] = [
+  ["Bridge", "BRIDGE"],
+  ["ERC20Peg", "PEG"],
+  ["Token", "TOKEN"]
+];
+
+async function knownContracts(
+  hre: HardhatRuntimeEnvironment
+): Promise<KnownContract[]> {
+  return Promise.all(
+    CONTRACTS.map(async ([name, contract]) => {
+      let address: string | undefined;
+      try {
+        address = getContractAddress(hre.network.name, contract);
+      } catch {
+        // not deployed on this network - events are still decoded, without the contract name
+      }
+      const { interface: iface } = await hre.ethers.getContractFactory(name);
+      return { name, address, interface: iface };
+    })
+  );
+}
+
+task(
+  "explain",
+  "Decode a transaction's call, events, nested bridge messages and revert reason"
+)
+  .addPositionalParam("txHash", "Transaction hash")
+  .addFlag("json", "Print the explanation as JSON")
+  .setAction(
+    async (
+      args: { txHash: string; json: boolean },
+      hre: HardhatRuntimeEnvironment
+    ) => {
+      const explanation = await explainTransaction(
+        hre.ethers.provider,
+        args.txHash,
+        await knownContracts(hre)
+      );
+      console.log(
+        args.json
+          ? JSON.stringify(explanation, null, 2)
+          : formatExplanation(explanation)
+      );
+    }
+  );
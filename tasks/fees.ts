@@ -0,0 +1,141 @@
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { BigNumber, Contract, utils } from "ethers";
+import { getContractAddress } from "../scripts/utils/addresses";
+import { ERC20_ABI, isEth } from "../scripts/utils/deposit";
+import { errorReason } from "../scripts/utils/errors";
+import { GasQuote, quoteDeposit, quoteRelay } from "../scripts/utils/fees";
+import { FileProofSource } from "../scripts/utils/relayer";
+
+// Fee quotes for both bridge directions - deposits into the ERC20Peg and relayed proofs
+
+const eth = (value: BigNumber) => `${utils.formatEther(value)} ETH`;
+
+const formatGas = (gas?: GasQuote) =>
+  gas
+    ? `${gas.gasLimit} gas @ ${utils.formatUnits(
+        gas.gasPrice,
+        "gwei"
+      )} gwei = ${eth(gas.cost)}`
+    : "not estimated";
+
+// first configured account, if any - gas is only estimated with a sender
+async function defaultSender(hre: HardhatRuntimeEnvironment) {
+  const [signer] = await hre.ethers.getSigners();
+  return signer?.address;
+}
+
+task("fees:deposit", "Quote the ETH cost of an ERC20Peg deposit")
+  .addParam("token", "Token address or ETH")
+  .addParam("amount", "Amount in decimal units of the token e.g. 1.5")
+  .addOptionalParam(
+    "destination",
+    "Root network recipient (only affects the gas estimate)",
+    "0x0000000000000000000000000000000000000001",
+    types.string
+  )
+  .addOptionalParam(
+    "from",
+    "Depositor (default: first account)",
+    undefined,
+    types.string
+  )
+  .addOptionalParam("peg", "ERC20Peg address", undefined, types.string)
+  .setAction(
+    async (
+      args: {
+        token: string;
+        amount: string;
+        destination: string;
+        from?: string;
+        peg?: string;
+      },
+      hre: HardhatRuntimeEnvironment
+    ) => {
+      const peg = await hre.ethers.getContractAt(
+        "ERC20Peg",
+        getContractAddress(hre.network.name, "PEG", args.peg)
+      );
+      const bridge = await hre.ethers.getContractAt(
+        "Bridge",
+        await peg.bridge()
+      );
+      const decimals = isEth(args.token)
+        ? 18
+        : await new Contract(
+            args.token,
+            ERC20_ABI,
+            hre.ethers.provider
+          ).decimals();
+
+      const quote = await quoteDeposit({
+        peg,
+        bridge,
+        token: args.token,
+        amount: utils.parseUnits(args.amount, decimals),
+        destination: args.destination,
+        from: args.from ?? (await defaultSender(hre))
+      });
+      console.log(`Message fee: ${eth(quote.messageFee)}`);
+      console.log(`Value sent:  ${eth(quote.value)}`);
+      console.log(
+        `Gas:         ${
+          quote.approvalRequired
+            ? "approve the peg first"
+            : formatGas(quote.gas)
+        }`
+      );
+      console.log(`Total cost:  ${eth(quote.totalCost)}`);
+    }
+  );
+
+task(
+  "fees:relay",
+  "Quote the ETH cost of relaying signed messages to the Bridge"
+)
+  .addParam(
+    "proofs",
+    "JSON file of signed messages (the relayer's PROOF_SOURCE format)"
+  )
+  .addOptionalParam(
+    "from",
+    "Relayer (default: first account)",
+    undefined,
+    types.string
+  )
+  .addOptionalParam("bridge", "Bridge address", undefined, types.string)
+  .setAction(
+    async (
+      args: { proofs: string; from?: string; bridge?: string },
+      hre: HardhatRuntimeEnvironment
+    ) => {
+      const bridge = await hre.ethers.getContractAt(
+        "Bridge",
+        getContractAddress(hre.network.name, "BRIDGE", args.bridge)
+      );
+      const from = args.from ?? (await defaultSender(hre));
+      const messages = await new FileProofSource(args.proofs).fetchProofs();
+
+      for (const message of messages) {
+        const eventId = BigNumber.from(message.proof.eventId).toString();
+        try {
+          const quote = await quoteRelay({
+            bridge,
+            message,
+            proof: message.proof,
+            from
+          });
+          console.log(
+            `${eventId}: verification fee ${eth(quote.verificationFee)}, ${
+              quote.signaturesChecked
+            }/${quote.validators} signatures checked (${
+              quote.signaturesRequired
+            } required), ${formatGas(quote.gas)}, total ${eth(quote.totalCost)}`
+          );
+        } catch (error) {
+          console.log(`${eventId}: cannot be relayed - ${errorReason(error)}`);
+          process.exitCode = 1;
+        }
+      }
+    }
+  );
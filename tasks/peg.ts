@@ -0,0 +1,239 @@
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { Contract } from "ethers";
+import { writeFileSync } from "fs";
+import { getContractAddress } from "../scripts/utils/addresses";
+import { toCsv } from "../scripts/utils/csv";
+import { reconcilePeg, toReconciliationRows } from "../scripts/utils/reconcile";
+import {
+  HttpRootLookup,
+  trackDeposits,
+  trackWithdrawals
+} from "../scripts/utils/tracker";
+
+// ERC20Peg tasks
+// The peg address defaults to <NETWORK>_PEG_ADDRESS
+
+export async function getPeg(
+  hre: HardhatRuntimeEnvironment,
+  address?: string
+): Promise<Contract> {
+  const [signer] = await hre.ethers.getSigners();
+  return hre.ethers.getContractAt(
+    "ERC20Peg",
+    getContractAddress(hre.network.name, "PEG", address),
+    signer
+  );
+}
+
+task(
+  "peg:reconcile",
+  "Reconcile the peg's locked balances against Deposit/Withdraw/AdminWithdraw events"
+)
+  .addOptionalParam("fromBlock", "First block of the range", 0, types.int)
+  .addOptionalParam(
+    "toBlock",
+    "Last block of the range (default latest)",
+    undefined,
+    types.int
+  )
+  .addOptionalParam(
+    "tokens",
+    "Comma separated token addresses to always include",
+    undefined,
+    types.string
+  )
+  .addOptionalParam("format", "json or csv", "json", types.string)
+  .addOptionalParam(
+    "out",
+    "Output file (default stdout)",
+    undefined,
+    types.string
+  )
+  .addOptionalParam("peg", "ERC20Peg address", undefined, types.string)
+  .setAction(
+    async (
+      args: {
+        fromBlock: number;
+        toBlock?: number;
+        tokens?: string;
+        format: string;
+        out?: string;
+        peg?: string;
+      },
+      hre: HardhatRuntimeEnvironment
+    ) => {
+      if (args.format !== "json" && args.format !== "csv") {
+        throw new Error(`Unknown format ${args.format}, expected json or csv`);
+      }
+      const peg = await getPeg(hre, args.peg);
+      const report = await reconcilePeg({
+        peg,
+        fromBlock: args.fromBlock,
+        toBlock: args.toBlock,
+        tokens: args.tokens?.split(",").map((t) => t.trim())
+      });
+
+      const output =
+        args.format === "csv"
+          ? toCsv(toReconciliationRows(report))
+          : JSON.stringify(report, null, 2) + "\n";
+      if (args.out) {
+        writeFileSync(args.out, output);
+        console.log(`Report written: ${args.out}`);
+      } else {
+        process.stdout.write(output);
+      }
+
+      const discrepancies = report.tokens.filter(
+        (t) => t.status === "discrepancy"
+      );
+      for (const t of discrepancies) {
+        console.error(`${t.symbol} (${t.tokenAddress}): ${t.notes.join("; ")}`);
+      }
+      if (discrepancies.length > 0) process.exitCode = 1;
+    }
+  );
+
+async function getTrackerContracts(
+  hre: HardhatRuntimeEnvironment,
+  address?: string
+) {
+  const peg = await getPeg(hre, address);
+  const bridge = await hre.ethers.getContractAt("Bridge", await peg.bridge());
+  return { peg, bridge };
+}
+
+task(
+  "peg:track-deposit",
+  "Show where deposits are between the Ethereum transaction and the Root credit"
+)
+  .addOptionalParam("tx", "Deposit transaction hash", undefined, types.string)
+  .addOptionalParam(
+    "depositor",
+    "Track every deposit of this address",
+    undefined,
+    types.string
+  )
+  .addOptionalParam(
+    "rootLookup",
+    "Root lookup endpoint, GET <url>/<messageId> (default: Root is not checked)",
+    undefined,
+    types.string
+  )
+  .addOptionalParam(
+    "fromBlock",
+    "First block searched for the depositor",
+    0,
+    types.int
+  )
+  .addOptionalParam(
+    "confirmations",
+    "Blocks before a deposit is final",
+    12,
+    types.int
+  )
+  .addOptionalParam("peg", "ERC20Peg address", undefined, types.string)
+  .addFlag("json", "Print the deposits as JSON")
+  .setAction(
+    async (
+      args: {
+        tx?: string;
+        depositor?: string;
+        rootLookup?: string;
+        fromBlock: number;
+        confirmations: number;
+        peg?: string;
+        json: boolean;
+      },
+      hre: HardhatRuntimeEnvironment
+    ) => {
+      const deposits = await trackDeposits({
+        ...(await getTrackerContracts(hre, args.peg)),
+        transactionHash: args.tx,
+        depositor: args.depositor,
+        root: args.rootLookup ? new HttpRootLookup(args.rootLookup) : undefined,
+        fromBlock: args.fromBlock,
+        confirmations: args.confirmations
+      });
+      if (args.json) {
+        console.log(JSON.stringify(deposits, null, 2));
+        return;
+      }
+      console.table(
+        deposits.map((d) => ({
+          transaction: d.transactionHash,
+          block: d.blockNumber,
+          confirmations: d.confirmations,
+          token: d.tokenAddress,
+          amount: d.amount,
+          destination: d.destination,
+          messageId: d.messageId,
+          state: d.state
+        }))
+      );
+      if (!args.rootLookup && deposits.some((d) => d.state === "emitted")) {
+        console.log("Root was not checked - pass --root-lookup");
+      }
+    }
+  );
+
+task(
+  "peg:track-withdrawal",
+  "Match Root eventIds to the MessageReceived and Withdraw events of withdrawals"
+)
+  .addOptionalParam(
+    "tx",
+    "receiveMessage transaction hash",
+    undefined,
+    types.string
+  )
+  .addOptionalParam(
+    "recipient",
+    "Track every withdrawal to this address",
+    undefined,
+    types.string
+  )
+  .addOptionalParam("eventId", "Root event id", undefined, types.string)
+  .addOptionalParam(
+    "fromBlock",
+    "First block searched for the recipient or eventId",
+    0,
+    types.int
+  )
+  .addOptionalParam(
+    "confirmations",
+    "Blocks before a withdrawal is final",
+    12,
+    types.int
+  )
+  .addOptionalParam("peg", "ERC20Peg address", undefined, types.string)
+  .addFlag("json", "Print the withdrawals as JSON")
+  .setAction(
+    async (
+      args: {
+        tx?: string;
+        recipient?: string;
+        eventId?: string;
+        fromBlock: number;
+        confirmations: number;
+        peg?: string;
+        json: boolean;
+      },
+      hre: HardhatRuntimeEnvironment
+    ) => {
+      const withdrawals = await trackWithdrawals({
+        ...(await getTrackerContracts(hre, args.peg)),
+        transactionHash: args.tx,
+        recipient: args.recipient,
+        eventId: args.eventId,
+        fromBlock: args.fromBlock,
+        confirmations: args.confirmations
+      });
+      if (args.json) {
+        console.log(JSON.stringify(withdrawals, null, 2));
+      } else {
+        console.table(withdrawals);
+      }
+    }
+  );
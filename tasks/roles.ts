@@ -0,0 +1,83 @@
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { getContractAddress } from "../scripts/utils/addresses";
+import {
+  deploymentConfigPath,
+  loadDeploymentConfig
+} from "../scripts/utils/invariants";
+import { auditRoles, rebuildRoleInventory } from "../scripts/utils/roleAudit";
+
+// Token AccessControl audit (FTT-02 in audit/audit-response.md)
+// Expected holders are the `roles` of config/<network>.json - a role not listed there should have no holders
+
+task(
+  "roles:audit",
+  "Rebuild Token role membership from RoleGranted/RoleRevoked and diff it against the expected holders"
+)
+  .addOptionalParam(
+    "fromBlock",
+    "First block to scan (the Token deployment block)",
+    0,
+    types.int
+  )
+  .addOptionalParam("token", "Token address", undefined, types.string)
+  .addOptionalParam(
+    "expected",
+    "Expected deployment config file",
+    undefined,
+    types.string
+  )
+  .addFlag("json", "Print the inventory and drift as JSON")
+  .setAction(
+    async (
+      args: {
+        fromBlock: number;
+        token?: string;
+        expected?: string;
+        json: boolean;
+      },
+      hre: HardhatRuntimeEnvironment
+    ) => {
+      const path = args.expected ?? deploymentConfigPath(hre.network.name);
+      const config = loadDeploymentConfig(path);
+      const token = await hre.ethers.getContractAt(
+        "Token",
+        getContractAddress(
+          hre.network.name,
+          "TOKEN",
+          args.token ?? config.token
+        )
+      );
+
+      const inventory = await rebuildRoleInventory(token, {
+        fromBlock: args.fromBlock
+      });
+      const drift = await auditRoles(token, inventory, config.roles);
+
+      if (args.json) {
+        console.log(JSON.stringify({ inventory, drift }, null, 2));
+      } else {
+        console.log(
+          `Token ${token.address} on ${hre.network.name}, blocks ${inventory.fromBlock}-${inventory.toBlock}`
+        );
+        for (const holder of inventory.holders) {
+          console.log(
+            `  ${holder.role}: ${holder.account}${
+              holder.eoa ? " (EOA)" : ""
+            } - granted in block ${holder.grantedBlock}`
+          );
+        }
+        console.log(
+          drift.length === 0
+            ? `\nNo drift from ${path}`
+            : `\n${drift.length} differences from ${path}:`
+        );
+        for (const d of drift) {
+          console.log(
+            `  ${d.kind.toUpperCase()} ${d.role} ${d.account}: ${d.detail}`
+          );
+        }
+      }
+      if (drift.length > 0) process.exitCode = 1;
+    }
+  );
@@ -0,0 +1,176 @@
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment, HttpNetworkConfig } from "hardhat/types";
+import { Contract } from "ethers";
+import { ContractName, getContractAddress } from "../scripts/utils/addresses";
+import { getChainHead } from "../scripts/utils/events";
+import { forkNetwork } from "../scripts/utils/fork";
+import {
+  deploymentConfigPath,
+  loadDeploymentConfig
+} from "../scripts/utils/invariants";
+import { readJsonFile, writeJsonFile } from "../scripts/utils/jsonStore";
+import { ROLES } from "../scripts/utils/roles";
+import {
+  SafeBatch,
+  buildSafeBatch,
+  simulateSafeBatch
+} from "../scripts/utils/safe";
+
+// Safe (multisig) batches - Token MULTISIG_ROLE calls and Bridge/ERC20Peg owner calls
+// are exported as Safe Transaction Builder JSON instead of being signed with a private key
+
+// Calls file entry e.g. { "contract": "Token", "method": "mint", "args": ["0x...", "1000000000000000000"] }
+interface CallEntry {
+  contract: "Bridge" | "ERC20Peg" | "Token";
+  method: string;
+  args?: unknown[];
+  // wei
+  value?: string;
+  // defaults to the network's deployed contract
+  address?: string;
+}
+
+const CONTRACT_NAMES: Record<CallEntry["contract"], ContractName> = {
+  Bridge: "BRIDGE",
+  ERC20Peg: "PEG",
+  Token: "TOKEN"
+};
+
+async function knownInterfaces(hre: HardhatRuntimeEnvironment) {
+  return Promise.all(
+    ["Bridge", "ERC20Peg", "Token"].map(
+      async (name) => (await hre.ethers.getContractFactory(name)).interface
+    )
+  );
+}
+
+// Whether `safe` can make the call - Token calls need MULTISIG_ROLE, Bridge/ERC20Peg calls need ownership
+async function authorised(contract: Contract, entry: CallEntry, safe: string) {
+  if (entry.contract === "Token") {
+    return contract.hasRole(ROLES.MULTISIG_ROLE, safe);
+  }
+  return (await contract.owner()).toLowerCase() === safe.toLowerCase();
+}
+
+task("safe:export", "Write contract calls as a Safe Transaction Builder batch")
+  .addParam(
+    "calls",
+    "JSON file of calls: [{ contract, method, args, value?, address? }]"
+  )
+  .addParam("out", "Batch file to write")
+  .addOptionalParam(
+    "safe",
+    "Safe address (default: MULTISIG_ROLE holder in config/<network>.json)",
+    undefined,
+    types.string
+  )
+  .addOptionalParam("name", "Batch name", "Transactions Batch", types.string)
+  .addOptionalParam("description", "Batch description", "", types.string)
+  .setAction(
+    async (
+      args: {
+        calls: string;
+        out: string;
+        safe?: string;
+        name: string;
+        description: string;
+      },
+      hre: HardhatRuntimeEnvironment
+    ) => {
+      const entries = readJsonFile<CallEntry[]>(args.calls, []);
+      if (entries.length === 0) throw new Error(`No calls in ${args.calls}`);
+      const safe =
+        args.safe ??
+        loadDeploymentConfig(deploymentConfigPath(hre.network.name)).roles
+          .MULTISIG_ROLE?.[0];
+      if (!safe) {
+        throw new Error("Missing --safe and no MULTISIG_ROLE holder in config");
+      }
+
+      const calls = [];
+      for (const entry of entries) {
+        const contract = await hre.ethers.getContractAt(
+          entry.contract,
+          getContractAddress(
+            hre.network.name,
+            CONTRACT_NAMES[entry.contract],
+            entry.address
+          )
+        );
+        if (!(await authorised(contract, entry, safe))) {
+          console.warn(
+            `Warning: ${safe} is not authorised to call ${entry.contract}.${entry.method} at ${contract.address}`
+          );
+        }
+        calls.push({
+          contract,
+          method: entry.method,
+          args: entry.args ?? [],
+          value: entry.value
+        });
+      }
+
+      const { chainId } = await hre.ethers.provider.getNetwork();
+      const batch = buildSafeBatch({
+        chainId,
+        safe,
+        calls,
+        name: args.name,
+        description: args.description
+      });
+      writeJsonFile(args.out, batch);
+      console.log(
+        `${batch.transactions.length} transactions for Safe ${safe} on chain ${chainId} written to ${args.out}`
+      );
+    }
+  );
+
+task(
+  "safe:simulate",
+  "Execute a Safe batch on a Hardhat fork as the Safe and show the emitted events"
+)
+  .addParam("batch", "Safe Transaction Builder batch file")
+  .addParam("fork", "Network to fork (its url from hardhat.config)")
+  .addOptionalParam("block", "Fork block number", undefined, types.int)
+  .setAction(
+    async (
+      args: { batch: string; fork: string; block?: number },
+      hre: HardhatRuntimeEnvironment
+    ) => {
+      if (hre.network.name !== "hardhat") {
+        throw new Error(
+          "safe:simulate runs on the hardhat network - use --fork <network> instead of --network"
+        );
+      }
+      const batch = readJsonFile<SafeBatch | undefined>(args.batch, undefined);
+      if (!batch) throw new Error(`Missing batch file ${args.batch}`);
+
+      const url = (hre.config.networks[args.fork] as HttpNetworkConfig)?.url;
+      if (!url) throw new Error(`No url configured for network ${args.fork}`);
+      await forkNetwork(hre.ethers.provider, url, args.block);
+      console.log(
+        `Forked ${args.fork} at block ${await getChainHead(
+          hre.ethers.provider
+        )}`
+      );
+
+      const results = await simulateSafeBatch(
+        hre.ethers.provider,
+        batch,
+        await knownInterfaces(hre)
+      );
+      results.forEach((result, i) => {
+        console.log(
+          `\n${i}: ${result.method} -> ${
+            result.to
+          } ${result.status.toUpperCase()}${
+            result.gasUsed ? ` (gas ${result.gasUsed})` : ""
+          }${result.reason ? `: ${result.reason}` : ""}`
+        );
+        for (const event of result.events) {
+          console.log(`  ${event.name} @ ${event.address}`, event.args);
+        }
+      });
+      if (results.some((r) => r.status !== "success")) process.exitCode = 1;
+    }
+  );
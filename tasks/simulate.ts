@@ -0,0 +1,153 @@
+import { task } from "hardhat/config";
+import { HardhatRuntimeEnvironment, HttpNetworkConfig } from "hardhat/types";
+import { providers } from "ethers";
+import { existsSync } from "fs";
+import { basename } from "path";
+import { ContractName, getContractAddress } from "../scripts/utils/addresses";
+import { forkNetwork } from "../scripts/utils/fork";
+import {
+  deploymentConfigPath,
+  loadDeploymentConfig
+} from "../scripts/utils/invariants";
+import { readJsonFile, writeJsonFile } from "../scripts/utils/jsonStore";
+import {
+  RpcRecorder,
+  RpcRecording,
+  startRpcRecorder
+} from "../scripts/utils/rpcRecorder";
+import {
+  ScenarioContract,
+  formatScenarioReport,
+  loadScenario,
+  resolveActors,
+  runScenario
+} from "../scripts/utils/simulation";
+
+// Fork simulation harness
+// Rehearses a scenario (scenarios/<name>.json) against real network state on an in-process Hardhat fork
+// With --record the fork's RPC traffic is saved as a fixture, --offline replays it without network access (CI)
+
+const fixturePath = (scenarioPath: string) =>
+  `scenarios/fixtures/${basename(scenarioPath)}`;
+
+task(
+  "simulate:scenario",
+  "Replay a scenario on a fork, impersonating its actors, and report balance and event diffs"
+)
+  .addParam("scenario", "Scenario file")
+  .addOptionalParam("fixture", "RPC fixture file")
+  .addFlag("record", "Record the fork's RPC responses into the fixture")
+  .addFlag("offline", "Replay the recorded fixture instead of the live RPC")
+  .addFlag("json", "Print the report as JSON")
+  .setAction(
+    async (
+      args: {
+        scenario: string;
+        fixture?: string;
+        record: boolean;
+        offline: boolean;
+        json: boolean;
+      },
+      hre: HardhatRuntimeEnvironment
+    ) => {
+      if (hre.network.name !== "hardhat") {
+        throw new Error(
+          "simulate:scenario runs on the hardhat network - the scenario names the network to fork"
+        );
+      }
+      if (args.record && args.offline) {
+        throw new Error("--record and --offline are exclusive");
+      }
+      const scenario = loadScenario(args.scenario);
+      const fixture = args.fixture ?? fixturePath(args.scenario);
+
+      let forkUrl = (hre.config.networks[scenario.network] as HttpNetworkConfig)
+        ?.url;
+      let blockNumber = scenario.blockNumber;
+      let recording: RpcRecording | undefined;
+      let recorder: RpcRecorder | undefined;
+      if (args.offline) {
+        recording = readJsonFile<RpcRecording | undefined>(fixture, undefined);
+        if (!recording) throw new Error(`Missing fixture ${fixture}`);
+        blockNumber = recording.blockNumber;
+        recorder = await startRpcRecorder({ mode: "replay", recording });
+        forkUrl = recorder.url;
+      } else {
+        if (!forkUrl) {
+          throw new Error(`No url configured for network ${scenario.network}`);
+        }
+        if (args.record) {
+          // a fixture replays one block - pin the head unless the scenario pins one
+          if (blockNumber === undefined) {
+            blockNumber = await new providers.JsonRpcProvider(
+              forkUrl
+            ).getBlockNumber();
+            console.log(
+              `Recording at the ${scenario.network} head, block ${blockNumber}`
+            );
+          }
+          recording = { network: scenario.network, blockNumber, responses: {} };
+          recorder = await startRpcRecorder({
+            mode: "record",
+            recording,
+            upstream: forkUrl
+          });
+          forkUrl = recorder.url;
+        }
+      }
+
+      try {
+        await forkNetwork(hre.ethers.provider, forkUrl, blockNumber);
+
+        const configPath = deploymentConfigPath(scenario.network);
+        const config = existsSync(configPath)
+          ? loadDeploymentConfig(configPath)
+          : undefined;
+        const configured = {
+          Bridge: config?.bridge,
+          ERC20Peg: config?.peg,
+          Token: config?.token
+        };
+        const contractAt = (name: ScenarioContract, contract: ContractName) =>
+          hre.ethers.getContractAt(
+            name,
+            getContractAddress(
+              scenario.network,
+              contract,
+              scenario.contracts?.[name] ?? configured[name]
+            )
+          );
+        const contracts = {
+          Bridge: await contractAt("Bridge", "BRIDGE"),
+          ERC20Peg: await contractAt("ERC20Peg", "PEG"),
+          Token: await contractAt("Token", "TOKEN")
+        };
+        const actors = await resolveActors(contracts, {
+          multisig: config?.roles.MULTISIG_ROLE?.[0],
+          tokenManager: config?.roles.MANAGER_ROLE?.[0]
+        });
+
+        const report = await runScenario({
+          provider: hre.ethers.provider,
+          scenario,
+          contracts,
+          actors
+        });
+        console.log(
+          args.json
+            ? JSON.stringify(report, null, 2)
+            : formatScenarioReport(report)
+        );
+        if (report.steps.some((s) => s.status !== "success")) {
+          process.exitCode = 1;
+        }
+
+        if (args.record) {
+          writeJsonFile(fixture, recording);
+          console.log(`Fixture written: ${fixture}`);
+        }
+      } finally {
+        await recorder?.close();
+      }
+    }
+  );
@@ -0,0 +1,250 @@
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { Contract, Event, utils } from "ethers";
+import { mkdirSync, writeFileSync } from "fs";
+import { join } from "path";
+import { getContractAddress } from "../scripts/utils/addresses";
+import { toCsv } from "../scripts/utils/csv";
+import {
+  buildSupplyReport,
+  toHolderRows,
+  toSupplyHistoryRows,
+  toSupplySummaryRows
+} from "../scripts/utils/supply";
+import { TokenCall, prepareTokenCall } from "../scripts/utils/tokenAdmin";
+import { confirm, waitForEvent } from "./utils";
+
+// Token tasks
+// e.g. `npx hardhat token:mint --network sepolia --to <address> --amount 1000 --from <multisig signer>`
+// The Token address defaults to <NETWORK>_TOKEN_ADDRESS, calls are sent by --from (default: first configured account)
+
+export async function getToken(
+  hre: HardhatRuntimeEnvironment,
+  address?: string
+): Promise<Contract> {
+  const [signer] = await hre.ethers.getSigners();
+  return hre.ethers.getContractAt(
+    "Token",
+    getContractAddress(hre.network.name, "TOKEN", address),
+    signer
+  );
+}
+
+task(
+  "token:supply-report",
+  "Rebuild the Token supply history, circulating supply and top holders from Transfer events"
+)
+  .addOptionalParam(
+    "fromBlock",
+    "Token deployment block - balances are rebuilt from here",
+    0,
+    types.int
+  )
+  .addOptionalParam(
+    "toBlock",
+    "Last block of the report (default latest)",
+    undefined,
+    types.int
+  )
+  .addOptionalParam("top", "Number of holders listed", 10, types.int)
+  .addOptionalParam("format", "json or csv", "json", types.string)
+  .addOptionalParam(
+    "out",
+    "Output file for json (default stdout), directory for the csv files (default token-supply/<network>)",
+    undefined,
+    types.string
+  )
+  .addOptionalParam("token", "Token address", undefined, types.string)
+  .setAction(
+    async (
+      args: {
+        fromBlock: number;
+        toBlock?: number;
+        top: number;
+        format: string;
+        out?: string;
+        token?: string;
+      },
+      hre: HardhatRuntimeEnvironment
+    ) => {
+      if (args.format !== "json" && args.format !== "csv") {
+        throw new Error(`Unknown format ${args.format}, expected json or csv`);
+      }
+      const report = await buildSupplyReport({
+        token: await getToken(hre, args.token),
+        fromBlock: args.fromBlock,
+        toBlock: args.toBlock,
+        top: args.top
+      });
+
+      if (args.format === "csv") {
+        const dir = args.out ?? join("token-supply", hre.network.name);
+        mkdirSync(dir, { recursive: true });
+        const files = {
+          "summary.csv": toSupplySummaryRows(report),
+          "holders.csv": toHolderRows(report),
+          "history.csv": toSupplyHistoryRows(report)
+        };
+        for (const [file, rows] of Object.entries(files)) {
+          writeFileSync(join(dir, file), toCsv(rows));
+        }
+        console.log(`Report written: ${dir}/{${Object.keys(files).join(",")}}`);
+      } else if (args.out) {
+        writeFileSync(args.out, JSON.stringify(report, null, 2) + "\n");
+        console.log(`Report written: ${args.out}`);
+      } else {
+        process.stdout.write(JSON.stringify(report, null, 2) + "\n");
+      }
+
+      const format = (amount: string) =>
+        `${utils.formatUnits(amount, report.decimals)} ${report.symbol}`;
+      console.error(
+        `Supply ${format(report.totalSupply)}, circulating ${format(
+          report.circulatingSupply
+        )}, headroom ${format(report.headroom)}`
+      );
+      for (const note of report.notes) console.error(note);
+      if (!report.consistent) process.exitCode = 1;
+    }
+  );
+
+async function getSigner(hre: HardhatRuntimeEnvironment, from?: string) {
+  const signers = await hre.ethers.getSigners();
+  if (!from) return signers[0];
+  const signer = signers.find(
+    (s) => s.address.toLowerCase() === from.toLowerCase()
+  );
+  if (!signer) {
+    throw new Error(
+      `${from} is not a configured account on ${hre.network.name}`
+    );
+  }
+  return signer;
+}
+
+const formatEvent = (token: Contract, event: Event) =>
+  `${event.event}(${token.interface
+    .getEvent(event.event!)
+    .inputs.map((input) => `${input.name}=${event.args![input.name]}`)
+    .join(", ")})`;
+
+/**
+ * A Token call checked by `prepareTokenCall` (roles, cap, pause state), confirmed by its event
+ * `params` are the required task params, passed to `toCall` as strings
+ */
+function tokenTask(
+  name: string,
+  description: string,
+  params: [name: string, description: string][],
+  toCall: (args: Record<string, string>) => TokenCall
+) {
+  const definition = task(name, description);
+  for (const [param, paramDescription] of params) {
+    definition.addParam(param, paramDescription);
+  }
+  definition
+    .addOptionalParam(
+      "from",
+      "Sending account (default: first configured account)",
+      undefined,
+      types.string
+    )
+    .addOptionalParam("token", "Token address", undefined, types.string)
+    .addFlag("yes", "Skip the confirmation prompt")
+    .setAction(
+      async (
+        args: Record<string, string> & {
+          from?: string;
+          token?: string;
+          yes: boolean;
+        },
+        hre: HardhatRuntimeEnvironment
+      ) => {
+        const signer = await getSigner(hre, args.from);
+        const token = (await getToken(hre, args.token)).connect(signer);
+        const call = await prepareTokenCall(
+          token,
+          signer.address,
+          toCall(args)
+        );
+
+        console.log(`Token ${token.address} on ${hre.network.name}`);
+        console.log(`${call.description}, sent by ${signer.address}`);
+        if (!(await confirm(`Send ${call.method}?`, args.yes))) {
+          console.log("Aborted");
+          return;
+        }
+        const event = await waitForEvent(
+          await token[call.method](...call.args),
+          token,
+          call.event
+        );
+        console.log(formatEvent(token, event));
+      }
+    );
+}
+
+tokenTask(
+  "token:init",
+  "Mint the whole supply to the peg (MANAGER_ROLE, once)",
+  [["peg", "ERC20Peg address"]],
+  ({ peg }) => ({ method: "init", peg })
+);
+
+tokenTask(
+  "token:mint",
+  "Mint tokens up to the cap (MULTISIG_ROLE)",
+  [
+    ["to", "Recipient"],
+    ["amount", "Amount in THINK e.g. 1000.5"]
+  ],
+  ({ to, amount }) => ({ method: "mint", to, amount })
+);
+
+tokenTask(
+  "token:burn",
+  "Burn tokens held by the sender (MULTISIG_ROLE)",
+  [["amount", "Amount in THINK e.g. 1000.5"]],
+  ({ amount }) => ({ method: "burn", amount })
+);
+
+tokenTask(
+  "token:set-peg",
+  "Change the peg address (MULTISIG_ROLE)",
+  [["peg", "New ERC20Peg address"]],
+  ({ peg }) => ({ method: "setPeg", peg })
+);
+
+tokenTask(
+  "token:pause",
+  "Pause transfers, mints and burns (MANAGER_ROLE)",
+  [],
+  () => ({ method: "pause" })
+);
+
+tokenTask(
+  "token:unpause",
+  "Unpause transfers, mints and burns (MULTISIG_ROLE)",
+  [],
+  () => ({ method: "unpause" })
+);
+
+tokenTask(
+  "token:grant-role",
+  "Grant a role (the role's admin role)",
+  [
+    ["role", "Role name e.g. MANAGER_ROLE, or bytes32 id"],
+    ["account", "Account to grant the role to"]
+  ],
+  ({ role, account }) => ({ method: "grantRole", role, account })
+);
+
+tokenTask(
+  "token:revoke-role",
+  "Revoke a role (the role's admin role)",
+  [
+    ["role", "Role name e.g. MANAGER_ROLE, or bytes32 id"],
+    ["account", "Account to revoke the role from"]
+  ],
+  ({ role, account }) => ({ method: "revokeRole", role, account })
+);
@@ -0,0 +1,39 @@
+import { createInterface } from "readline";
+import { Contract, ContractTransaction, Event } from "ethers";
+
+/**
+ * Ask the operator to confirm an action on stdin - `yes` skips the prompt (e.g. for scripted use)
+ */
+export async function confirm(question: string, yes = false) {
+  if (yes) return true;
+
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  const answer = await new Promise<string>((resolve) =>
+    rl.question(`${question} [y/N] `, resolve)
+  );
+  rl.close();
+  return ["y", "yes"].includes(answer.trim().toLowerCase());
+}
+
+/**
+ * Wait for `tx` to be mined and return the `eventName` event emitted by `contract`
+ * Throws if the transaction did not emit it
+ */
+export async function waitForEvent(
+  tx: ContractTransaction,
+  contract: Contract,
+  eventName: string
+): Promise<Event> {
+  console.log(`Sent ${tx.hash}, waiting for confirmation...`);
+  const receipt = await tx.wait();
+  const event = receipt.events?.find(
+    (e) =>
+      e.address.toLowerCase() === contract.address.toLowerCase() &&
+      e.event === eventName
+  );
+  if (!event) {
+    throw new Error(`${tx.hash} did not emit ${eventName}`);
+  }
+  console.log(`Confirmed in block ${receipt.blockNumber}: ${eventName}`);
+  return event;
+}
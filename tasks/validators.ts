@@ -0,0 +1,166 @@
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { getBridge } from "./bridge";
+import { confirm, waitForEvent } from "./utils";
+import {
+  ValidatorSetUpdate,
+  findStaleEntries,
+  loadRegistry,
+  mergeRegistry,
+  prepareValidatorSetUpdate,
+  rebuildRegistry,
+  recordValidatorSet,
+  saveRegistry
+} from "../scripts/utils/validatorSets";
+
+// Validator set rotation tasks
+// The registry (validator-sets/<network>.json) records the addresses behind each on-chain validator set digest
+
+interface ValidatorTaskArgs {
+  bridge?: string;
+  registry?: string;
+}
+
+const registryPath = (hre: HardhatRuntimeEnvironment, path?: string) =>
+  path ?? `validator-sets/${hre.network.name}.json`;
+
+function validatorSetTask(name: string, kind: ValidatorSetUpdate) {
+  const method =
+    kind === "active" ? "forceActiveValidatorSet" : "forceHistoricValidatorSet";
+  const event =
+    kind === "active"
+      ? "ForceSetActiveValidators"
+      : "ForceSetHistoricValidators";
+
+  task(name, `Force set the ${kind} validator set (${method})`)
+    .addParam("id", "Validator set id", undefined, types.int)
+    .addParam(
+      "validators",
+      "Comma separated validator addresses, in pallet session order"
+    )
+    .addOptionalParam("bridge", "Bridge address", undefined, types.string)
+    .addOptionalParam("registry", "Registry file", undefined, types.string)
+    .addFlag("yes", "Skip the confirmation prompt")
+    .setAction(
+      async (
+        args: ValidatorTaskArgs & {
+          id: number;
+          validators: string;
+          yes: boolean;
+        },
+        hre: HardhatRuntimeEnvironment
+      ) => {
+        const bridge = await getBridge(hre, args.bridge);
+        const path = registryPath(hre, args.registry);
+        const registry = loadRegistry(path, bridge.address);
+
+        const update = await prepareValidatorSetUpdate(
+          bridge,
+          registry,
+          kind,
+          args.id,
+          args.validators.split(",").map((v) => v.trim())
+        );
+
+        console.log(`Validator set ${update.validatorSetId} (${kind}):`);
+        update.validators.forEach((v, i) => console.log(`  ${i}: ${v}`));
+        console.log(`Current digest: ${update.onChainDigest}`);
+        console.log(`New digest:     ${update.digest}`);
+        if (update.unchanged) {
+          console.log("On-chain digest already matches, nothing to do");
+        } else {
+          if (!(await confirm(`Send ${method}?`, args.yes))) {
+            console.log("Aborted");
+            return;
+          }
+          const confirmed = await waitForEvent(
+            await bridge[method](update.validators, update.validatorSetId),
+            bridge,
+            event
+          );
+          if (confirmed.args!.validatorSetDigest !== update.digest) {
+            throw new Error(
+              `${event} digest ${
+                confirmed.args!.validatorSetDigest
+              } does not match ${update.digest}`
+            );
+          }
+        }
+
+        recordValidatorSet(registry, {
+          validatorSetId: update.validatorSetId,
+          digest: update.digest,
+          validators: update.validators,
+          source: update.unchanged ? "local" : event
+        });
+        saveRegistry(path, registry);
+        console.log(`Registry updated: ${path}`);
+      }
+    );
+}
+
+validatorSetTask("validators:set-active", "active");
+validatorSetTask("validators:set-historic", "historic");
+
+task(
+  "validators:sync",
+  "Update the validator set registry from Bridge events, keeping registered addresses that can not be recovered"
+)
+  .addOptionalParam("fromBlock", "First block to scan", 0, types.int)
+  .addOptionalParam("bridge", "Bridge address", undefined, types.string)
+  .addOptionalParam("registry", "Registry file", undefined, types.string)
+  .setAction(
+    async (
+      args: ValidatorTaskArgs & { fromBlock: number },
+      hre: HardhatRuntimeEnvironment
+    ) => {
+      const bridge = await getBridge(hre, args.bridge);
+      const path = registryPath(hre, args.registry);
+      const registry = await mergeRegistry(
+        bridge,
+        loadRegistry(path, bridge.address),
+        await rebuildRegistry(bridge, args.fromBlock)
+      );
+
+      for (const entry of Object.values(registry.sets)) {
+        console.log(
+          `${entry.validatorSetId}: ${entry.digest} (${entry.source}, ${
+            entry.validators
+              ? `${entry.validators.length} validators`
+              : "addresses unknown"
+          })`
+        );
+      }
+      saveRegistry(path, registry);
+      console.log(`Registry written: ${path}`);
+    }
+  );
+
+task("validators:show", "Show the registered validator sets")
+  .addOptionalParam("bridge", "Bridge address", undefined, types.string)
+  .addOptionalParam("registry", "Registry file", undefined, types.string)
+  .setAction(
+    async (args: ValidatorTaskArgs, hre: HardhatRuntimeEnvironment) => {
+      const bridge = await getBridge(hre, args.bridge);
+      const path = registryPath(hre, args.registry);
+      const registry = loadRegistry(path, bridge.address);
+      const [activeValidatorSetId, proofTTL] = await Promise.all([
+        bridge.activeValidatorSetId(),
+        bridge.proofTTL()
+      ]);
+      const stale = new Set(
+        (await findStaleEntries(bridge, registry)).map((e) => e.validatorSetId)
+      );
+
+      console.log(
+        `Active validator set: ${activeValidatorSetId} (proof TTL ${proofTTL})`
+      );
+      for (const entry of Object.values(registry.sets)) {
+        const flag = stale.has(entry.validatorSetId)
+          ? " [digest differs on-chain]"
+          : "";
+        console.log(`${entry.validatorSetId}: ${entry.digest}${flag}`);
+        entry.validators?.forEach((v, i) => console.log(`  ${i}: ${v}`));
+      }
+    }
+  );
@@ -0,0 +1,80 @@
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { utils } from "ethers";
+import { readFileSync } from "fs";
+import {
+  parseWithdrawalProof,
+  prepareWithdrawalClaim,
+  sendWithdrawalClaim
+} from "../scripts/utils/withdraw";
+import { getPeg } from "./peg";
+import { confirm } from "./utils";
+
+// Root -> Ethereum withdrawals claimed by the user, without waiting for a relayer
+
+task(
+  "withdraw:claim",
+  "Submit a Root withdrawal proof to the Bridge and confirm the ERC20Peg Withdraw"
+)
+  .addOptionalParam(
+    "proof",
+    "Signed message JSON file (the relayer's proof format), - or omitted for stdin",
+    "-",
+    types.string
+  )
+  .addOptionalParam("peg", "ERC20Peg address", undefined, types.string)
+  .addFlag("dryRun", "Only check the claim, do not submit it")
+  .addFlag("yes", "Skip the confirmation prompt")
+  .setAction(
+    async (
+      args: { proof: string; peg?: string; dryRun: boolean; yes: boolean },
+      hre: HardhatRuntimeEnvironment
+    ) => {
+      const message = parseWithdrawalProof(
+        readFileSync(args.proof === "-" ? 0 : args.proof, "utf8")
+      );
+      const [claimer] = await hre.ethers.getSigners();
+      const peg = await getPeg(hre, args.peg);
+      const bridge = await hre.ethers.getContractAt(
+        "Bridge",
+        await peg.bridge(),
+        claimer
+      );
+
+      const claim = await prepareWithdrawalClaim(peg, bridge, claimer, message);
+      console.log(`eventId:    ${claim.eventId.toString()}`);
+      console.log(
+        `Withdrawal: ${utils.formatUnits(claim.amount, claim.decimals)} ${
+          claim.symbol
+        } (${claim.tokenAddress})`
+      );
+      console.log(`Recipient:  ${claim.recipient}`);
+      console.log(`Bridge fee: ${utils.formatEther(claim.bridgeFee)} ETH`);
+
+      if (claim.problems.length > 0) {
+        console.error("\nThe claim would fail:");
+        for (const problem of claim.problems) console.error(`- ${problem}`);
+        process.exitCode = 1;
+        return;
+      }
+      console.log("\nDry run passed");
+      if (args.dryRun) return;
+      if (
+        !(await confirm(
+          `Claim as ${claimer.address} on ${hre.network.name}?`,
+          args.yes
+        ))
+      ) {
+        console.log("Aborted");
+        return;
+      }
+
+      const result = await sendWithdrawalClaim(peg, bridge, claimer, claim);
+      console.log(
+        `Withdraw confirmed in block ${result.blockNumber}: ${utils.formatUnits(
+          result.amount,
+          claim.decimals
+        )} ${claim.symbol} to ${result.recipient} (${result.transactionHash})`
+      );
+    }
+  );
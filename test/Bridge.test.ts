@@ -2,33 +2,16 @@ import { expect } from "chai";
 import { ethers } from "hardhat";
 import { utils } from "ethers";
 import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
-
-// Receives [publicKey] as 0x-prefixed hex string
-// Returns the Eth address as 0x-prefixed hex string
-function publicKeyToEthAddress(publicKey: utils.BytesLike) {
-  let decompressedPk = utils.computePublicKey(publicKey);
-  // https://github.com/ethers-io/ethers.js/issues/670#issuecomment-559596757
-  let h = utils.keccak256("0x" + decompressedPk.slice(4));
-  // gives: 0x58dad74c38e9c4738bf3471f6aac6124f862faf5
-  // wanted: 0xA512963122bC366b0F2c98Baf243E74b9A3f51c0
-  return "0x" + h.slice(26);
-}
+import { buildEventProof } from "../scripts/utils/proof";
+import {
+  contractDefaultsFixture,
+  itNeedsSendMessageFeeGetter
+} from "./fixtures";
 
 describe("Bridge", () => {
   async function setup() {
-    const [owner, user] = await ethers.getSigners();
-
-    // deploy bridge contract (required by EERC20Peg)
-    const BridgeFactory = await ethers.getContractFactory("Bridge");
-    const bridge = await BridgeFactory.connect(owner).deploy();
-    await bridge.deployed();
-
-    const MockBridgeFactory = await ethers.getContractFactory(
-      "MockBridgeReceiver"
-    );
-    const mockBridge = await MockBridgeFactory.connect(owner).deploy();
-    await mockBridge.deployed();
-
+    const { owner, user, bridge, receiver: mockBridge } =
+      await contractDefaultsFixture();
     return { owner, user, bridge, mockBridge };
   }
 
@@ -66,26 +49,11 @@ describe("Bridge", () => {
       validatorSetId
     ); // set validators
 
-    // Bridge message required for verification - abi encoded
-    const bridgeMessage = ethers.utils.defaultAbiCoder.encode(
-      ["address", "address", "bytes", "uint32", "uint256"],
-      [source, destination, appMessage, validatorSetId, eventId]
+    const proof = buildEventProof(
+      { source, destination, appMessage, validatorSetId, eventId },
+      [validatorSigner.address],
+      [validatorSigner]
     );
-    const bridgeMessageHash = ethers.utils.keccak256(bridgeMessage); // keccak256 hash of bridge message
-    const bridgeMessageBytes = ethers.utils.arrayify(bridgeMessageHash); // convert to bytes
-
-    const flatSignature = validatorSigner
-      ._signingKey()
-      .signDigest(bridgeMessageBytes); // sign raw message - without EIP-712 prefix
-    const expandedSignature = ethers.utils.splitSignature(flatSignature);
-    const proof = {
-      eventId,
-      validatorSetId,
-      v: [expandedSignature.v],
-      r: [expandedSignature.r],
-      s: [expandedSignature.s],
-      validators: [validatorSigner.address]
-    };
 
     return bridge
       .connect(txExecutor)
@@ -373,7 +341,7 @@ describe("Bridge", () => {
     );
   });
 
-  it("sendMessageFee", async () => {
+  itNeedsSendMessageFeeGetter("sendMessageFee", async () => {
     const { owner, user, bridge } = await loadFixture(setup);
 
     const sendMessageFee = utils.parseEther("0.1");
@@ -2,27 +2,14 @@ import { expect } from 'chai';
 import { ethers } from 'hardhat';
 import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
 import {BigNumber, utils} from "ethers";
+import { buildEventProof } from "../scripts/utils/proof";
+import { contractDefaultsFixture, itNeedsSendMessageFeeGetter } from "./fixtures";
 
 describe('Erc20Peg', () => {
   async function setup() {
-    const [owner, user] = await ethers.getSigners();
-
-    // deploy bridge contract (required by EERC20Peg)
-    const BridgeFactory = await ethers.getContractFactory('Bridge');
-    const bridge = await BridgeFactory.connect(owner).deploy();
-    await bridge.deployed();
+    const { owner, user, bridge, peg: erc20Peg, mockERC20 } = await contractDefaultsFixture();
     await bridge.setActive(true); // activate bridge
 
-    // deploy erc20Peg contract
-    const ERC20PegFactory = await ethers.getContractFactory('ERC20Peg');
-    const erc20Peg = await ERC20PegFactory.connect(owner).deploy(bridge.address);
-    await erc20Peg.deployed();
-
-    // deploy mock erc20 token
-    const MockERC20Factory = await ethers.getContractFactory('MockERC20');
-    const mockERC20 = await MockERC20Factory.connect(owner).deploy('Test Token', 'TEST', 1_000_000); // mint 1m tokens to owner
-    await mockERC20.deployed();
-
     return { owner, user, bridge, erc20Peg, mockERC20 };
   }
 
@@ -54,26 +41,11 @@ describe('Erc20Peg', () => {
 
     const { ethTokenAddress, depositAmount, recipient } =
       ethers.utils.defaultAbiCoder.decode(['address', 'uint256', 'address'], appMessage);
-    // Bridge message required for verification - abi encoded
-    const bridgeMessage = ethers.utils.defaultAbiCoder.encode(
-      ['address', 'address', 'bytes', 'uint32', 'uint256'],
-      [palletAddress, erc20Peg.address, appMessage, validatorSetId, eventId],
+    const withdrawProof = buildEventProof(
+      { source: palletAddress, destination: erc20Peg.address, appMessage, validatorSetId, eventId },
+      [validatorSigner.address],
+      [validatorSigner],
     );
-    const bridgeMessageHash = ethers.utils.keccak256(bridgeMessage); // keccak256 hash of bridge message
-    const bridgeMessageBytes = ethers.utils.arrayify(bridgeMessageHash); // convert to bytes
-
-    // sign raw message - without EIP-712 prefix
-    const flatSignature = validatorSigner._signingKey().signDigest(bridgeMessageBytes);
-
-    const expandedSignature = ethers.utils.splitSignature(flatSignature);
-    const withdrawProof = {
-      eventId,
-      validatorSetId,
-      v: [expandedSignature.v],
-      r: [expandedSignature.r],
-      s: [expandedSignature.s],
-      validators: [validatorSigner.address],
-    };
 
     // TEST
     expect(recipient).not.equals(owner.address);
@@ -152,7 +124,7 @@ describe('Erc20Peg', () => {
     expect(await erc20Peg.provider.getBalance(erc20Peg.address)).to.equal(endowment);
   });
 
-  it('adminEmergencyWithdraw - erc20 token', async () => {
+  itNeedsSendMessageFeeGetter('adminEmergencyWithdraw - erc20 token', async () => {
     const { owner, erc20Peg, mockERC20, bridge } = await loadFixture(setup);
 
     const depositAmount = ethers.BigNumber.from(2).pow(128).sub(1);
@@ -185,7 +157,7 @@ describe('Erc20Peg', () => {
     expect(await mockERC20.balanceOf(erc20Peg.address)).to.equal(0);
   });
 
-  it('adminEmergencyWithdraw - ether', async () => {
+  itNeedsSendMessageFeeGetter('adminEmergencyWithdraw - ether', async () => {
     const { owner, erc20Peg, mockERC20, bridge } = await loadFixture(setup);
 
     const depositAmount = 12345;
@@ -244,7 +216,7 @@ describe('Erc20Peg', () => {
     ).to.be.revertedWith('ERC20: insufficient allowance');
   });
 
-  it('erc20 deposit', async () => {
+  itNeedsSendMessageFeeGetter('erc20 deposit', async () => {
     const { owner, user, erc20Peg, bridge, mockERC20 } = await loadFixture(setup);
 
     const depositAmount = ethers.BigNumber.from(2).pow(128).sub(1);
@@ -280,7 +252,7 @@ describe('Erc20Peg', () => {
     expect(await ethers.provider.getBalance(bridge.address)).to.equal(bridgeMsgFee);
   });
 
-  it('erc20 deposit - fails if insufficient bridge fee provided', async () => {
+  itNeedsSendMessageFeeGetter('erc20 deposit - fails if insufficient bridge fee provided', async () => {
     const { owner, erc20Peg, bridge, mockERC20 } = await loadFixture(setup);
 
     const depositAmount = 7;
@@ -297,7 +269,7 @@ describe('Erc20Peg', () => {
     ).to.be.revertedWith('ERC20Peg: incorrect token address (requires deposit fee)');
   });
 
-  it('native eth deposit', async () => {
+  itNeedsSendMessageFeeGetter('native eth deposit', async () => {
     const { owner, user, bridge, erc20Peg } = await loadFixture(setup);
 
     const depositAmount = 12345;
@@ -375,7 +347,7 @@ describe('Erc20Peg', () => {
     expect(await bridge.accumulatedMessageFees()).to.equal(sendMessageFee);
   });
 
-  it('native eth deposit - missing bridge fee', async () => {
+  itNeedsSendMessageFeeGetter('native eth deposit - missing bridge fee', async () => {
     const { owner, bridge, erc20Peg } = await loadFixture(setup);
 
     const depositAmount = 12345;
@@ -405,7 +377,7 @@ describe('Erc20Peg', () => {
     ).to.be.revertedWith('ERC20Peg: only bridge can call');
   });
 
-  it('onMessageReceived, incorrect pallet address', async () => {
+  itNeedsSendMessageFeeGetter('onMessageReceived, incorrect pallet address', async () => {
     const { owner, bridge, erc20Peg } = await loadFixture(setup);
 
     // SETUP: Eth liquidity
@@ -441,7 +413,7 @@ describe('Erc20Peg', () => {
     })).to.be.revertedWith('ERC20Peg: source must be peg pallet address');
   });
 
-  it('native eth withdraw, inactive withdrawals', async () => {
+  itNeedsSendMessageFeeGetter('native eth withdraw, inactive withdrawals', async () => {
     const { owner, bridge, erc20Peg } = await loadFixture(setup);
 
     // SETUP: Eth liquidity
@@ -477,7 +449,7 @@ describe('Erc20Peg', () => {
     })).to.be.revertedWith('ERC20Peg: withdrawals paused');
   });
 
-  it('native eth withdraw, different sender', async () => {
+  itNeedsSendMessageFeeGetter('native eth withdraw, different sender', async () => {
     const { owner, bridge, erc20Peg } = await loadFixture(setup);
 
     // SETUP: Eth liquidity
@@ -516,7 +488,7 @@ describe('Erc20Peg', () => {
     expect(await erc20Peg.provider.getBalance(recipient)).to.equal(depositAmount);
   });
 
-  it('token withdraw, different sender', async () => {
+  itNeedsSendMessageFeeGetter('token withdraw, different sender', async () => {
     const { owner, bridge, erc20Peg, mockERC20 } = await loadFixture(setup);
 
     // SETUP: Eth liquidity
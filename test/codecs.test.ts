@@ -0,0 +1,93 @@
+import { expect } from "chai";
+import { Wallet, constants, utils } from "ethers";
+import {
+  BRIDGE_PALLET_ADDRESS,
+  PEG_PALLET_ADDRESS,
+  bridgeCodecRegistry,
+  decodePayload,
+  encodePayload,
+  pegDepositCodec,
+  validatorSetCodec
+} from "../scripts/utils/codecs";
+
+describe("Payload codecs", () => {
+  const peg = Wallet.createRandom().address;
+  const bridge = Wallet.createRandom().address;
+  const user = Wallet.createRandom().address;
+  const deposit = {
+    tokenAddress: constants.AddressZero,
+    amount: utils.parseEther("1.5").toString(),
+    destination: user
+  };
+
+  it("encodes the peg payload as ERC20Peg abi.encodes it", () => {
+    const message = encodePayload(pegDepositCodec, deposit);
+    expect(message).to.equal(
+      utils.defaultAbiCoder.encode(
+        ["address", "uint128", "address"],
+        [deposit.tokenAddress, deposit.amount, deposit.destination]
+      )
+    );
+    expect(decodePayload(pegDepositCodec, message)).to.deep.equal(deposit);
+  });
+
+  it("rejects truncated, padded and out of range payloads", () => {
+    const message = encodePayload(pegDepositCodec, deposit);
+    expect(() =>
+      decodePayload(pegDepositCodec, message.slice(0, -2))
+    ).to.throw();
+    expect(() => decodePayload(pegDepositCodec, message + "00")).to.throw(
+      "Malformed (address, uint128, address) payload: 97 bytes, expected 96"
+    );
+    // amount above uint128
+    const wide = utils.defaultAbiCoder.encode(
+      ["address", "uint256", "address"],
+      [deposit.tokenAddress, constants.MaxUint256, user]
+    );
+    expect(() => decodePayload(pegDepositCodec, wide)).to.throw();
+  });
+
+  it("checks maxMessageLength", () => {
+    const update = {
+      validators: Array.from({ length: 30 }, () => user),
+      validatorSetId: 2
+    };
+    // array offset, id, array length and one word per validator
+    const length = 3 * 32 + 30 * 32;
+    expect(
+      utils.hexDataLength(encodePayload(validatorSetCodec, update, length))
+    ).to.equal(length);
+    expect(() => encodePayload(validatorSetCodec, update, 1024)).to.throw(
+      "Message is 1056 bytes, exceeds maxMessageLength 1024"
+    );
+  });
+
+  it("matches messages by contract or pallet in either direction", () => {
+    const codecs = bridgeCodecRegistry({ bridge, pegs: [peg] });
+    const message = codecs.encode("ERC20Peg", deposit);
+
+    // outgoing deposit, incoming withdrawal
+    expect(codecs.decode(peg, PEG_PALLET_ADDRESS, message)).to.deep.equal({
+      app: "ERC20Peg",
+      payload: deposit
+    });
+    expect(codecs.decode(PEG_PALLET_ADDRESS, peg, message)?.app).to.equal(
+      "ERC20Peg"
+    );
+
+    const update = codecs.encode("Bridge", {
+      validators: [user],
+      validatorSetId: 7
+    });
+    const decoded = codecs.decode(BRIDGE_PALLET_ADDRESS, bridge, update);
+    expect(decoded?.app === "Bridge" && decoded.payload).to.deep.equal({
+      validators: [user],
+      validatorSetId: 7
+    });
+
+    expect(codecs.decode(user, user, message)).to.be.undefined;
+    expect(() => codecs.decode(peg, PEG_PALLET_ADDRESS, update)).to.throw(
+      "Malformed"
+    );
+  });
+});
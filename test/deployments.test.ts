@@ -0,0 +1,139 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { PEG_PALLET_ADDRESS } from "../scripts/utils/codecs";
+import { writeJsonFile } from "../scripts/utils/jsonStore";
+import {
+  DeploymentManifest,
+  loadManifest,
+  runDeployPipeline
+} from "../scripts/utils/deployments";
+import { deployPipelineOptions, tempManifestPath } from "./fixtures";
+
+describe("Deploy pipeline", () => {
+  it("deploys, configures and records every contract and step", async () => {
+    const [deployer] = await ethers.getSigners();
+    const manifestPath = tempManifestPath();
+    const options = await deployPipelineOptions({ manifestPath });
+
+    const manifest = await runDeployPipeline(options);
+    expect(Object.keys(manifest.contracts)).to.deep.equal([
+      "Bridge",
+      "ERC20Peg",
+      "Token"
+    ]);
+    expect(Object.keys(manifest.steps)).to.deep.equal([
+      "Bridge.setActive",
+      "Token.init",
+      "ERC20Peg.setDepositsActive",
+      "ERC20Peg.setWithdrawalsActive",
+      "ERC20Peg.setPalletAddress"
+    ]);
+    const { Bridge, ERC20Peg, Token } = manifest.contracts;
+    expect(Bridge).to.include({ status: "done", deployer: deployer.address });
+    expect(ERC20Peg.constructorArgs).to.deep.equal([Bridge.address]);
+    expect(Token.constructorArgs).to.deep.equal([
+      options.config.rolesManager,
+      options.config.tokenManager,
+      options.config.multisig
+    ]);
+    expect(Token.blockNumber).to.be.a("number");
+    expect(manifest.steps["Token.init"]).to.deep.include({
+      from: options.config.tokenManager,
+      args: [ERC20Peg.address]
+    });
+
+    const bridge = await ethers.getContractAt("Bridge", Bridge.address);
+    const peg = await ethers.getContractAt("ERC20Peg", ERC20Peg.address);
+    const token = await ethers.getContractAt("Token", Token.address);
+    expect(await bridge.active()).to.be.true;
+    expect(await peg.bridge()).to.equal(bridge.address);
+    expect(await peg.depositsActive()).to.be.true;
+    expect(await peg.withdrawalsActive()).to.be.true;
+    expect(await peg.palletAddress()).to.equal(PEG_PALLET_ADDRESS);
+    expect(await token.peg()).to.equal(peg.address);
+
+    // a rerun has nothing left to do
+    const nonce = await deployer.getTransactionCount();
+    expect(await runDeployPipeline(options)).to.deep.equal(
+      loadManifest(manifestPath, "hardhat", 31337)
+    );
+    expect(await deployer.getTransactionCount()).to.equal(nonce);
+  });
+
+  it("resumes from the failed step", async () => {
+    const [deployer, , , , notTokenManager] = await ethers.getSigners();
+    const manifestPath = tempManifestPath();
+
+    // `Token.init` reverts without MANAGER_ROLE
+    await expect(
+      runDeployPipeline(
+        await deployPipelineOptions({
+          manifestPath,
+          tokenManager: notTokenManager
+        })
+      )
+    ).to.be.rejected;
+    const partial = loadManifest(manifestPath, "hardhat", 31337);
+    expect(Object.keys(partial.steps)).to.deep.equal(["Bridge.setActive"]);
+
+    const nonce = await deployer.getTransactionCount();
+    const manifest = await runDeployPipeline(
+      await deployPipelineOptions({ manifestPath })
+    );
+    expect(manifest.contracts).to.deep.equal(partial.contracts);
+    expect(manifest.steps["Bridge.setActive"]).to.deep.equal(
+      partial.steps["Bridge.setActive"]
+    );
+    expect(manifest.steps["Token.init"].status).to.equal("done");
+    // only the three ERC20Peg setup steps were sent by the deployer
+    expect(await deployer.getTransactionCount()).to.equal(nonce + 3);
+  });
+
+  it("refuses a manifest for another chain or other constructor args", async () => {
+    const manifestPath = tempManifestPath();
+    const options = await deployPipelineOptions({ manifestPath });
+    const manifest: DeploymentManifest = {
+      network: "hardhat",
+      chainId: 1,
+      contracts: {},
+      steps: {}
+    };
+    writeJsonFile(manifestPath, manifest);
+    await expect(runDeployPipeline(options)).to.be.rejectedWith(
+      "is for chain 1, connected to chain 31337"
+    );
+
+    writeJsonFile(manifestPath, {
+      ...manifest,
+      chainId: 31337,
+      contracts: {
+        Bridge: {
+          status: "done",
+          address: ethers.constants.AddressZero,
+          transactionHash: ethers.constants.HashZero,
+          constructorArgs: ["0x01"],
+          deployer: await options.deployer.getAddress()
+        }
+      }
+    });
+    await expect(runDeployPipeline(options)).to.be.rejectedWith(
+      "remove it from the manifest to redeploy"
+    );
+  });
+
+  it("refuses a step recorded with other args", async () => {
+    const manifestPath = tempManifestPath();
+    const options = await deployPipelineOptions({ manifestPath });
+    await runDeployPipeline(options);
+
+    const otherPallet = "0x6D6f646c65726332307065670000000000000001";
+    await expect(
+      runDeployPipeline({
+        ...options,
+        config: { ...options.config, palletAddress: otherPallet }
+      })
+    ).to.be.rejectedWith(
+      `ERC20Peg.setPalletAddress in ${manifestPath} was sent with args ["${PEG_PALLET_ADDRESS}"], not ["${otherPallet}"]`
+    );
+  });
+});
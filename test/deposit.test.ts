@@ -0,0 +1,72 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { constants, utils } from "ethers";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { prepareDeposit, sendDeposit } from "../scripts/utils/deposit";
+import { bridgeFixture } from "./fixtures";
+
+describe("Deposit CLI", () => {
+  const destination = "0x1234567890123456789012345678901234567890";
+
+  it("pays the message fee the bridge enforces", async () => {
+    const { user, bridge, peg } = await loadFixture(bridgeFixture);
+
+    // `sendMessageFee()` reads 0 while the bridge charges `_sendMessageFee`
+    expect(await bridge.sendMessageFee()).to.equal(0);
+    const prepared = await prepareDeposit(peg, bridge, user, {
+      token: "ETH",
+      amount: "1",
+      destination
+    });
+    const fee = utils.parseEther("0.0003");
+    expect(prepared.messageFee).to.equal(fee);
+    expect(prepared.value).to.equal(utils.parseEther("1").add(fee));
+
+    const result = await sendDeposit(peg, bridge, user, prepared);
+    expect(result.deposit).to.include({
+      depositor: user.address,
+      tokenAddress: constants.AddressZero,
+      destination
+    });
+    expect(result.message.fee).to.equal(fee);
+    expect(await bridge.accumulatedMessageFees()).to.equal(fee);
+    expect(await ethers.provider.getBalance(peg.address)).to.equal(
+      utils.parseEther("1")
+    );
+  });
+
+  it("follows a raised message fee", async () => {
+    const { deployer, user, bridge, peg } = await loadFixture(bridgeFixture);
+    const fee = utils.parseEther("0.01");
+    await bridge.connect(deployer).setSendMessageFee(fee);
+
+    const prepared = await prepareDeposit(peg, bridge, user, {
+      token: "ETH",
+      amount: "0.5",
+      destination
+    });
+    const result = await sendDeposit(peg, bridge, user, prepared);
+    expect(result.message.fee).to.equal(fee);
+  });
+
+  it("refuses deposits the peg would reject", async () => {
+    const { deployer, user, bridge, peg } = await loadFixture(bridgeFixture);
+
+    await expect(
+      prepareDeposit(peg, bridge, user, {
+        token: "ETH",
+        amount: "1",
+        destination: "0x1234"
+      })
+    ).to.be.rejectedWith("Invalid destination address: 0x1234");
+
+    await peg.connect(deployer).setDepositsActive(false);
+    await expect(
+      prepareDeposit(peg, bridge, user, {
+        token: "ETH",
+        amount: "1",
+        destination
+      })
+    ).to.be.rejectedWith("ERC20Peg: deposits paused");
+  });
+});
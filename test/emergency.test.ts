@@ -0,0 +1,136 @@
+import { expect } from "chai";
+import { ethers, network } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  executeEmergencyPlan,
+  planEmergency,
+  readEmergencyStatus,
+  unconfirmedSteps
+} from "../scripts/utils/emergency";
+import { impersonate } from "../scripts/utils/fork";
+import { deployContracts } from "./fixtures";
+
+describe("Emergency runbook", () => {
+  // MULTISIG_ROLE holder - given code so it is treated as a Safe
+  const safe = "0x0000000000000000000000000000000000005afe";
+
+  async function setup() {
+    await network.provider.send("hardhat_setCode", [safe, "0x00"]);
+    // the fourth signer holds no role - `safe` is the multisig
+    const {
+      deployer,
+      tokenManager,
+      multisig: other,
+      bridge,
+      peg,
+      token
+    } = await deployContracts({ multisig: safe });
+    const contracts = { Bridge: bridge, ERC20Peg: peg, Token: token };
+    return { deployer, tokenManager, other, contracts };
+  }
+
+  const live = {
+    bridgeActive: true,
+    depositsActive: true,
+    withdrawalsActive: true,
+    tokenPaused: false
+  };
+
+  it("plans only the calls still needed, in order", () => {
+    expect(planEmergency("halt", live).map((s) => s.method)).to.deep.equal([
+      "setActive",
+      "setWithdrawalsActive",
+      "setDepositsActive",
+      "pause"
+    ]);
+    expect(
+      planEmergency("resume", {
+        ...live,
+        depositsActive: false,
+        tokenPaused: true
+      }).map((s) => `${s.contract}.${s.method}`)
+    ).to.deep.equal(["Token.unpause", "ERC20Peg.setDepositsActive"]);
+    expect(planEmergency("resume", live)).to.be.empty;
+  });
+
+  it("halts with the owner and MANAGER_ROLE signers", async () => {
+    const { deployer, tokenManager, contracts } = await loadFixture(setup);
+    expect(await readEmergencyStatus(contracts)).to.deep.equal(live);
+
+    const result = await executeEmergencyPlan({
+      action: "halt",
+      contracts,
+      steps: planEmergency("halt", live),
+      signers: [deployer, tokenManager],
+      provider: ethers.provider,
+      log: () => {}
+    });
+    expect(result.executed).to.have.length(4);
+    expect(result.multisig).to.be.empty;
+
+    const status = await readEmergencyStatus(contracts);
+    expect(status).to.deep.equal({
+      bridgeActive: false,
+      depositsActive: false,
+      withdrawalsActive: false,
+      tokenPaused: true
+    });
+    expect(unconfirmedSteps(result, status)).to.be.empty;
+  });
+
+  it("leaves the unpause to the multisig and defers the rest", async () => {
+    const { deployer, tokenManager, contracts } = await loadFixture(setup);
+    const run = async () =>
+      executeEmergencyPlan({
+        action: "resume",
+        contracts,
+        steps: planEmergency("resume", await readEmergencyStatus(contracts)),
+        signers: [deployer],
+        roleHolders: [safe],
+        provider: ethers.provider,
+        log: () => {}
+      });
+    await executeEmergencyPlan({
+      action: "halt",
+      contracts,
+      steps: planEmergency("halt", live),
+      signers: [deployer, tokenManager],
+      provider: ethers.provider,
+      log: () => {}
+    });
+
+    const pending = await run();
+    expect(pending.executed).to.be.empty;
+    expect(
+      pending.multisig[ethers.utils.getAddress(safe)].map((s) => s.method)
+    ).to.deep.equal(["unpause"]);
+    expect(pending.deferred.map((s) => s.method)).to.deep.equal([
+      "setDepositsActive",
+      "setWithdrawalsActive",
+      "setActive"
+    ]);
+    expect(await contracts.Bridge.active()).to.be.false;
+
+    // the Safe executes its batch, the re-run completes the resume
+    await contracts.Token.connect(
+      await impersonate(ethers.provider, safe)
+    ).unpause();
+    const resumed = await run();
+    expect(resumed.executed).to.have.length(3);
+    expect(await readEmergencyStatus(contracts)).to.deep.equal(live);
+  });
+
+  it("refuses authorities without a configured key", async () => {
+    const { other, contracts } = await loadFixture(setup);
+    await expect(
+      executeEmergencyPlan({
+        action: "halt",
+        contracts,
+        steps: planEmergency("halt", live),
+        signers: [other],
+        provider: ethers.provider,
+        log: () => {}
+      })
+    ).to.be.rejectedWith("which is not a configured account");
+  });
+});
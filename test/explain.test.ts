@@ -0,0 +1,171 @@
+import { expect } from "chai";
+import { ethers, network } from "hardhat";
+import { constants, utils } from "ethers";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { encodePayload, pegDepositCodec } from "../scripts/utils/codecs";
+import {
+  KnownContract,
+  decodeRevert,
+  explainTransaction
+} from "../scripts/utils/explain";
+import { buildEventProof } from "../scripts/utils/proof";
+import { deployContracts } from "./fixtures";
+
+describe("Transaction explainer", () => {
+  const pegPallet = utils.getAddress(
+    "0x6D6f646c65726332307065670000000000000000"
+  );
+  const destination = "0x00000000000000000000000000000000000000AA";
+
+  async function setup() {
+    const { deployer, user, bridge, peg, token } = await deployContracts({
+      palletAddress: pegPallet
+    });
+    const known: KnownContract[] = [
+      { name: "Bridge", address: bridge.address, interface: bridge.interface },
+      { name: "ERC20Peg", address: peg.address, interface: peg.interface },
+      { name: "Token", address: token.address, interface: token.interface }
+    ];
+
+    // alice
+    const validator = new ethers.Wallet(
+      "0xcb6df9de1efca7a3998a8ead4e02159d5fa99c3e0d4fd6432667390bb4726854"
+    );
+    await bridge.forceActiveValidatorSet([validator.address], 1);
+
+    return { deployer, user, bridge, peg, token, known, validator };
+  }
+
+  it("explains a deposit and its nested peg message", async () => {
+    const { user, bridge, peg, known } = await loadFixture(setup);
+    const amount = utils.parseEther("1");
+    const tx = await peg
+      .connect(user)
+      .deposit(constants.AddressZero, amount, destination, {
+        value: amount.add(utils.parseEther("0.0003"))
+      });
+
+    const explanation = await explainTransaction(
+      ethers.provider,
+      tx.hash,
+      known
+    );
+    expect(explanation.status).to.equal("success");
+    expect(explanation.call).to.deep.equal({
+      contract: "ERC20Peg",
+      method: "deposit",
+      args: {
+        _tokenAddress: constants.AddressZero,
+        _amount: amount.toString(),
+        _destination: utils.getAddress(destination)
+      }
+    });
+    const sent = explanation.events.find((e) => e.name === "SendMessage");
+    expect(sent?.contract).to.equal("Bridge");
+    expect(sent?.message).to.deep.equal({
+      kind: "peg",
+      tokenAddress: constants.AddressZero,
+      amount: amount.toString(),
+      destination: utils.getAddress(destination)
+    });
+    expect(explanation.summary).to.deep.equal([
+      `${user.address} called ERC20Peg.deposit with 1.0003 ETH`,
+      `${user.address} deposited 1.0 ETH for ${utils.getAddress(
+        destination
+      )} on Root`,
+      `Bridge message #0 sent from ERC20Peg to ${pegPallet} with a 0.0003 ETH fee carrying 1.0 ETH for ${utils.getAddress(
+        destination
+      )}`
+    ]);
+    expect(await bridge.sentEventId()).to.equal(1);
+  });
+
+  it("explains a withdrawal and the revert of a replayed proof", async () => {
+    const { user, bridge, peg, known, validator } = await loadFixture(setup);
+    const amount = utils.parseEther("0.5");
+    await peg.endow({ value: amount });
+
+    const appMessage = encodePayload(pegDepositCodec, {
+      tokenAddress: constants.AddressZero,
+      amount: amount.toString(),
+      destination: user.address
+    });
+    const proof = buildEventProof(
+      {
+        source: pegPallet,
+        destination: peg.address,
+        appMessage,
+        validatorSetId: 1,
+        eventId: 7
+      },
+      [validator.address],
+      [validator]
+    );
+    const relay = () =>
+      bridge
+        .connect(user)
+        .receiveMessage(pegPallet, peg.address, appMessage, proof, {
+          value: utils.parseEther("0.004"),
+          gasLimit: 1_000_000
+        });
+
+    const withdrawal = await relay();
+    const explained = await explainTransaction(
+      ethers.provider,
+      withdrawal.hash,
+      known
+    );
+    expect(explained.events.map((e) => e.name)).to.deep.equal([
+      "MessageReceived",
+      "Withdraw"
+    ]);
+    expect(explained.events[0].message).to.include({
+      kind: "peg",
+      amount: amount.toString(),
+      destination: user.address
+    });
+    expect(explained.summary).to.include(
+      `Bridge event #7 from ${pegPallet} verified and delivered to ERC20Peg carrying 0.5 ETH for ${user.address}`
+    );
+
+    // Hardhat only mines reverted transactions when automine is off
+    await network.provider.send("evm_setAutomine", [false]);
+    const replayed = await relay();
+    await network.provider.send("evm_mine");
+    await network.provider.send("evm_setAutomine", [true]);
+
+    const failed = await explainTransaction(
+      ethers.provider,
+      replayed.hash,
+      known
+    );
+    expect(failed.status).to.equal("reverted");
+    expect(failed.events).to.be.empty;
+    expect(failed.revert).to.deep.equal({
+      kind: "reason",
+      message: "Bridge: eventId replayed"
+    });
+    expect(failed.summary[failed.summary.length - 1]).to.equal(
+      "Reverted: Bridge: eventId replayed"
+    );
+  });
+
+  it("decodes custom errors and empty reverts", async () => {
+    const { token } = await loadFixture(setup);
+    const interfaces = [token.interface];
+    for (const name of [
+      "InvalidAddress",
+      "AlreadyInitialized",
+      "UseDepositInsteadOfTransfer"
+    ]) {
+      expect(
+        decodeRevert(token.interface.encodeErrorResult(name, []), interfaces)
+      ).to.deep.equal({ kind: "custom", name, message: `${name}()` });
+    }
+    expect(decodeRevert("0x", interfaces).kind).to.equal("empty");
+    expect(decodeRevert("0xdeadbeef", interfaces)).to.deep.equal({
+      kind: "unknown",
+      message: "unknown error 0xdeadbeef"
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { constants, utils } from "ethers";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { encodePayload, pegDepositCodec } from "../scripts/utils/codecs";
+import {
+  depositMessageFee,
+  quoteDeposit,
+  quoteRelay
+} from "../scripts/utils/fees";
+import { buildEventProof } from "../scripts/utils/proof";
+import { deployContracts } from "./fixtures";
+
+describe("Fee quotes", () => {
+  const pegPallet = "0x6D6f646c65726332307065670000000000000000";
+  const destination = "0x00000000000000000000000000000000000000AA";
+
+  async function setup() {
+    const { user, bridge, peg, token } = await deployContracts({
+      palletAddress: pegPallet
+    });
+
+    const validators = Array.from({ length: 5 }, () =>
+      ethers.Wallet.createRandom()
+    );
+    await bridge.forceActiveValidatorSet(
+      validators.map((v) => v.address),
+      1
+    );
+    return { user, bridge, peg, token, validators };
+  }
+
+  it("quotes the message fee the bridge enforces", async () => {
+    const { bridge } = await loadFixture(setup);
+    // sendMessageFee() returns the unrelated `messageFee`, unset by default
+    expect(await bridge.sendMessageFee()).to.equal(0);
+    expect(await depositMessageFee(bridge)).to.equal(
+      utils.parseEther("0.0003")
+    );
+
+    await bridge.setSendMessageFee(utils.parseEther("0.001"));
+    expect(await depositMessageFee(bridge)).to.equal(utils.parseEther("0.001"));
+
+    await bridge.setMessageFee(utils.parseEther("0.002"));
+    expect(await depositMessageFee(bridge)).to.equal(utils.parseEther("0.002"));
+  });
+
+  it("quotes an ETH deposit the peg accepts", async () => {
+    const { user, bridge, peg } = await loadFixture(setup);
+    const amount = utils.parseEther("1");
+    const gasPrice = utils.parseUnits("2", "gwei");
+
+    const quote = await quoteDeposit({
+      peg,
+      bridge,
+      token: "ETH",
+      amount,
+      destination,
+      from: user.address,
+      gasPrice
+    });
+    expect(quote.tokenAddress).to.equal(constants.AddressZero);
+    expect(quote.messageFee).to.equal(utils.parseEther("0.0003"));
+    expect(quote.value).to.equal(amount.add(quote.messageFee));
+    expect(quote.approvalRequired).to.be.false;
+    expect(quote.gas!.gasPrice).to.equal(gasPrice);
+    expect(quote.gas!.cost).to.equal(quote.gas!.gasLimit.mul(gasPrice));
+    expect(quote.totalCost).to.equal(quote.value.add(quote.gas!.cost));
+
+    const receipt = await (
+      await peg
+        .connect(user)
+        .deposit(constants.AddressZero, amount, destination, {
+          value: quote.value,
+          gasLimit: quote.gas!.gasLimit
+        })
+    ).wait();
+    expect(receipt.status).to.equal(1);
+  });
+
+  it("flags ERC20 deposits that need an approval", async () => {
+    const { user, bridge, peg, token } = await loadFixture(setup);
+    const quote = await quoteDeposit({
+      peg,
+      bridge,
+      token: token.address,
+      amount: 1000,
+      destination,
+      from: user.address
+    });
+    expect(quote.value).to.equal(quote.messageFee);
+    expect(quote.approvalRequired).to.be.true;
+    expect(quote.gas).to.be.undefined;
+    expect(quote.totalCost).to.equal(quote.messageFee);
+  });
+
+  it("counts the signatures checked before the threshold", async () => {
+    const { user, bridge, peg, validators } = await loadFixture(setup);
+    await peg.endow({ value: utils.parseEther("1") });
+    const message = {
+      source: pegPallet,
+      destination: peg.address,
+      appMessage: encodePayload(pegDepositCodec, {
+        tokenAddress: constants.AddressZero,
+        amount: "1000",
+        destination: user.address
+      })
+    };
+    const proof = (signers: typeof validators) =>
+      buildEventProof(
+        { ...message, validatorSetId: 1, eventId: 1 },
+        validators.map((v) => v.address),
+        signers
+      );
+
+    // 60% of 5 validators - the fourth signature is never recovered
+    const quote = await quoteRelay({
+      bridge,
+      message,
+      proof: proof(validators.slice(0, 4)),
+      from: user.address
+    });
+    expect(quote).to.include({
+      validators: 5,
+      signatures: 4,
+      signaturesRequired: 3,
+      signaturesChecked: 3
+    });
+    expect(quote.verificationFee).to.equal(await bridge.bridgeFee());
+    expect(quote.totalCost).to.equal(
+      quote.verificationFee.add(quote.gas!.cost)
+    );
+
+    // below the threshold the estimate reverts
+    await expect(
+      quoteRelay({
+        bridge,
+        message,
+        proof: proof(validators.slice(0, 2)),
+        from: user.address
+      })
+    ).to.be.rejected;
+
+    const toBridge = await quoteRelay({
+      bridge,
+      message: { ...message, destination: bridge.address },
+      proof: proof(validators)
+    });
+    expect(toBridge.verificationFee).to.equal(0);
+    expect(toBridge.gas).to.be.undefined;
+  });
+});
@@ -0,0 +1,89 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Wallet, constants, utils } from "ethers";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  ALICE_PRIVATE_KEY,
+  bridgeFixture,
+  depositFunds,
+  publicKeyToEthAddress,
+  relayMessage,
+  validatorWallets,
+  withdrawFunds
+} from "./fixtures";
+
+describe("Test fixtures", () => {
+  it("derives the same validators on every run", () => {
+    const validators = validatorWallets(3);
+    expect(validators.map((v) => v.address)).to.deep.equal(
+      validatorWallets(3).map((v) => v.address)
+    );
+    expect(new Set(validators.map((v) => v.address)).size).to.equal(3);
+    expect(validatorWallets(1, "next")[0].address).not.to.equal(
+      validators[0].address
+    );
+  });
+
+  it("converts Root ECDSA public keys to Eth addresses", () => {
+    const alice = new Wallet(ALICE_PRIVATE_KEY);
+    expect(alice.address).to.equal(
+      "0xE04CC55ebEE1cBCE552f250e85c57B70B2E2625b"
+    );
+    expect(
+      publicKeyToEthAddress(utils.computePublicKey(alice.publicKey, true))
+    ).to.equal(alice.address);
+    expect(publicKeyToEthAddress(alice.publicKey)).to.equal(alice.address);
+  });
+
+  it("pushes Eth and ERC20s through deposit and withdraw", async () => {
+    const f = await loadFixture(bridgeFixture);
+    const before = await f.mockERC20.balanceOf(f.user.address);
+
+    const eth = await depositFunds(f, { amount: "1" });
+    expect(eth.deposit.amount).to.equal(utils.parseEther("1"));
+    const erc20 = await depositFunds(f, {
+      token: f.mockERC20.address,
+      amount: "250"
+    });
+    expect(erc20.message.messageId).to.equal(eth.message.messageId.add(1));
+    expect(await f.mockERC20.balanceOf(f.peg.address)).to.equal(
+      utils.parseEther("250")
+    );
+
+    const recipient = Wallet.createRandom().address;
+    await withdrawFunds(f, { amount: utils.parseEther("0.4"), recipient });
+    await withdrawFunds(f, {
+      tokenAddress: f.mockERC20.address,
+      amount: utils.parseEther("250")
+    });
+    expect(await ethers.provider.getBalance(recipient)).to.equal(
+      utils.parseEther("0.4")
+    );
+    expect(await f.mockERC20.balanceOf(f.user.address)).to.equal(before);
+  });
+
+  it("pays the enforced message fee on deposits", async () => {
+    const f = await loadFixture(bridgeFixture);
+    const fee = utils.parseEther("0.01");
+    await f.bridge.setSendMessageFee(fee);
+
+    const { message } = await depositFunds(f, { amount: "1" });
+    expect(message.fee).to.equal(fee);
+    expect(await f.bridge.accumulatedMessageFees()).to.equal(fee);
+  });
+
+  it("delivers messages to the mock receiver", async () => {
+    const f = await loadFixture(bridgeFixture);
+    const source = "0x0000000000000000000000000000000000000001";
+    await relayMessage(f, {
+      source,
+      destination: f.receiver.address,
+      appMessage: "0x1234"
+    });
+    expect(await f.receiver.lastSource()).to.equal(source);
+    expect(await f.receiver.lastMessage()).to.equal("0x1234");
+    expect(await f.receiver.messagesReceived()).to.equal(1);
+    expect(await f.bridge.active()).to.be.true;
+    expect(await f.token.balanceOf(f.peg.address)).to.be.gt(constants.Zero);
+  });
+});
@@ -0,0 +1,23 @@
+import { Wallet, utils } from "ethers";
+
+// Alice's default Root ECDSA key - address 0xE04CC55ebEE1cBCE552f250e85c57B70B2E2625b
+export const ALICE_PRIVATE_KEY =
+  "0xcb6df9de1efca7a3998a8ead4e02159d5fa99c3e0d4fd6432667390bb4726854";
+
+/**
+ * `count` validator wallets derived from `seed` - the same keys on every run, so addresses and proofs are reproducible
+ * Use a different seed for the next validator set of a rotation
+ */
+export function validatorWallets(count: number, seed = "validator"): Wallet[] {
+  return Array.from(
+    { length: count },
+    (_, i) => new Wallet(utils.id(`${seed}/${i}`))
+  );
+}
+
+/**
+ * Eth address of a compressed or uncompressed secp256k1 public key, e.g. a Root validator's ECDSA key
+ */
+export function publicKeyToEthAddress(publicKey: utils.BytesLike): string {
+  return utils.computeAddress(publicKey);
+}
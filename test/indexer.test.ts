@@ -0,0 +1,163 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { constants, utils } from "ethers";
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  loadFixture,
+  mine,
+  takeSnapshot
+} from "@nomicfoundation/hardhat-network-helpers";
+import {
+  loadMessageIndex,
+  queryMessages,
+  syncMessages,
+  toRows
+} from "../scripts/utils/indexer";
+
+describe("SendMessage indexer", () => {
+  // Bridge `_sendMessageFee` default
+  const sendMessageFee = utils.parseEther("0.0003");
+
+  async function setup() {
+    const [owner, user] = await ethers.getSigners();
+
+    const BridgeFactory = await ethers.getContractFactory("Bridge");
+    const bridge = await BridgeFactory.connect(owner).deploy();
+    await bridge.deployed();
+    await bridge.setActive(true);
+
+    const ERC20PegFactory = await ethers.getContractFactory("ERC20Peg");
+    const erc20Peg = await ERC20PegFactory.connect(owner).deploy(
+      bridge.address
+    );
+    await erc20Peg.deployed();
+    await erc20Peg.setDepositsActive(true);
+
+    return { owner, user, bridge, erc20Peg };
+  }
+
+  const newStorePath = () =>
+    join(mkdtempSync(join(tmpdir(), "indexer-")), "messages.json");
+
+  it("indexes confirmed messages and decodes peg deposits", async () => {
+    const { user, bridge, erc20Peg } = await loadFixture(setup);
+    const storePath = newStorePath();
+    const options = {
+      bridge,
+      storePath,
+      confirmations: 2,
+      pegAddresses: [erc20Peg.address],
+      log: () => {}
+    };
+
+    const depositAmount = utils.parseEther("1");
+    // the bridge message fee is whatever exceeds the deposit amount
+    await erc20Peg
+      .connect(user)
+      .deposit(constants.AddressZero, depositAmount, user.address, {
+        value: depositAmount.add(sendMessageFee)
+      });
+    await bridge
+      .connect(user)
+      .sendMessage(user.address, "0x1234", { value: sendMessageFee });
+
+    // neither message has enough confirmations yet
+    expect((await syncMessages(options)).added).to.equal(0);
+
+    await mine(2);
+    expect((await syncMessages(options)).added).to.equal(2);
+
+    const index = loadMessageIndex(storePath, bridge.address);
+    const [deposit, message] = queryMessages(index);
+    expect(deposit).to.include({
+      messageId: "0",
+      source: erc20Peg.address,
+      destination: await erc20Peg.palletAddress(),
+      fee: sendMessageFee.toString()
+    });
+    expect(deposit.deposit).to.deep.equal({
+      tokenAddress: constants.AddressZero,
+      amount: depositAmount.toString(),
+      destination: user.address
+    });
+    expect(message).to.include({ messageId: "1", source: user.address });
+    expect(message.deposit).to.be.undefined;
+
+    expect(
+      queryMessages(index, { tokenAddress: constants.AddressZero })
+    ).to.have.length(1);
+    expect(toRows([deposit])[0]).to.include({
+      messageId: "0",
+      fee: "0.0003",
+      amount: depositAmount.toString()
+    });
+
+    // already indexed blocks are not scanned again
+    expect((await syncMessages(options)).added).to.equal(0);
+  });
+
+  it("re-indexes after a reorg", async () => {
+    const { user, bridge } = await loadFixture(setup);
+    const storePath = newStorePath();
+    const options = { bridge, storePath, confirmations: 0, log: () => {} };
+
+    const snapshot = await takeSnapshot();
+    await bridge
+      .connect(user)
+      .sendMessage(user.address, "0x01", { value: sendMessageFee });
+    await syncMessages(options);
+    expect(
+      loadMessageIndex(storePath, bridge.address).messages["0"].message
+    ).to.equal("0x01");
+
+    // replace the indexed block with a different one
+    await snapshot.restore();
+    await bridge
+      .connect(user)
+      .sendMessage(user.address, "0x02", { value: sendMessageFee });
+
+    const result = await syncMessages({ ...options, confirmations: 1 });
+    expect(result.rolledBack).to.equal(1);
+
+    await mine(1);
+    await syncMessages({ ...options, confirmations: 1 });
+    expect(
+      loadMessageIndex(storePath, bridge.address).messages["0"].message
+    ).to.equal("0x02");
+  });
+
+  it("keeps indexing past malformed messages sent to the peg", async () => {
+    const { user, bridge, erc20Peg } = await loadFixture(setup);
+    const storePath = newStorePath();
+    const options = {
+      bridge,
+      storePath,
+      confirmations: 0,
+      pegAddresses: [erc20Peg.address],
+      log: () => {}
+    };
+
+    // anyone can message the peg, its payload is not a deposit
+    await bridge
+      .connect(user)
+      .sendMessage(erc20Peg.address, "0x01", { value: sendMessageFee });
+    await erc20Peg
+      .connect(user)
+      .deposit(constants.AddressZero, 1, user.address, {
+        value: sendMessageFee.add(1)
+      });
+
+    expect((await syncMessages(options)).added).to.equal(2);
+    const [message, deposit] = queryMessages(
+      loadMessageIndex(storePath, bridge.address)
+    );
+    expect(message).to.include({
+      source: user.address,
+      destination: erc20Peg.address
+    });
+    expect(message.deposit).to.be.undefined;
+    expect(deposit.deposit?.amount).to.equal("1");
+  });
+});
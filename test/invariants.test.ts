@@ -0,0 +1,85 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  DeploymentConfig,
+  checkDeployment,
+  formatInvariantTable
+} from "../scripts/utils/invariants";
+import { deployContracts } from "./fixtures";
+
+describe("Deployment invariants", () => {
+  const bridgePalletAddress = "0x6D6f646C65746879627264670000000000000000";
+  const pegPalletAddress = "0x6D6f646c65726332307065670000000000000000";
+
+  async function setup() {
+    const {
+      deployer,
+      rolesManager,
+      tokenManager,
+      multisig,
+      bridge,
+      peg,
+      token
+    } = await deployContracts({ palletAddress: pegPalletAddress });
+    const config: DeploymentConfig = {
+      bridgePalletAddress,
+      pegPalletAddress,
+      owner: deployer.address,
+      roles: {
+        DEFAULT_ADMIN_ROLE: [rolesManager.address],
+        MANAGER_ROLE: [tokenManager.address],
+        MULTISIG_ROLE: [multisig.address]
+      }
+    };
+    return { config, bridge, peg, token };
+  }
+
+  it("passes for a pipeline deployment", async () => {
+    const { config, ...contracts } = await loadFixture(setup);
+
+    const results = await checkDeployment(contracts, config);
+    expect(results.map((r) => r.name)).to.deep.equal([
+      "Token.peg",
+      "ERC20Peg.bridge",
+      "Bridge.palletAddress",
+      "ERC20Peg.palletAddress",
+      "Token.totalSupply",
+      "Token.cap",
+      "Bridge.owner",
+      "ERC20Peg.owner",
+      "Token DEFAULT_ADMIN_ROLE",
+      "Token MANAGER_ROLE",
+      "Token MULTISIG_ROLE"
+    ]);
+    expect(results.filter((r) => !r.pass)).to.be.empty;
+    expect(formatInvariantTable(results).split("\n")[1]).to.match(
+      /^PASS {2}Token\.peg/
+    );
+  });
+
+  it("reports every broken invariant", async () => {
+    const { config, bridge, peg, token } = await loadFixture(setup);
+    const [, , , , other] = await ethers.getSigners();
+    await peg.setPalletAddress(other.address);
+
+    const results = await checkDeployment(
+      { bridge, peg, token },
+      { ...config, roles: { ...config.roles, MULTISIG_ROLE: [other.address] } }
+    );
+    expect(results.filter((r) => !r.pass)).to.deep.equal([
+      {
+        name: "ERC20Peg.palletAddress",
+        expected: pegPalletAddress,
+        actual: other.address,
+        pass: false
+      },
+      {
+        name: "Token MULTISIG_ROLE",
+        expected: other.address,
+        actual: "not granted",
+        pass: false
+      }
+    ]);
+  });
+});
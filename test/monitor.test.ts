@@ -0,0 +1,186 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { constants, utils } from "ethers";
+import { mkdtempSync, readFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { getChainHead } from "../scripts/utils/events";
+import {
+  Alert,
+  AlertSink,
+  FileSink,
+  loadMonitorRules,
+  pollAlerts,
+  validateRules
+} from "../scripts/utils/monitor";
+import { deployContracts } from "./fixtures";
+
+describe("Monitor", () => {
+  const rules = loadMonitorRules("monitor/rules.json");
+
+  async function setup() {
+    const { tokenManager, multisig, user, bridge, peg, token } =
+      await deployContracts();
+    const contracts = { Bridge: bridge, ERC20Peg: peg, Token: token };
+    return { tokenManager, multisig, user, contracts };
+  }
+
+  const tempState = () =>
+    join(mkdtempSync(join(tmpdir(), "monitor-state-")), "hardhat.json");
+
+  it("rejects rules on unknown events and args", async () => {
+    const { contracts } = await loadFixture(setup);
+    expect(() => validateRules(rules, contracts)).not.to.throw();
+    expect(() =>
+      validateRules(
+        [{ name: "typo", contract: "Bridge", event: "Paused" }],
+        contracts
+      )
+    ).to.throw("Bridge has no event Paused");
+    expect(() =>
+      validateRules(
+        [
+          {
+            name: "bool",
+            contract: "Bridge",
+            event: "BridgeActiveUpdated",
+            where: { active: { below: 1 } }
+          }
+        ],
+        contracts
+      )
+    ).to.throw("above/below need an integer");
+  });
+
+  it("alerts on governance actions and anomalies", async () => {
+    const { tokenManager, multisig, user, contracts } = await loadFixture(
+      setup
+    );
+    await contracts.Bridge.setThreshold(70);
+    await contracts.Bridge.setThreshold(50);
+    await contracts.Bridge.setActive(false);
+    await contracts.Token.connect(tokenManager).pause();
+    await contracts.Token.connect(multisig).setPeg(user.address);
+    await contracts.ERC20Peg.endow({ value: utils.parseEther("1") });
+    await contracts.ERC20Peg.adminEmergencyWithdraw(
+      constants.AddressZero,
+      1,
+      user.address
+    );
+
+    const alertFile = join(mkdtempSync(join(tmpdir(), "alerts-")), "a.jsonl");
+    const options = {
+      contracts,
+      rules,
+      sinks: [new FileSink(alertFile)],
+      statePath: tempState(),
+      confirmations: 0,
+      startBlock: 0,
+      log: () => {}
+    };
+    const { alerts } = await pollAlerts(options);
+
+    expect(alerts.map((a) => a.rule)).to.deep.equal([
+      // Token.init mints the whole supply to the peg
+      "large-mint",
+      "low-threshold",
+      "bridge-deactivated",
+      "token-paused",
+      "peg-changed",
+      "admin-withdraw"
+    ]);
+    expect(alerts[1].args.thresholdPercent).to.equal("50");
+    expect(alerts[5].severity).to.equal("critical");
+    expect(
+      readFileSync(alertFile, "utf8")
+        .trim()
+        .split("\n")
+        .map((line) => JSON.parse(line).rule)
+    ).to.deep.equal(alerts.map((a) => a.rule));
+
+    // already checked blocks are not evaluated again
+    await contracts.Bridge.setThreshold(40);
+    const next = await pollAlerts(options);
+    expect(next.alerts.map((a) => a.rule)).to.deep.equal(["low-threshold"]);
+  });
+
+  it("waits for confirmations and starts at the head on a fresh state", async () => {
+    const { contracts } = await loadFixture(setup);
+    const options = {
+      contracts,
+      rules,
+      sinks: [],
+      statePath: tempState(),
+      confirmations: 1,
+      log: () => {}
+    };
+    expect((await pollAlerts(options)).alerts).to.be.empty;
+
+    await contracts.Bridge.setThreshold(10);
+    expect((await pollAlerts(options)).alerts).to.be.empty;
+    await ethers.provider.send("evm_mine", []);
+    expect((await pollAlerts(options)).alerts.map((a) => a.rule)).to.deep.equal(
+      ["low-threshold"]
+    );
+  });
+
+  it("delivers again after a sink fails", async () => {
+    const { contracts } = await loadFixture(setup);
+    const delivered: Alert[] = [];
+    let failing = true;
+    const sink: AlertSink = {
+      async send(alert) {
+        if (failing) throw new Error("webhook unreachable");
+        delivered.push(alert);
+      }
+    };
+    const options = {
+      contracts,
+      rules,
+      sinks: [sink],
+      statePath: tempState(),
+      confirmations: 0,
+      startBlock: (await getChainHead(ethers.provider)) + 1,
+      log: () => {}
+    };
+
+    await contracts.Bridge.setActive(false);
+    await expect(pollAlerts(options)).to.be.rejectedWith("webhook unreachable");
+    failing = false;
+    await pollAlerts(options);
+    expect(delivered.map((a) => a.rule)).to.deep.equal(["bridge-deactivated"]);
+  });
+
+  it("only delivers again to the sinks which failed", async () => {
+    const { contracts } = await loadFixture(setup);
+    const received: Record<string, string[]> = { file: [], webhook: [] };
+    let failing = true;
+    const sink = (name: string): AlertSink => ({
+      async send(alert) {
+        if (name === "webhook" && failing) {
+          throw new Error("webhook unreachable");
+        }
+        received[name].push(alert.rule);
+      }
+    });
+    const options = {
+      contracts,
+      rules,
+      sinks: [sink("file"), sink("webhook")],
+      statePath: tempState(),
+      confirmations: 0,
+      startBlock: (await getChainHead(ethers.provider)) + 1,
+      log: () => {}
+    };
+
+    await contracts.Bridge.setActive(false);
+    await expect(pollAlerts(options)).to.be.rejectedWith("webhook unreachable");
+    failing = false;
+    await pollAlerts(options);
+    expect(received).to.deep.equal({
+      file: ["bridge-deactivated"],
+      webhook: ["bridge-deactivated"]
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { expect } from "chai";
+import { Wallet, constants, utils } from "ethers";
+import {
+  acceptanceThreshold,
+  buildEventProof,
+  encodeProofPreimage,
+  predictThreshold,
+  proofDigest
+} from "../scripts/utils/proof";
+
+describe("EventProof builder", () => {
+  const validatorPrivateKey =
+    "0xcb6df9de1efca7a3998a8ead4e02159d5fa99c3e0d4fd6432667390bb4726854"; // alice private key
+  const alice = new Wallet(validatorPrivateKey); // address: 0xE04CC55ebEE1cBCE552f250e85c57B70B2E2625b
+  const others = [1, 2, 3, 4].map(
+    (i) => new Wallet(utils.keccak256(utils.toUtf8Bytes(`validator-${i}`)))
+  );
+
+  const message = {
+    source: "0x0000000000000000000000000000000000000001",
+    destination: "0x0000000000000000000000000000000000000002",
+    appMessage: "0x1234",
+    validatorSetId: 1,
+    eventId: 1
+  };
+
+  it("encodes the preimage as abi.encode(source, destination, appMessage, validatorSetId, eventId)", () => {
+    const expected = utils.defaultAbiCoder.encode(
+      ["address", "address", "bytes", "uint32", "uint256"],
+      [
+        message.source,
+        message.destination,
+        message.appMessage,
+        message.validatorSetId,
+        message.eventId
+      ]
+    );
+
+    expect(encodeProofPreimage(message)).to.equal(expected);
+    expect(proofDigest(message)).to.equal(utils.keccak256(expected));
+  });
+
+  it("signs the raw digest for each validator", () => {
+    const proof = buildEventProof(message, [alice.address], [alice]);
+
+    expect(proof.eventId).to.equal(message.eventId);
+    expect(proof.validatorSetId).to.equal(message.validatorSetId);
+    expect(proof.validators).to.deep.equal([alice.address]);
+    expect(
+      utils.recoverAddress(proofDigest(message), {
+        v: proof.v[0],
+        r: proof.r[0],
+        s: proof.s[0]
+      })
+    ).to.equal(alice.address);
+  });
+
+  it("omits validators without a signer in validator order", () => {
+    const validators = [others[0], alice, others[1], others[2], others[3]].map(
+      (wallet) => wallet.address
+    );
+    // signer order should not matter
+    const proof = buildEventProof(message, validators, [others[2], alice]);
+
+    expect(proof.validators).to.deep.equal(validators);
+    expect(proof.r[0]).to.equal(constants.HashZero);
+    expect(proof.s[0]).to.equal(constants.HashZero);
+    expect(proof.v[0]).to.equal(0);
+    expect(proof.r[1]).not.to.equal(constants.HashZero);
+    expect(proof.r[2]).to.equal(constants.HashZero);
+    expect(proof.r[3]).not.to.equal(constants.HashZero);
+    expect(proof.r[4]).to.equal(constants.HashZero);
+    expect(
+      utils.recoverAddress(proofDigest(message), {
+        v: proof.v[3],
+        r: proof.r[3],
+        s: proof.s[3]
+      })
+    ).to.equal(others[2].address);
+  });
+
+  it("predicts the acceptance threshold", () => {
+    // validators.length = 5; acceptance_threshold = 5 * 60 / 100 => 3
+    expect(acceptanceThreshold(5, 60)).to.equal(3);
+    // rounds down - a single validator set needs no signatures at 60%
+    expect(acceptanceThreshold(1, 60)).to.equal(0);
+    expect(acceptanceThreshold(4, 100)).to.equal(4);
+
+    const validators = [alice, ...others].map((wallet) => wallet.address);
+    const twoOfFive = buildEventProof(message, validators, [alice, others[0]]);
+    expect(predictThreshold(twoOfFive, 60)).to.deep.equal({
+      signatures: 2,
+      required: 3,
+      reached: false
+    });
+
+    const threeOfFive = buildEventProof(message, validators, [
+      alice,
+      others[0],
+      others[3]
+    ]);
+    expect(predictThreshold(threeOfFive, 60)).to.deep.equal({
+      signatures: 3,
+      required: 3,
+      reached: true
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { constants, utils } from "ethers";
+import { encodePayload, pegDepositCodec } from "../scripts/utils/codecs";
+import {
+  loadFixture,
+  setBalance
+} from "@nomicfoundation/hardhat-network-helpers";
+import { getChainHead } from "../scripts/utils/events";
+import { buildEventProof } from "../scripts/utils/proof";
+import { reconcilePeg, toReconciliationRows } from "../scripts/utils/reconcile";
+
+describe("Peg reconciliation", () => {
+  const validatorPrivateKey =
+    "0xcb6df9de1efca7a3998a8ead4e02159d5fa99c3e0d4fd6432667390bb4726854"; // alice private key
+  const validatorSigner = new ethers.Wallet(validatorPrivateKey); // address: 0xE04CC55ebEE1cBCE552f250e85c57B70B2E2625b
+  // Bridge `_sendMessageFee` default
+  const sendMessageFee = utils.parseEther("0.0003");
+
+  async function setup() {
+    const [owner, user, recipient] = await ethers.getSigners();
+
+    const BridgeFactory = await ethers.getContractFactory("Bridge");
+    const bridge = await BridgeFactory.connect(owner).deploy();
+    await bridge.deployed();
+    await bridge.setActive(true);
+    await bridge.forceActiveValidatorSet([validatorSigner.address], 0);
+
+    const ERC20PegFactory = await ethers.getContractFactory("ERC20Peg");
+    const erc20Peg = await ERC20PegFactory.connect(owner).deploy(
+      bridge.address
+    );
+    await erc20Peg.deployed();
+    await erc20Peg.setDepositsActive(true);
+    await erc20Peg.setWithdrawalsActive(true);
+
+    // 5 ETH deposited, 1 ETH endowed, 2 ETH withdrawn via the bridge, 0.5 ETH withdrawn by the owner
+    await erc20Peg
+      .connect(user)
+      .deposit(constants.AddressZero, utils.parseEther("5"), user.address, {
+        value: utils.parseEther("5").add(sendMessageFee)
+      });
+    await erc20Peg.endow({ value: utils.parseEther("1") });
+
+    const message = {
+      source: await erc20Peg.palletAddress(),
+      destination: erc20Peg.address,
+      appMessage: encodePayload(pegDepositCodec, {
+        tokenAddress: constants.AddressZero,
+        amount: utils.parseEther("2").toString(),
+        destination: recipient.address
+      }),
+      validatorSetId: 0,
+      eventId: 1
+    };
+    await bridge.receiveMessage(
+      message.source,
+      message.destination,
+      message.appMessage,
+      buildEventProof(message, [validatorSigner.address], [validatorSigner]),
+      { value: await bridge.bridgeFee() }
+    );
+    await erc20Peg.adminEmergencyWithdraw(
+      constants.AddressZero,
+      utils.parseEther("0.5"),
+      owner.address
+    );
+
+    return { owner, user, bridge, erc20Peg };
+  }
+
+  it("separates bridged, admin and endowed ether flows", async () => {
+    const { erc20Peg } = await loadFixture(setup);
+
+    const report = await reconcilePeg({ peg: erc20Peg });
+    expect(report.tokens).to.have.length(1);
+    const [eth] = report.tokens;
+    expect(eth).to.include({
+      tokenAddress: constants.AddressZero,
+      symbol: "ETH",
+      openingBalance: "0",
+      deposited: utils.parseEther("5").toString(),
+      // the admin withdrawal's `Withdraw` event is not counted twice
+      withdrawn: utils.parseEther("2").toString(),
+      adminWithdrawn: utils.parseEther("0.5").toString(),
+      endowed: utils.parseEther("1").toString(),
+      expectedBalance: utils.parseEther("2.5").toString(),
+      balance: utils.parseEther("3.5").toString(),
+      depositCount: 1,
+      withdrawCount: 1,
+      adminWithdrawCount: 1,
+      status: "endowed"
+    });
+    expect(eth.notes).to.deep.equal(["1.0 ETH endowed without a deposit"]);
+
+    expect(toReconciliationRows(report)[0]).to.include({
+      symbol: "ETH",
+      expectedBalance: "2.5",
+      balance: "3.5",
+      difference: "1.0",
+      status: "endowed"
+    });
+  });
+
+  it("uses the opening balance for a partial block range", async () => {
+    const { user, erc20Peg } = await loadFixture(setup);
+    const fromBlock = (await getChainHead(ethers.provider)) + 1;
+    await erc20Peg
+      .connect(user)
+      .deposit(constants.AddressZero, utils.parseEther("1"), user.address, {
+        value: utils.parseEther("1").add(sendMessageFee)
+      });
+
+    const [eth] = (await reconcilePeg({ peg: erc20Peg, fromBlock })).tokens;
+    expect(eth).to.include({
+      openingBalance: utils.parseEther("3.5").toString(),
+      deposited: utils.parseEther("1").toString(),
+      withdrawn: "0",
+      endowed: "0",
+      balance: utils.parseEther("4.5").toString(),
+      difference: "0",
+      status: "balanced"
+    });
+  });
+
+  it("flags balances not explained by events", async () => {
+    const { erc20Peg } = await loadFixture(setup);
+    await setBalance(erc20Peg.address, utils.parseEther("3"));
+
+    const [eth] = (await reconcilePeg({ peg: erc20Peg })).tokens;
+    expect(eth.status).to.equal("discrepancy");
+    expect(eth.difference).to.equal(utils.parseEther("0.5").toString());
+    expect(eth.notes).to.include("0.5 ETH missing from the peg");
+  });
+});
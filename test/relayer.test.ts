@@ -0,0 +1,204 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract, ContractTransaction, constants, utils } from "ethers";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { encodePayload, pegDepositCodec } from "../scripts/utils/codecs";
+import {
+  StubProofSource,
+  loadRelayerState,
+  relayMessages
+} from "../scripts/utils/relayer";
+
+describe("Relayer", () => {
+  const validatorPrivateKey =
+    "0xcb6df9de1efca7a3998a8ead4e02159d5fa99c3e0d4fd6432667390bb4726854"; // alice private key
+  const validatorSigner = new ethers.Wallet(validatorPrivateKey); // address: 0xE04CC55ebEE1cBCE552f250e85c57B70B2E2625b
+  const validatorSetId = 0;
+
+  async function setup() {
+    const [owner, relayer, recipient] = await ethers.getSigners();
+
+    const BridgeFactory = await ethers.getContractFactory("Bridge");
+    const bridge = await BridgeFactory.connect(owner).deploy();
+    await bridge.deployed();
+    await bridge.setActive(true);
+    await bridge.forceActiveValidatorSet(
+      [validatorSigner.address],
+      validatorSetId
+    );
+
+    const ERC20PegFactory = await ethers.getContractFactory("ERC20Peg");
+    const erc20Peg = await ERC20PegFactory.connect(owner).deploy(
+      bridge.address
+    );
+    await erc20Peg.deployed();
+    await erc20Peg.setDepositsActive(true);
+    await erc20Peg.setWithdrawalsActive(true);
+    // lock some ether in the peg to withdraw
+    await erc20Peg.endow({ value: utils.parseEther("10") });
+
+    return {
+      owner,
+      relayer,
+      recipient,
+      bridge: bridge.connect(relayer),
+      erc20Peg
+    };
+  }
+
+  // fresh state file per test - fixtures are reverted between tests but files are not
+  const newStatePath = () =>
+    join(mkdtempSync(join(tmpdir(), "relayer-")), "state.json");
+
+  const withdrawal = (recipient: string, amount: string) =>
+    encodePayload(pegDepositCodec, {
+      tokenAddress: constants.AddressZero,
+      amount: utils.parseEther(amount).toString(),
+      destination: recipient
+    });
+
+  it("relays withdrawals to the peg and persists progress", async () => {
+    const { recipient, bridge, erc20Peg } = await loadFixture(setup);
+    const statePath = newStatePath();
+    const palletAddress = await erc20Peg.palletAddress();
+    const source = new StubProofSource([validatorSigner], validatorSetId);
+    source.add({
+      source: palletAddress,
+      destination: erc20Peg.address,
+      appMessage: withdrawal(recipient.address, "1"),
+      eventId: 1
+    });
+
+    const balanceBefore = await recipient.getBalance();
+    const report = await relayMessages({
+      bridge,
+      source,
+      statePath,
+      log: () => {}
+    });
+
+    expect(report).to.deep.equal({ submitted: ["1"], skipped: [], failed: [] });
+    expect(await bridge.verifiedEventIds(1)).to.be.true;
+    expect((await recipient.getBalance()).sub(balanceBefore)).to.equal(
+      utils.parseEther("1")
+    );
+    const [withdraw] = await erc20Peg.queryFilter(erc20Peg.filters.Withdraw());
+    expect(withdraw.args!._address).to.equal(recipient.address);
+    expect(withdraw.args!.tokenAddress).to.equal(constants.AddressZero);
+    expect(withdraw.args!.amount).to.equal(utils.parseEther("1"));
+
+    const state = loadRelayerState(statePath, bridge.address);
+    expect(state.messages["1"].status).to.equal("submitted");
+    expect(state.messages["1"].transactionHash).to.equal(
+      withdraw.transactionHash
+    );
+
+    // nothing left to do on the next run
+    expect(
+      await relayMessages({ bridge, source, statePath, log: () => {} })
+    ).to.deep.equal({ submitted: [], skipped: [], failed: [] });
+
+    // without the persisted state the message is skipped as already verified
+    rmSync(statePath);
+    expect(
+      await relayMessages({ bridge, source, statePath, log: () => {} })
+    ).to.deep.equal({ submitted: [], skipped: ["1"], failed: [] });
+  });
+
+  it("records invalid proofs and reverted messages as failed", async () => {
+    const { owner, recipient, bridge, erc20Peg } = await loadFixture(setup);
+    const statePath = newStatePath();
+    const palletAddress = await erc20Peg.palletAddress();
+
+    // signed by a validator set which is not on-chain
+    const unknownSet = new StubProofSource(
+      [validatorSigner],
+      validatorSetId + 1
+    );
+    unknownSet.add({
+      source: palletAddress,
+      destination: erc20Peg.address,
+      appMessage: withdrawal(recipient.address, "1"),
+      eventId: 1
+    });
+    expect(
+      await relayMessages({
+        bridge,
+        source: unknownSet,
+        statePath,
+        log: () => {}
+      })
+    ).to.deep.equal({ submitted: [], skipped: [], failed: ["1"] });
+    expect(
+      loadRelayerState(statePath, bridge.address).messages["1"]
+    ).to.include({ status: "failed", reason: "Bridge: future validator set" });
+
+    // valid proof, but the peg rejects the withdrawal
+    await erc20Peg.connect(owner).setWithdrawalsActive(false);
+    const source = new StubProofSource([validatorSigner], validatorSetId);
+    source.add({
+      source: palletAddress,
+      destination: erc20Peg.address,
+      appMessage: withdrawal(recipient.address, "1"),
+      eventId: 1
+    });
+    expect(
+      await relayMessages({ bridge, source, statePath, log: () => {} })
+    ).to.deep.equal({ submitted: [], skipped: [], failed: ["1"] });
+
+    // failed messages are retried on the next run
+    await erc20Peg.connect(owner).setWithdrawalsActive(true);
+    expect(
+      await relayMessages({ bridge, source, statePath, log: () => {} })
+    ).to.deep.equal({ submitted: ["1"], skipped: [], failed: [] });
+  });
+
+  it("checks the bridge before retrying a transaction that was mined", async () => {
+    const { recipient, bridge, erc20Peg } = await loadFixture(setup);
+    const statePath = newStatePath();
+    const source = new StubProofSource([validatorSigner], validatorSetId);
+    source.add({
+      source: await erc20Peg.palletAddress(),
+      destination: erc20Peg.address,
+      appMessage: withdrawal(recipient.address, "1"),
+      eventId: 1
+    });
+
+    // the transaction is mined, but waiting for its receipt times out
+    let sent = 0;
+    let hash = "";
+    const timingOut: Contract = Object.create(bridge, {
+      receiveMessage: {
+        value: async (...args: Parameters<typeof bridge.receiveMessage>) => {
+          const tx: ContractTransaction = await bridge.receiveMessage(...args);
+          sent += 1;
+          hash = tx.hash;
+          return {
+            ...tx,
+            wait: async () => {
+              await tx.wait();
+              throw Object.assign(new Error("timeout"), { code: "TIMEOUT" });
+            }
+          };
+        }
+      }
+    });
+
+    expect(
+      await relayMessages({
+        bridge: timingOut,
+        source,
+        statePath,
+        retryDelayMs: 0,
+        log: () => {}
+      })
+    ).to.deep.equal({ submitted: ["1"], skipped: [], failed: [] });
+    expect(sent).to.equal(1);
+    expect(
+      loadRelayerState(statePath, bridge.address).messages["1"]
+    ).to.include({ status: "submitted", attempts: 1, transactionHash: hash });
+  });
+});
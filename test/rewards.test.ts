@@ -0,0 +1,212 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { BigNumber, ContractReceipt, Wallet, constants, utils } from "ethers";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  encodePayload,
+  pegDepositCodec,
+  validatorSetCodec
+} from "../scripts/utils/codecs";
+import { buildEventProof } from "../scripts/utils/proof";
+import {
+  BridgeEconomics,
+  TrafficAssumptions,
+  projectEconomics,
+  readBridgeEconomics
+} from "../scripts/utils/rewards";
+import { deployContracts } from "./fixtures";
+
+describe("Reward economics", () => {
+  const bridgePallet = "0x6D6f646C65746879627264670000000000000000";
+  const pegPallet = "0x6D6f646c65726332307065670000000000000000";
+
+  const economics: BridgeEconomics = {
+    balance: BigNumber.from(0),
+    accumulatedMessageFees: BigNumber.from(0),
+    bridgeFee: utils.parseEther("0.004"),
+    sendMessageFee: utils.parseEther("0.0003"),
+    maxRewardPayout: utils.parseEther("0.01")
+  };
+  const traffic: TrafficAssumptions = {
+    periods: 6,
+    messagesSent: 2,
+    messagesReceived: 1,
+    rotationInterval: 2,
+    endowments: [{ period: 3, amount: utils.parseEther("0.02").toString() }]
+  };
+
+  it("projects rewards and the endowment needed", () => {
+    const projection = projectEconomics(economics, traffic);
+
+    expect(
+      projection.periods.map((p) => p.rotation?.reward.toString())
+    ).to.deep.equal([
+      undefined,
+      utils.parseEther("0.008").toString(),
+      undefined,
+      utils.parseEther("0.01").toString(),
+      undefined,
+      utils.parseEther("0.01").toString()
+    ]);
+    expect(projection.periods[5].accumulatedMessageFees).to.equal(
+      utils.parseEther("0.0036")
+    );
+    // message fees are never paid out
+    expect(projection.periods[5].balance).to.equal(
+      utils.parseEther("0.0036").add(utils.parseEther("0.016"))
+    );
+    expect(projection.totalRewards).to.equal(utils.parseEther("0.028"));
+    expect(projection.underfundedRotations).to.deep.equal([1]);
+    expect(projection.endowments).to.deep.equal([
+      { period: 1, amount: utils.parseEther("0.002") }
+    ]);
+
+    // endowing the recommendation in time leaves no shortfall
+    const endowed = projectEconomics(economics, {
+      ...traffic,
+      endowments: [...traffic.endowments!, ...projection.endowments]
+    });
+    expect(endowed.underfundedRotations).to.be.empty;
+  });
+
+  it("endows every rotation short of the target reward", () => {
+    const targeted: TrafficAssumptions = {
+      periods: 3,
+      messagesSent: 0,
+      messagesReceived: 1,
+      rotationInterval: 1,
+      targetReward: utils.parseEther("0.005").toString()
+    };
+    const projection = projectEconomics(economics, targeted);
+    expect(projection.underfundedRotations).to.deep.equal([0, 1, 2]);
+    // an endowment beyond the shortfall is paid out by the next rotation, it does not carry over
+    expect(projection.endowments).to.deep.equal([
+      { period: 0, amount: utils.parseEther("0.001") },
+      { period: 1, amount: utils.parseEther("0.001") },
+      { period: 2, amount: utils.parseEther("0.001") }
+    ]);
+    expect(
+      projectEconomics(economics, {
+        ...targeted,
+        endowments: projection.endowments
+      }).underfundedRotations
+    ).to.be.empty;
+
+    expect(() =>
+      projectEconomics(economics, {
+        ...targeted,
+        targetReward: utils.parseEther("0.02").toString()
+      })
+    ).to.throw("exceeds maxRewardPayout");
+  });
+
+  it("flags rotations that revert on missing message fees", () => {
+    const projection = projectEconomics(
+      { ...economics, accumulatedMessageFees: utils.parseEther("0.01") },
+      { periods: 2, messagesSent: 0, messagesReceived: 1, rotationInterval: 1 }
+    );
+    expect(projection.periods[0].rotation).to.deep.equal({
+      reward: BigNumber.from(0),
+      shortfall: utils.parseEther("0.016"),
+      reverts: true
+    });
+    // the missing message fees are only covered once
+    expect(projection.endowments).to.deep.equal([
+      { period: 0, amount: utils.parseEther("0.016") },
+      { period: 1, amount: utils.parseEther("0.006") }
+    ]);
+  });
+
+  describe("replayed on Hardhat", () => {
+    async function setup() {
+      const { user, relayer, bridge, peg } = await deployContracts({
+        palletAddress: pegPallet
+      });
+      await bridge.setMaxRewardPayout(economics.maxRewardPayout);
+      await peg.endow({ value: utils.parseEther("1") });
+
+      const validator = Wallet.createRandom();
+      await bridge.forceActiveValidatorSet([validator.address], 1);
+      return { user, relayer, bridge, peg, validator };
+    }
+
+    it("matches the contract's balances and payouts", async () => {
+      const { user, relayer, bridge, peg, validator } = await loadFixture(
+        setup
+      );
+      const live = await readBridgeEconomics(bridge);
+      expect(live).to.deep.equal(economics);
+      const projection = projectEconomics(live, traffic);
+
+      let validators = [validator];
+      let validatorSetId = 1;
+      let eventId = 0;
+      const relay = (source: string, destination: string, appMessage: string) =>
+        bridge.connect(relayer).receiveMessage(
+          source,
+          destination,
+          appMessage,
+          buildEventProof(
+            {
+              source,
+              destination,
+              appMessage,
+              validatorSetId,
+              eventId: ++eventId
+            },
+            validators.map((v) => v.address),
+            validators
+          ),
+          { value: destination === bridge.address ? 0 : live.bridgeFee }
+        );
+
+      for (const expected of projection.periods) {
+        for (let i = 0; i < traffic.messagesSent; ++i) {
+          await bridge
+            .connect(user)
+            .sendMessage(pegPallet, "0x01", { value: live.sendMessageFee });
+        }
+        for (let i = 0; i < traffic.messagesReceived; ++i) {
+          await relay(
+            pegPallet,
+            peg.address,
+            encodePayload(pegDepositCodec, {
+              tokenAddress: constants.AddressZero,
+              amount: "1",
+              destination: user.address
+            })
+          );
+        }
+        for (const { period, amount } of traffic.endowments!) {
+          if (period === expected.period) await bridge.endow({ value: amount });
+        }
+        if (expected.rotation) {
+          const next = [Wallet.createRandom()];
+          const receipt: ContractReceipt = await (
+            await relay(
+              bridgePallet,
+              bridge.address,
+              encodePayload(validatorSetCodec, {
+                validators: next.map((v) => v.address),
+                validatorSetId: validatorSetId + 1
+              })
+            )
+          ).wait();
+          const rotated = receipt.events!.find(
+            (e) => e.event === "SetValidators"
+          );
+          expect(rotated!.args!.reward).to.equal(expected.rotation.reward);
+          validators = next;
+          validatorSetId += 1;
+        }
+
+        expect(await ethers.provider.getBalance(bridge.address)).to.equal(
+          expected.balance
+        );
+        expect(await bridge.accumulatedMessageFees()).to.equal(
+          expected.accumulatedMessageFees
+        );
+      }
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, mine } from "@nomicfoundation/hardhat-network-helpers";
+import { getChainHead } from "../scripts/utils/events";
+import { ROLES } from "../scripts/utils/roles";
+import {
+  ExpectedRoles,
+  auditRoles,
+  rebuildRoleInventory
+} from "../scripts/utils/roleAudit";
+
+describe("Role audit", () => {
+  async function setup() {
+    const [deployer, rolesManager, tokenManager, multisig, other] =
+      await ethers.getSigners();
+
+    const TokenFactory = await ethers.getContractFactory("Token");
+    const token = await TokenFactory.connect(deployer).deploy(
+      rolesManager.address,
+      tokenManager.address,
+      multisig.address
+    );
+    await token.deployed();
+
+    const expected: ExpectedRoles = {
+      DEFAULT_ADMIN_ROLE: [rolesManager.address],
+      MANAGER_ROLE: [tokenManager.address],
+      MULTISIG_ROLE: [multisig.address]
+    };
+    return { token, expected, rolesManager, tokenManager, multisig, other };
+  }
+
+  it("rebuilds membership from the constructor grants", async () => {
+    const { token, expected, rolesManager, tokenManager, multisig } =
+      await loadFixture(setup);
+
+    const inventory = await rebuildRoleInventory(token);
+    expect(
+      inventory.holders.map(({ role, account, onChain, eoa }) => ({
+        role,
+        account,
+        onChain,
+        eoa
+      }))
+    ).to.deep.equal([
+      {
+        role: "DEFAULT_ADMIN_ROLE",
+        account: rolesManager.address,
+        onChain: true,
+        eoa: true
+      },
+      {
+        role: "MANAGER_ROLE",
+        account: tokenManager.address,
+        onChain: true,
+        eoa: true
+      },
+      {
+        role: "MULTISIG_ROLE",
+        account: multisig.address,
+        onChain: true,
+        eoa: true
+      }
+    ]);
+    expect(await auditRoles(token, inventory, expected)).to.be.empty;
+  });
+
+  it("reports unexpected and missing holders", async () => {
+    const { token, expected, rolesManager, tokenManager, other } =
+      await loadFixture(setup);
+    await token
+      .connect(rolesManager)
+      .grantRole(ROLES.DEFAULT_ADMIN_ROLE, other.address);
+    await token
+      .connect(rolesManager)
+      .grantRole(ROLES.TOKEN_RECOVERY_ROLE, other.address);
+    await token
+      .connect(rolesManager)
+      .revokeRole(ROLES.MANAGER_ROLE, tokenManager.address);
+
+    const inventory = await rebuildRoleInventory(token);
+    const drift = await auditRoles(token, inventory, expected);
+    expect(
+      drift.map(({ kind, role, account }) => [kind, role, account])
+    ).to.have.deep.members([
+      ["unexpected", "DEFAULT_ADMIN_ROLE", other.address],
+      ["unexpected", "TOKEN_RECOVERY_ROLE", other.address],
+      ["missing", "MANAGER_ROLE", tokenManager.address]
+    ]);
+    expect(drift[0].detail).to.match(/^EOA granted in block \d+$/);
+  });
+
+  it("flags holders granted before the scanned range", async () => {
+    const { token, expected } = await loadFixture(setup);
+    await mine(1);
+
+    const fromBlock = await getChainHead(ethers.provider);
+    const inventory = await rebuildRoleInventory(token, { fromBlock });
+    expect(inventory.holders).to.be.empty;
+    const drift = await auditRoles(token, inventory, expected);
+    expect(drift.map((d) => d.kind)).to.deep.equal([
+      "inconsistent",
+      "inconsistent",
+      "inconsistent"
+    ]);
+  });
+});
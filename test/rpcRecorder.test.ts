@@ -0,0 +1,96 @@
+import { expect } from "chai";
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+import { utils } from "ethers";
+import { RpcRecording, startRpcRecorder } from "../scripts/utils/rpcRecorder";
+
+describe("RPC recorder", () => {
+  // upstream node answering every request with its method and params
+  async function startUpstream(): Promise<{ server: Server; url: string }> {
+    const server = createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        const { id, method, params } = JSON.parse(body);
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify(
+            method === "eth_fail"
+              ? { jsonrpc: "2.0", id, error: { code: 3, message: "failed" } }
+              : { jsonrpc: "2.0", id, result: `${method}(${params.join(",")})` }
+          )
+        );
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    const { port } = server.address() as AddressInfo;
+    return { server, url: `http://127.0.0.1:${port}` };
+  }
+
+  const call = (url: string, payload: unknown) =>
+    utils.fetchJson(url, JSON.stringify(payload));
+
+  it("records upstream responses and replays them offline", async () => {
+    const upstream = await startUpstream();
+    const recording: RpcRecording = { blockNumber: 100, responses: {} };
+
+    const recorder = await startRpcRecorder({
+      mode: "record",
+      recording,
+      upstream: upstream.url
+    });
+    expect(
+      await call(recorder.url, {
+        jsonrpc: "2.0",
+        id: 7,
+        method: "eth_getBalance",
+        params: ["0x01", "0x64"]
+      })
+    ).to.deep.equal({
+      jsonrpc: "2.0",
+      id: 7,
+      result: "eth_getBalance(0x01,0x64)"
+    });
+    await call(recorder.url, [
+      { jsonrpc: "2.0", id: 1, method: "eth_chainId", params: [] },
+      { jsonrpc: "2.0", id: 2, method: "eth_fail", params: [] }
+    ]);
+    await recorder.close();
+    await new Promise((resolve) => upstream.server.close(resolve));
+
+    expect(Object.keys(recording.responses)).to.deep.equal([
+      'eth_getBalance:["0x01","0x64"]',
+      "eth_chainId:[]",
+      "eth_fail:[]"
+    ]);
+
+    const replay = await startRpcRecorder({ mode: "replay", recording });
+    try {
+      expect(
+        await call(replay.url, [
+          { jsonrpc: "2.0", id: 3, method: "eth_chainId", params: [] },
+          { jsonrpc: "2.0", id: 4, method: "eth_fail", params: [] },
+          { jsonrpc: "2.0", id: 5, method: "eth_blockNumber", params: [] }
+        ])
+      ).to.deep.equal([
+        { jsonrpc: "2.0", id: 3, result: "eth_chainId()" },
+        { jsonrpc: "2.0", id: 4, error: { code: 3, message: "failed" } },
+        {
+          jsonrpc: "2.0",
+          id: 5,
+          error: { code: -32000, message: "Not recorded: eth_blockNumber:[]" }
+        }
+      ]);
+    } finally {
+      await replay.close();
+    }
+  });
+
+  it("needs an upstream to record", async () => {
+    await expect(
+      startRpcRecorder({ mode: "record", recording: { responses: {} } })
+    ).to.be.rejectedWith("Recording needs an upstream RPC url");
+  });
+});
@@ -0,0 +1,160 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  batchChecksum,
+  buildSafeBatch,
+  encodeSafeTransaction,
+  simulateSafeBatch
+} from "../scripts/utils/safe";
+
+describe("Safe batches", () => {
+  // the Safe is impersonated, it does not need to be a contract
+  const safe = "0x0000000000000000000000000000000000005afe";
+
+  async function setup() {
+    const [deployer, rolesManager, tokenManager, recipient] =
+      await ethers.getSigners();
+
+    const TokenFactory = await ethers.getContractFactory("Token");
+    const token = await TokenFactory.connect(deployer).deploy(
+      rolesManager.address,
+      tokenManager.address,
+      safe
+    );
+    await token.deployed();
+
+    const BridgeFactory = await ethers.getContractFactory("Bridge");
+    const bridge = await BridgeFactory.connect(deployer).deploy();
+    await bridge.deployed();
+    await bridge.transferOwnership(safe);
+
+    const interfaces = [token.interface, bridge.interface];
+    return { token, bridge, recipient, interfaces };
+  }
+
+  it("exports Transaction Builder JSON", async () => {
+    const { token, bridge, recipient } = await loadFixture(setup);
+
+    const batch = buildSafeBatch({
+      chainId: 11155111,
+      safe,
+      calls: [
+        { contract: token, method: "mint", args: [recipient.address, 1000] },
+        { contract: bridge, method: "setActive", args: [true] }
+      ]
+    });
+
+    expect(batch).to.include({ version: "1.0", chainId: "11155111" });
+    expect(batch.meta.createdFromSafeAddress).to.equal(
+      ethers.utils.getAddress(safe)
+    );
+    expect(batch.meta.checksum).to.equal(batchChecksum(batch));
+    expect(batch.transactions[0]).to.deep.equal({
+      to: token.address,
+      value: "0",
+      data: null,
+      contractMethod: {
+        inputs: [
+          { internalType: "address", name: "to", type: "address" },
+          { internalType: "uint256", name: "_amount", type: "uint256" }
+        ],
+        name: "mint",
+        payable: false
+      },
+      contractInputsValues: { to: recipient.address, _amount: "1000" }
+    });
+    expect(encodeSafeTransaction(batch.transactions[1])).to.equal(
+      bridge.interface.encodeFunctionData("setActive", [true])
+    );
+
+    // a renamed batch keeps its checksum, an edited one does not
+    expect(
+      batchChecksum({ ...batch, meta: { ...batch.meta, name: "x" } })
+    ).to.equal(batch.meta.checksum);
+    batch.transactions[0].contractInputsValues!._amount = "1001";
+    expect(batchChecksum(batch)).not.to.equal(batch.meta.checksum);
+
+    expect(() =>
+      buildSafeBatch({
+        chainId: 1,
+        safe,
+        calls: [{ contract: token, method: "mint", args: ["0x01"] }]
+      })
+    ).to.throw();
+  });
+
+  it("simulates the batch as the Safe", async () => {
+    const { token, bridge, recipient, interfaces } = await loadFixture(setup);
+    const batch = buildSafeBatch({
+      chainId: 31337,
+      safe,
+      calls: [
+        { contract: token, method: "mint", args: [recipient.address, 1000] },
+        { contract: bridge, method: "setActive", args: [true] }
+      ]
+    });
+
+    const results = await simulateSafeBatch(ethers.provider, batch, interfaces);
+    expect(results.map((r) => [r.method, r.status])).to.deep.equal([
+      ["mint", "success"],
+      ["setActive", "success"]
+    ]);
+    expect(results[0].events).to.deep.equal([
+      {
+        address: token.address,
+        name: "Transfer",
+        args: {
+          from: ethers.constants.AddressZero,
+          to: recipient.address,
+          value: "1000"
+        }
+      }
+    ]);
+    expect(results[1].events[0]).to.include({ name: "BridgeActiveUpdated" });
+    expect(await token.balanceOf(recipient.address)).to.equal(1000);
+    expect(await bridge.active()).to.be.true;
+  });
+
+  it("stops the simulation at the first revert", async () => {
+    const { token, recipient, interfaces } = await loadFixture(setup);
+    const batch = buildSafeBatch({
+      chainId: 31337,
+      safe,
+      calls: [
+        // MANAGER_ROLE only
+        { contract: token, method: "pause", args: [] },
+        { contract: token, method: "mint", args: [recipient.address, 1000] }
+      ]
+    });
+
+    const results = await simulateSafeBatch(ethers.provider, batch, interfaces);
+    expect(results.map((r) => r.status)).to.deep.equal(["reverted", "skipped"]);
+    expect(results[0].reason).to.contain("AccessControl");
+    expect(await token.paused()).to.be.false;
+    expect(await token.balanceOf(recipient.address)).to.equal(0);
+  });
+
+  it("rolls back the batch on a revert", async () => {
+    const { token, bridge, recipient, interfaces } = await loadFixture(setup);
+    const batch = buildSafeBatch({
+      chainId: 31337,
+      safe,
+      calls: [
+        { contract: token, method: "mint", args: [recipient.address, 1000] },
+        { contract: bridge, method: "setActive", args: [true] },
+        { contract: token, method: "pause", args: [] }
+      ]
+    });
+
+    const results = await simulateSafeBatch(ethers.provider, batch, interfaces);
+    expect(results.map((r) => r.status)).to.deep.equal([
+      "rolled-back",
+      "rolled-back",
+      "reverted"
+    ]);
+    expect(results[0].events[0]).to.include({ name: "Transfer" });
+    expect(await token.balanceOf(recipient.address)).to.equal(0);
+    expect(await bridge.active()).to.be.false;
+  });
+});
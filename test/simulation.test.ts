@@ -0,0 +1,222 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { constants, utils } from "ethers";
+import { loadFixture, reset } from "@nomicfoundation/hardhat-network-helpers";
+import { forkNetwork } from "../scripts/utils/fork";
+import { readJsonFile } from "../scripts/utils/jsonStore";
+import { RpcRecording, startRpcRecorder } from "../scripts/utils/rpcRecorder";
+import {
+  Scenario,
+  loadScenario,
+  resolveActors,
+  runScenario
+} from "../scripts/utils/simulation";
+import { deployContracts } from "./fixtures";
+
+describe("Scenario simulation", () => {
+  async function setup() {
+    const { deployer, tokenManager, multisig, bridge, peg, token } =
+      await deployContracts();
+    const contracts = { Bridge: bridge, ERC20Peg: peg, Token: token };
+    await contracts.ERC20Peg.endow({ value: utils.parseEther("2") });
+
+    const actors = await resolveActors(contracts, {
+      multisig: multisig.address,
+      tokenManager: tokenManager.address
+    });
+    return { deployer, multisig, contracts, actors };
+  }
+
+  it("replays steps as impersonated actors and diffs balances", async () => {
+    const { deployer, contracts, actors } = await loadFixture(setup);
+    const newPeg = "0x000000000000000000000000000000000000bEEF";
+    const recipient = "0x000000000000000000000000000000000000dEaD";
+    const scenario: Scenario = {
+      name: "rehearsal",
+      network: "hardhat",
+      actors: { recipient },
+      steps: [
+        {
+          as: "pegOwner",
+          contract: "ERC20Peg",
+          method: "adminEmergencyWithdraw",
+          args: [
+            constants.AddressZero,
+            utils.parseEther("0.5").toString(),
+            "$recipient"
+          ]
+        },
+        {
+          as: "multisig",
+          contract: "Token",
+          method: "setPeg",
+          args: [newPeg]
+        }
+      ]
+    };
+
+    const report = await runScenario({
+      provider: ethers.provider,
+      scenario,
+      contracts,
+      actors
+    });
+    expect(report.actors).to.include({
+      owner: deployer.address,
+      pegOwner: deployer.address,
+      recipient
+    });
+    expect(report.steps.map((s) => s.status)).to.deep.equal([
+      "success",
+      "success"
+    ]);
+    expect(report.steps[0].events.map((e) => e.name)).to.deep.equal([
+      "Withdraw",
+      "AdminWithdraw"
+    ]);
+    expect(report.steps[1].events).to.deep.equal([
+      {
+        address: contracts.Token.address,
+        name: "PegChanged",
+        args: { peg: newPeg }
+      }
+    ]);
+
+    const diff = (account: string) =>
+      report.balances.find((b) => b.account === account && b.asset === "ETH");
+    expect(diff(contracts.ERC20Peg.address)?.delta).to.equal(
+      utils.parseEther("-0.5").toString()
+    );
+    expect(diff(recipient)?.delta).to.equal(utils.parseEther("0.5").toString());
+    expect(await contracts.Token.peg()).to.equal(newPeg);
+  });
+
+  it("skips the remaining steps after a revert", async () => {
+    const { contracts, actors } = await loadFixture(setup);
+    const report = await runScenario({
+      provider: ethers.provider,
+      scenario: {
+        name: "unauthorised",
+        network: "hardhat",
+        steps: [
+          // MULTISIG_ROLE only
+          { as: "tokenManager", contract: "Token", method: "unpause" },
+          {
+            as: "owner",
+            contract: "Bridge",
+            method: "setActive",
+            args: [false]
+          }
+        ]
+      },
+      contracts,
+      actors
+    });
+    expect(report.steps.map((s) => s.status)).to.deep.equal([
+      "reverted",
+      "skipped"
+    ]);
+    expect(report.steps[0].reason).to.contain("AccessControl");
+    expect(report.balances).to.be.empty;
+    expect(await contracts.Bridge.active()).to.be.true;
+  });
+
+  it("rejects actors without their role", async () => {
+    const { contracts, multisig } = await loadFixture(setup);
+    await expect(
+      resolveActors(contracts, { tokenManager: multisig.address })
+    ).to.be.rejectedWith("does not hold MANAGER_ROLE");
+  });
+
+  describe("recorded fixture", () => {
+    // recorded from a local `hardhat node` running scripts/deploy.ts
+    const scenario = loadScenario("scenarios/localhost-set-peg.json");
+    const fixture = readJsonFile<RpcRecording>(
+      "scenarios/fixtures/localhost-set-peg.json",
+      { responses: {} }
+    );
+
+    // back to a fresh local network, dropping the snapshots taken before forking
+    after(() => reset());
+
+    async function runForked(url: string) {
+      await forkNetwork(ethers.provider, url, scenario.blockNumber);
+      const contracts = {
+        Bridge: await ethers.getContractAt(
+          "Bridge",
+          scenario.contracts!.Bridge!
+        ),
+        ERC20Peg: await ethers.getContractAt(
+          "ERC20Peg",
+          scenario.contracts!.ERC20Peg!
+        ),
+        Token: await ethers.getContractAt("Token", scenario.contracts!.Token!)
+      };
+      const report = await runScenario({
+        provider: ethers.provider,
+        scenario,
+        contracts,
+        actors: await resolveActors(contracts)
+      });
+      return { report, peg: await contracts.Token.peg() };
+    }
+
+    it("replays the committed fixture offline", async () => {
+      expect(fixture.blockNumber).to.equal(scenario.blockNumber);
+      const replay = await startRpcRecorder({
+        mode: "replay",
+        recording: fixture
+      });
+      try {
+        const { report, peg } = await runForked(replay.url);
+        const newPeg = scenario.steps[0].args![0];
+        expect(report.steps.map((s) => s.status)).to.deep.equal(["success"]);
+        expect(report.steps[0].events).to.deep.equal([
+          {
+            address: scenario.contracts!.Token,
+            name: "PegChanged",
+            args: { peg: newPeg }
+          }
+        ]);
+        expect(report.blockNumber).to.equal(scenario.blockNumber! + 1);
+        expect(peg).to.equal(newPeg);
+      } finally {
+        await replay.close();
+      }
+    });
+
+    it("records a fork and replays the recording", async () => {
+      // the committed fixture stands in for the live node
+      const upstream = await startRpcRecorder({
+        mode: "replay",
+        recording: fixture
+      });
+      const recording: RpcRecording = {
+        network: scenario.network,
+        blockNumber: scenario.blockNumber,
+        responses: {}
+      };
+      const recorder = await startRpcRecorder({
+        mode: "record",
+        recording,
+        upstream: upstream.url
+      });
+      let recorded;
+      try {
+        recorded = await runForked(recorder.url);
+      } finally {
+        await recorder.close();
+        await upstream.close();
+      }
+      expect(recorded.report.steps[0].status).to.equal("success");
+      expect(Object.keys(recording.responses)).to.not.be.empty;
+
+      const replay = await startRpcRecorder({ mode: "replay", recording });
+      try {
+        expect(await runForked(replay.url)).to.deep.equal(recorded);
+      } finally {
+        await replay.close();
+      }
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { expect } from "chai";
+import { utils } from "ethers";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  buildSupplyReport,
+  toHolderRows,
+  toSupplySummaryRows
+} from "../scripts/utils/supply";
+import { bridgeFixture, withdrawFunds } from "./fixtures";
+
+describe("Token supply report", () => {
+  const think = (amount: string) => utils.parseEther(amount);
+
+  // init mints the cap to the peg, withdrawals move it out, the multisig burns and mints
+  async function setup() {
+    const f = await bridgeFixture();
+    const { token, user, multisig, relayer, rolesManager, receiver } = f;
+    await withdrawFunds(f, {
+      tokenAddress: token.address,
+      amount: think("1000"),
+      recipient: user.address
+    });
+    await withdrawFunds(f, {
+      tokenAddress: token.address,
+      amount: think("300"),
+      recipient: multisig.address
+    });
+    await token.connect(user).transfer(relayer.address, think("250"));
+    await token.connect(multisig).burn(think("100"));
+    await token.connect(multisig).mint(rolesManager.address, think("40"));
+    await token.connect(multisig).setPeg(receiver.address);
+    return f;
+  }
+
+  it("rebuilds mints, burns, circulating supply and headroom", async () => {
+    const { token, peg, receiver, user, multisig, relayer, rolesManager } =
+      await loadFixture(setup);
+    const report = await buildSupplyReport({ token, top: 3 });
+
+    expect(report).to.deep.include({
+      symbol: "THINK",
+      cap: think("1000000000").toString(),
+      totalSupply: think("999999940").toString(),
+      minted: think("1000000040").toString(),
+      burned: think("100").toString(),
+      mintCount: 2,
+      burnCount: 1,
+      pegs: [peg.address, receiver.address],
+      pegBalance: think("999998700").toString(),
+      circulatingSupply: think("1240").toString(),
+      headroom: think("60").toString(),
+      holderCount: 5,
+      consistent: true,
+      notes: []
+    });
+    expect(
+      report.history.map((c) => [
+        c.kind,
+        c.account,
+        utils.formatEther(c.amount)
+      ])
+    ).to.deep.equal([
+      ["mint", peg.address, "1000000000.0"],
+      ["burn", multisig.address, "100.0"],
+      ["mint", rolesManager.address, "40.0"]
+    ]);
+    expect(report.history[2].totalSupply).to.equal(report.totalSupply);
+
+    expect(toHolderRows(report)).to.deep.equal([
+      {
+        rank: 1,
+        address: peg.address,
+        balance: "999998700.0",
+        share: "99.99",
+        peg: true
+      },
+      {
+        rank: 2,
+        address: user.address,
+        balance: "750.0",
+        share: "0.00",
+        peg: false
+      },
+      {
+        rank: 3,
+        address: relayer.address,
+        balance: "250.0",
+        share: "0.00",
+        peg: false
+      }
+    ]);
+    expect(
+      toSupplySummaryRows(report).find((r) => r.metric === "headroom")
+    ).to.deep.equal({ metric: "headroom", value: "60.0" });
+  });
+
+  it("flags a history that misses the init mint", async () => {
+    const { token } = await loadFixture(setup);
+    const [init] = await token.queryFilter(token.filters.Transfer());
+    const report = await buildSupplyReport({
+      token,
+      fromBlock: init.blockNumber + 1
+    });
+
+    expect(report.consistent).to.be.false;
+    expect(report.notes[0]).to.equal(
+      "Transfers rebuild a supply of -60.0 THINK, totalSupply() is 999999940.0 THINK - start at the Token deployment block"
+    );
+  });
+});
@@ -0,0 +1,148 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { Contract, utils } from "ethers";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { ROLES } from "../scripts/utils/roles";
+import {
+  PreparedTokenCall,
+  TokenCall,
+  prepareTokenCall,
+  resolveRole
+} from "../scripts/utils/tokenAdmin";
+import { bridgeFixture, withdrawFunds } from "./fixtures";
+
+describe("Token lifecycle calls", () => {
+  async function send(
+    token: Contract,
+    signer: SignerWithAddress,
+    call: TokenCall
+  ): Promise<PreparedTokenCall> {
+    const prepared = await prepareTokenCall(token, signer.address, call);
+    await expect(
+      token.connect(signer)[prepared.method](...prepared.args)
+    ).to.emit(token, prepared.event);
+    return prepared;
+  }
+
+  it("refuses init once peg() is set", async () => {
+    const { token, peg, rolesManager, tokenManager, multisig, user } =
+      await loadFixture(bridgeFixture);
+    await expect(
+      prepareTokenCall(token, tokenManager.address, {
+        method: "init",
+        peg: user.address
+      })
+    ).to.be.rejectedWith(
+      `Token is already initialized, peg() is ${peg.address}`
+    );
+
+    const fresh = await (
+      await ethers.getContractFactory("Token")
+    ).deploy(rolesManager.address, tokenManager.address, multisig.address);
+    await expect(
+      prepareTokenCall(fresh, multisig.address, {
+        method: "init",
+        peg: peg.address
+      })
+    ).to.be.rejectedWith(`${multisig.address} does not hold MANAGER_ROLE`);
+    const init = await send(fresh, tokenManager, {
+      method: "init",
+      peg: peg.address
+    });
+    expect(init.description).to.equal(
+      `Mint the whole supply of 1000000000.0 THINK to the peg ${peg.address}`
+    );
+    expect(await fresh.balanceOf(peg.address)).to.equal(
+      utils.parseEther("1000000000")
+    );
+  });
+
+  it("mints only within the cap headroom", async () => {
+    const f = await loadFixture(bridgeFixture);
+    const { token, peg, multisig, user } = f;
+    const mint = (amount: string, to = user.address) =>
+      prepareTokenCall(token, multisig.address, { method: "mint", to, amount });
+
+    // init minted the whole cap
+    await expect(mint("1")).to.be.rejectedWith(
+      "Minting 1.0 THINK exceeds the cap: 0.0 THINK headroom under 1000000000.0 THINK"
+    );
+
+    await withdrawFunds(f, {
+      tokenAddress: token.address,
+      amount: utils.parseEther("100"),
+      recipient: multisig.address
+    });
+    await expect(
+      prepareTokenCall(token, multisig.address, {
+        method: "burn",
+        amount: "100.5"
+      })
+    ).to.be.rejectedWith("holds 100.0 THINK, can not burn 100.5 THINK");
+    await send(token, multisig, { method: "burn", amount: "100" });
+
+    await expect(mint("1", peg.address)).to.be.rejectedWith(
+      "UseDepositInsteadOfTransfer"
+    );
+    await expect(
+      prepareTokenCall(token, user.address, {
+        method: "mint",
+        to: user.address,
+        amount: "1"
+      })
+    ).to.be.rejectedWith(`${user.address} does not hold MULTISIG_ROLE`);
+    expect((await mint("60")).description).to.equal(
+      `Mint 60.0 THINK to ${user.address} (headroom after: 40.0 THINK)`
+    );
+    await send(token, multisig, {
+      method: "mint",
+      to: user.address,
+      amount: "60"
+    });
+    await expect(mint("40.000000000000000001")).to.be.rejectedWith(
+      "exceeds the cap"
+    );
+  });
+
+  it("pauses with MANAGER_ROLE and unpauses with MULTISIG_ROLE", async () => {
+    const { token, tokenManager, multisig, user } = await loadFixture(
+      bridgeFixture
+    );
+    await send(token, tokenManager, { method: "pause" });
+    await expect(
+      prepareTokenCall(token, tokenManager.address, { method: "pause" })
+    ).to.be.rejectedWith("Token is already paused");
+    await expect(
+      prepareTokenCall(token, multisig.address, { method: "burn", amount: "1" })
+    ).to.be.rejectedWith("Token is paused - burn would revert");
+    await expect(
+      prepareTokenCall(token, tokenManager.address, { method: "unpause" })
+    ).to.be.rejectedWith("does not hold MULTISIG_ROLE");
+    await send(token, multisig, { method: "unpause" });
+
+    await send(token, multisig, { method: "setPeg", peg: user.address });
+    expect(await token.peg()).to.equal(user.address);
+  });
+
+  it("grants and revokes roles as the role admin", async () => {
+    const { token, rolesManager, user } = await loadFixture(bridgeFixture);
+    const grant: TokenCall = {
+      method: "grantRole",
+      role: "MANAGER_ROLE",
+      account: user.address
+    };
+    await expect(
+      prepareTokenCall(token, user.address, grant)
+    ).to.be.rejectedWith("does not hold DEFAULT_ADMIN_ROLE");
+    await send(token, rolesManager, grant);
+    expect(await token.hasRole(ROLES.MANAGER_ROLE, user.address)).to.be.true;
+    await expect(
+      prepareTokenCall(token, rolesManager.address, grant)
+    ).to.be.rejectedWith(`${user.address} already holds MANAGER_ROLE`);
+
+    await send(token, rolesManager, { ...grant, method: "revokeRole" });
+    expect(await token.hasRole(ROLES.MANAGER_ROLE, user.address)).to.be.false;
+    expect(() => resolveRole("OWNER")).to.throw("Unknown role OWNER");
+  });
+});
@@ -0,0 +1,197 @@
+import { expect } from "chai";
+import { network } from "hardhat";
+import { constants, utils } from "ethers";
+import { loadFixture, mine } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  PEG_PALLET_ADDRESS,
+  encodePayload,
+  pegDepositCodec
+} from "../scripts/utils/codecs";
+import { depositMessageFee } from "../scripts/utils/fees";
+import { buildEventProof } from "../scripts/utils/proof";
+import {
+  StubRootLookup,
+  trackDeposits,
+  trackWithdrawals
+} from "../scripts/utils/tracker";
+import { VALIDATOR_SET_ID, bridgeFixture } from "./fixtures";
+
+describe("Deposit tracker", () => {
+  async function setup() {
+    const f = await bridgeFixture();
+    await f.peg.endow({ value: utils.parseEther("1") });
+    return f;
+  }
+
+  // Hardhat only mines reverted transactions when automine is off
+  async function mineReverted(send: () => Promise<{ hash: string }>) {
+    await network.provider.send("evm_setAutomine", [false]);
+    const { hash } = await send();
+    await network.provider.send("evm_mine");
+    await network.provider.send("evm_setAutomine", [true]);
+    return hash;
+  }
+
+  describe("deposits", () => {
+    it("follows a deposit from its transaction to Root", async () => {
+      const { user, bridge, peg } = await loadFixture(setup);
+      const amount = utils.parseEther("0.1");
+      const fee = await depositMessageFee(bridge);
+      const tx = await peg
+        .connect(user)
+        .deposit(constants.AddressZero, amount, user.address, {
+          value: amount.add(fee)
+        });
+      const root = new StubRootLookup();
+      const track = () =>
+        trackDeposits({
+          peg,
+          bridge,
+          transactionHash: tx.hash,
+          root,
+          confirmations: 3
+        });
+
+      const [deposit] = await track();
+      expect(deposit).to.include({
+        confirmations: 1,
+        depositor: user.address,
+        amount: amount.toString(),
+        destination: user.address,
+        messageId: "0",
+        state: "pending-confirmations"
+      });
+
+      await mine(2);
+      expect((await track())[0].state).to.equal("emitted");
+
+      root.observe("0", { blockNumber: 1234 });
+      const [observed] = await track();
+      expect(observed.state).to.equal("observed-on-root");
+      expect(observed.root).to.deep.equal({ blockNumber: 1234 });
+    });
+
+    it("finds every deposit of a depositor, including reverted ones", async () => {
+      const { user, bridge, peg } = await loadFixture(setup);
+      const fee = await depositMessageFee(bridge);
+      for (const amount of [1, 2]) {
+        await peg
+          .connect(user)
+          .deposit(constants.AddressZero, amount, user.address, {
+            value: fee.add(amount)
+          });
+      }
+      const deposits = await trackDeposits({
+        peg,
+        bridge,
+        depositor: user.address,
+        confirmations: 1
+      });
+      expect(
+        deposits.map((d) => [d.amount, d.messageId, d.state])
+      ).to.deep.equal([
+        ["1", "0", "emitted"],
+        ["2", "1", "emitted"]
+      ]);
+
+      // too little fee - the deposit reverts
+      const hash = await mineReverted(() =>
+        peg.connect(user).deposit(constants.AddressZero, 3, user.address, {
+          value: 3,
+          gasLimit: 300_000
+        })
+      );
+      const [failed] = await trackDeposits({
+        peg,
+        bridge,
+        transactionHash: hash
+      });
+      expect(failed).to.include({ amount: "3", state: "failed" });
+      expect(failed.messageId).to.be.undefined;
+    });
+  });
+
+  describe("withdrawals", () => {
+    it("matches MessageReceived eventIds to Withdraw events", async () => {
+      const { user, relayer, bridge, peg, validators } = await loadFixture(
+        setup
+      );
+      const amount = utils.parseEther("0.5");
+      const relay = async (eventId: number, overrides = {}) => {
+        const appMessage = encodePayload(pegDepositCodec, {
+          tokenAddress: constants.AddressZero,
+          amount: amount.toString(),
+          destination: user.address
+        });
+        return bridge.connect(relayer).receiveMessage(
+          PEG_PALLET_ADDRESS,
+          peg.address,
+          appMessage,
+          buildEventProof(
+            {
+              source: PEG_PALLET_ADDRESS,
+              destination: peg.address,
+              appMessage,
+              validatorSetId: VALIDATOR_SET_ID,
+              eventId
+            },
+            validators.map((v) => v.address),
+            validators
+          ),
+          { value: await bridge.bridgeFee(), ...overrides }
+        );
+      };
+
+      expect(
+        await trackWithdrawals({ peg, bridge, eventId: "5" })
+      ).to.deep.equal([
+        { eventId: "5", confirmations: 0, state: "not-received" }
+      ]);
+
+      const tx = await relay(5);
+      const [byTx] = await trackWithdrawals({
+        peg,
+        bridge,
+        transactionHash: tx.hash,
+        confirmations: 2
+      });
+      expect(byTx).to.include({
+        eventId: "5",
+        recipient: user.address,
+        tokenAddress: constants.AddressZero,
+        amount: amount.toString(),
+        state: "pending-confirmations"
+      });
+
+      await mine(1);
+      const byEventId = await trackWithdrawals({
+        peg,
+        bridge,
+        eventId: "5",
+        confirmations: 2
+      });
+      expect(byEventId.map((w) => w.state)).to.deep.equal(["withdrawn"]);
+
+      await peg.setWithdrawalsActive(false);
+      const hash = await mineReverted(() => relay(6, { gasLimit: 500_000 }));
+      const [failed] = await trackWithdrawals({
+        peg,
+        bridge,
+        transactionHash: hash
+      });
+      expect(failed).to.include({
+        eventId: "6",
+        recipient: user.address,
+        state: "failed"
+      });
+
+      const byRecipient = await trackWithdrawals({
+        peg,
+        bridge,
+        recipient: user.address,
+        confirmations: 1
+      });
+      expect(byRecipient.map((w) => w.eventId)).to.deep.equal(["5"]);
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  checkValidatorSetUpdate,
+  mergeRegistry,
+  prepareValidatorSetUpdate,
+  rebuildRegistry,
+  validatorSetDigest
+} from "../scripts/utils/validatorSets";
+
+describe("Validator set registry", () => {
+  async function setup() {
+    const [owner, user, validator1, validator2, validator3] =
+      await ethers.getSigners();
+
+    const BridgeFactory = await ethers.getContractFactory("Bridge");
+    const bridge = await BridgeFactory.connect(owner).deploy();
+    await bridge.deployed();
+
+    const validators = [validator1, validator2, validator3].map(
+      (signer) => signer.address
+    );
+
+    return { owner, user, bridge, validators };
+  }
+
+  it("computes the on-chain validator set digest", async () => {
+    const { owner, bridge } = await loadFixture(setup);
+
+    // matches the digest asserted in the Bridge tests
+    expect(validatorSetDigest([owner.address])).to.equal(
+      "0xa9404f191a6a84d0d36e618e9552617f03e20ee60e640f27c07db9245d83e495"
+    );
+
+    await bridge.forceActiveValidatorSet([owner.address], 1);
+    expect(await bridge.validatorSetDigests(1)).to.equal(
+      validatorSetDigest([owner.address])
+    );
+  });
+
+  it("rejects updates the bridge would refuse", async () => {
+    const { owner, bridge, validators } = await loadFixture(setup);
+    const registry = { bridge: bridge.address, sets: {} };
+
+    await bridge.connect(owner).forceActiveValidatorSet(validators, 10);
+
+    // active set ids must not go backwards
+    expect(
+      checkValidatorSetUpdate("active", 9, 3, {
+        activeValidatorSetId: 10,
+        proofTTL: 7
+      })
+    ).to.equal("Bridge: set is historic");
+    await expect(
+      prepareValidatorSetUpdate(bridge, registry, "active", 9, validators)
+    ).to.be.rejectedWith("Bridge: set is historic");
+    await expect(
+      bridge.connect(owner).forceActiveValidatorSet(validators, 9)
+    ).to.be.revertedWith("Bridge: set is historic");
+
+    // validatorSetId + proofTTL <= activeValidatorSetId
+    await expect(
+      prepareValidatorSetUpdate(bridge, registry, "historic", 3, validators)
+    ).to.be.rejectedWith("Bridge: set is inactive");
+    await expect(
+      bridge.connect(owner).forceHistoricValidatorSet(validators, 3)
+    ).to.be.revertedWith("Bridge: set is inactive");
+
+    // still within proofTTL
+    const update = await prepareValidatorSetUpdate(
+      bridge,
+      registry,
+      "historic",
+      4,
+      validators
+    );
+    expect(update.digest).to.equal(validatorSetDigest(validators));
+    expect(update.unchanged).to.be.false;
+
+    await expect(
+      prepareValidatorSetUpdate(bridge, registry, "active", 11, [])
+    ).to.be.rejectedWith("Bridge: empty validator set");
+  });
+
+  it("detects re-ordered and unchanged sets", async () => {
+    const { owner, bridge, validators } = await loadFixture(setup);
+
+    await bridge.connect(owner).forceActiveValidatorSet(validators, 1);
+    const registry = await rebuildRegistry(bridge);
+
+    const unchanged = await prepareValidatorSetUpdate(
+      bridge,
+      registry,
+      "active",
+      1,
+      validators
+    );
+    expect(unchanged.unchanged).to.be.true;
+
+    await expect(
+      prepareValidatorSetUpdate(
+        bridge,
+        registry,
+        "active",
+        1,
+        [...validators].reverse()
+      )
+    ).to.be.rejectedWith("different order");
+  });
+
+  it("rebuilds the registry from bridge events", async () => {
+    const { owner, bridge, validators } = await loadFixture(setup);
+
+    await bridge.connect(owner).forceActiveValidatorSet(validators, 1);
+    await bridge
+      .connect(owner)
+      .forceActiveValidatorSet(validators.slice(0, 2), 2);
+    await bridge
+      .connect(owner)
+      .forceHistoricValidatorSet(validators.slice(1), 1);
+
+    const registry = await rebuildRegistry(bridge);
+
+    expect(registry.bridge).to.equal(bridge.address);
+    expect(Object.keys(registry.sets)).to.deep.equal(["1", "2"]);
+    // the historic override replaces the original set 1
+    expect(registry.sets[1]).to.include({
+      validatorSetId: 1,
+      digest: validatorSetDigest(validators.slice(1)),
+      source: "ForceSetHistoricValidators"
+    });
+    expect(registry.sets[1].validators).to.deep.equal(validators.slice(1));
+    expect(registry.sets[2].validators).to.deep.equal(validators.slice(0, 2));
+    expect(registry.sets[2].source).to.equal("ForceSetActiveValidators");
+  });
+
+  it("keeps registered addresses the rebuild can not recover", async () => {
+    const { owner, user, bridge, validators } = await loadFixture(setup);
+
+    await bridge.connect(owner).forceActiveValidatorSet(validators, 1);
+    await bridge
+      .connect(owner)
+      .forceActiveValidatorSet(validators.slice(0, 2), 2);
+    const registered = await rebuildRegistry(bridge);
+    // set 2 is registered with other addresses, set 5 never reached the bridge
+    registered.sets[2] = {
+      ...registered.sets[2],
+      digest: validatorSetDigest([user.address]),
+      validators: [user.address]
+    };
+    registered.sets[5] = {
+      validatorSetId: 5,
+      digest: validatorSetDigest([user.address]),
+      validators: [user.address],
+      source: "local"
+    };
+
+    // e.g. set 1 was relayed through a multisig
+    const rebuilt = await rebuildRegistry(bridge);
+    rebuilt.sets[1].validators = null;
+
+    const merged = await mergeRegistry(bridge, registered, rebuilt);
+    expect(Object.keys(merged.sets)).to.deep.equal(["1", "2"]);
+    expect(merged.sets[1]).to.include({
+      digest: validatorSetDigest(validators),
+      source: "ForceSetActiveValidators"
+    });
+    expect(merged.sets[1].validators).to.deep.equal(validators);
+    expect(merged.sets[2].validators).to.deep.equal(validators.slice(0, 2));
+  });
+});
@@ -0,0 +1,375 @@
+import { expect } from "chai";
+import { BigNumber, Wallet, constants, utils } from "ethers";
+import fc from "fast-check";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  EventProof,
+  acceptanceThreshold,
+  buildEventProof,
+  proofDigest,
+  signDigest
+} from "../scripts/utils/proof";
+import {
+  ReceivedMessage,
+  VerifyResult,
+  verifyMessageWithState,
+  verifyReceiveMessage
+} from "../scripts/utils/verifier";
+import { bridgeFixture, validatorWallets } from "./fixtures";
+
+// Runs per property - raise locally e.g. `FUZZ_RUNS=500 npx hardhat test test/verifier.property.test.ts`
+const RUNS = Number(process.env.FUZZ_RUNS ?? 50);
+
+const SECP256K1_N = BigNumber.from(
+  "0xFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFEBAAEDCE6AF48A03BBFD25E8CD0364141"
+);
+
+// What each validator slot of the proof carries
+// - sign: a valid signature, omit: zeroed r/s
+// - wrong-signer / wrong-message: a well formed signature by an outsider / over another eventId
+// - high-s: the malleable twin of a valid signature, bad-v: v as 0/1 instead of 27/28
+// - random-r: a valid s with random r bytes, usually not a curve point
+type Slot =
+  | { kind: "sign" | "omit" | "wrong-signer" | "wrong-message" }
+  | { kind: "high-s" | "bad-v" }
+  | { kind: "random-r"; r: string };
+
+interface Scenario {
+  slots: Slot[];
+  thresholdPercent: number;
+  activeValidatorSetId: number;
+  proofTTL: number;
+  // activeValidatorSetId - proof.validatorSetId, -1 is a future set
+  age: number;
+  // whether the proof's validators are the set registered at proof.validatorSetId
+  registered: boolean;
+  active: boolean;
+  eventId: string;
+}
+
+const slotArb: fc.Arbitrary<Slot> = fc.oneof(
+  { arbitrary: fc.constant({ kind: "sign" as const }), weight: 8 },
+  { arbitrary: fc.constant({ kind: "omit" as const }), weight: 4 },
+  {
+    arbitrary: fc.constantFrom(
+      { kind: "wrong-signer" as const },
+      { kind: "wrong-message" as const },
+      { kind: "high-s" as const },
+      { kind: "bad-v" as const }
+    ),
+    weight: 1
+  },
+  {
+    arbitrary: fc
+      .uint8Array({ minLength: 32, maxLength: 32 })
+      .map((bytes) => ({ kind: "random-r" as const, r: utils.hexlify(bytes) })),
+    weight: 1
+  }
+);
+
+const mostly = (weight: number) =>
+  fc.oneof(
+    { arbitrary: fc.constant(true), weight },
+    { arbitrary: fc.constant(false), weight: 1 }
+  );
+
+const scenarioArb: fc.Arbitrary<Scenario> = fc.record({
+  slots: fc.array(slotArb, { minLength: 1, maxLength: 12 }),
+  thresholdPercent: fc.integer({ min: 0, max: 100 }),
+  activeValidatorSetId: fc.integer({ min: 1, max: 20 }),
+  proofTTL: fc.integer({ min: 0, max: 6 }),
+  age: fc.integer({ min: -1, max: 8 }),
+  registered: mostly(5),
+  active: mostly(9),
+  eventId: fc.bigUintN(256).map((id) => id.toString())
+});
+
+const repeat = (kind: "sign" | "omit", count: number): Slot[] =>
+  Array.from({ length: count }, () => ({ kind }));
+
+// Edge cases every run checks before the random scenarios
+const examples: Scenario[] = [
+  // 1 * 60 / 100 rounds down to 0 - a proof without any signature is accepted
+  {
+    slots: repeat("omit", 1),
+    thresholdPercent: 60,
+    activeValidatorSetId: 1,
+    proofTTL: 3,
+    age: 0,
+    registered: true,
+    active: true,
+    eventId: "1"
+  },
+  // ...but a signature is still checked before the threshold is compared
+  {
+    slots: [{ kind: "wrong-signer" }],
+    thresholdPercent: 60,
+    activeValidatorSetId: 1,
+    proofTTL: 3,
+    age: 0,
+    registered: true,
+    active: true,
+    eventId: "1"
+  },
+  // signatures after the threshold is reached are not checked
+  {
+    slots: [{ kind: "sign" }, { kind: "sign" }, { kind: "bad-v" }],
+    thresholdPercent: 66,
+    activeValidatorSetId: 2,
+    proofTTL: 3,
+    age: 0,
+    registered: true,
+    active: true,
+    eventId: "2"
+  },
+  // proofTTL boundary - a set exactly proofTTL old is still valid, one older is expired
+  {
+    slots: repeat("sign", 4),
+    thresholdPercent: 60,
+    activeValidatorSetId: 10,
+    proofTTL: 4,
+    age: 4,
+    registered: true,
+    active: true,
+    eventId: "3"
+  },
+  {
+    slots: repeat("sign", 4),
+    thresholdPercent: 60,
+    activeValidatorSetId: 10,
+    proofTTL: 4,
+    age: 5,
+    registered: true,
+    active: true,
+    eventId: "4"
+  },
+  // proofTTL 0 - only the active set proves
+  {
+    slots: repeat("sign", 2),
+    thresholdPercent: 100,
+    activeValidatorSetId: 3,
+    proofTTL: 0,
+    age: 1,
+    registered: true,
+    active: true,
+    eventId: "5"
+  },
+  // a 100% threshold with one signature missing
+  {
+    slots: [...repeat("sign", 5), ...repeat("omit", 1)],
+    thresholdPercent: 100,
+    activeValidatorSetId: 1,
+    proofTTL: 3,
+    age: 0,
+    registered: true,
+    active: true,
+    eventId: constants.MaxUint256.toString()
+  }
+];
+
+describe("Bridge proof verification (property)", function () {
+  this.timeout(0);
+
+  const outsider = validatorWallets(1, "outsider")[0];
+
+  function buildProof(
+    message: ReceivedMessage,
+    validatorSetId: number,
+    eventId: string,
+    wallets: Wallet[],
+    slots: Slot[]
+  ): EventProof {
+    const validators = wallets.map((w) => w.address);
+    const proof = buildEventProof(
+      { ...message, validatorSetId, eventId },
+      validators,
+      wallets.filter((_, i) => slots[i].kind !== "omit")
+    );
+    const otherDigest = proofDigest({
+      ...message,
+      validatorSetId,
+      eventId: BigNumber.from(eventId).add(1).mod(constants.MaxUint256)
+    });
+
+    slots.forEach((slot, i) => {
+      const set = ({ v, r, s }: { v: number; r: string; s: string }) => {
+        proof.v[i] = v;
+        proof.r[i] = r;
+        proof.s[i] = s;
+      };
+      const { v, r, s } = { v: proof.v[i], r: proof.r[i], s: proof.s[i] };
+      switch (slot.kind) {
+        case "wrong-signer":
+          set(
+            signDigest(
+              outsider,
+              proofDigest({ ...message, validatorSetId, eventId })
+            )
+          );
+          break;
+        case "wrong-message":
+          set(signDigest(wallets[i], otherDigest));
+          break;
+        case "high-s":
+          set({
+            v: v === 27 ? 28 : 27,
+            r,
+            s: utils.hexZeroPad(SECP256K1_N.sub(s).toHexString(), 32)
+          });
+          break;
+        case "bad-v":
+          set({ v: v - 27, r, s });
+          break;
+        case "random-r":
+          set({ v, r: slot.r, s });
+          break;
+      }
+    });
+    return proof;
+  }
+
+  /**
+   * Sets the bridge up for `scenario` and relays its proof, checking the contract agrees with the off-chain model
+   * Returns the model's verdict on the first relay
+   */
+  async function relayScenario(scenario: Scenario): Promise<VerifyResult> {
+    const { bridge, receiver, relayer } = await loadFixture(bridgeFixture);
+    const {
+      slots,
+      thresholdPercent,
+      activeValidatorSetId,
+      proofTTL,
+      age,
+      registered,
+      active,
+      eventId
+    } = scenario;
+    const validatorSetId = Math.max(0, activeValidatorSetId - age);
+    const wallets = validatorWallets(slots.length, "fuzz");
+    const validators = wallets.map((w) => w.address);
+    const others = validatorWallets(slots.length, "other").map(
+      (w) => w.address
+    );
+
+    await bridge.setThreshold(thresholdPercent);
+    // historic sets can only be registered within proofTTL - register under a longer one, then apply the scenario's
+    await bridge.setProofTTL(Math.max(proofTTL, age + 1));
+    await bridge.forceActiveValidatorSet(
+      validatorSetId === activeValidatorSetId && registered
+        ? validators
+        : others,
+      activeValidatorSetId
+    );
+    if (validatorSetId < activeValidatorSetId && registered) {
+      await bridge.forceHistoricValidatorSet(validators, validatorSetId);
+    }
+    await bridge.setProofTTL(proofTTL);
+    if (!active) await bridge.setActive(false);
+
+    const message: ReceivedMessage = {
+      source: outsider.address,
+      destination: receiver.address,
+      appMessage: utils.hexlify(utils.toUtf8Bytes(`fuzz ${eventId}`))
+    };
+    const proof = buildProof(message, validatorSetId, eventId, wallets, slots);
+    const fee = await bridge.bridgeFee();
+
+    const relay = async () => {
+      const expected = await verifyReceiveMessage(bridge, message, proof, fee);
+      const tx = bridge
+        .connect(relayer)
+        .receiveMessage(
+          message.source,
+          message.destination,
+          message.appMessage,
+          proof,
+          { value: fee }
+        );
+      if (expected.valid) {
+        await expect(tx).to.emit(bridge, "MessageReceived");
+      } else {
+        await expect(tx).to.be.revertedWith(expected.reason);
+      }
+      return expected;
+    };
+
+    const result = await relay();
+    // a verified proof can not be replayed
+    if (result.valid) {
+      expect(await relay()).to.deep.equal({
+        valid: false,
+        reason: "Bridge: eventId replayed"
+      });
+    }
+    return result;
+  }
+
+  it("receiveMessage accepts a proof exactly when the off-chain model does", async () => {
+    await fc.assert(
+      fc.asyncProperty(scenarioArb, async (scenario) => {
+        await relayScenario(scenario);
+      }),
+      { numRuns: RUNS, examples: examples.map((e) => [e]) }
+    );
+  });
+
+  it("accepts a proof from a set exactly proofTTL old", async () => {
+    const boundary = {
+      slots: repeat("sign", 4),
+      thresholdPercent: 60,
+      activeValidatorSetId: 10,
+      proofTTL: 4,
+      registered: true,
+      active: true
+    };
+    expect(
+      await relayScenario({ ...boundary, age: 4, eventId: "3" })
+    ).to.deep.equal({ valid: true });
+    expect(
+      await relayScenario({ ...boundary, age: 5, eventId: "4" })
+    ).to.deep.equal({ valid: false, reason: "Bridge: expired proof" });
+  });
+
+  it("a proof is valid exactly when it carries the threshold of signatures", () => {
+    const message = {
+      source: outsider.address,
+      destination: outsider.address,
+      appMessage: "0x01"
+    };
+    fc.assert(
+      fc.property(
+        fc.array(fc.boolean(), { minLength: 1, maxLength: 20 }),
+        fc.integer({ min: 0, max: 100 }),
+        (signs, thresholdPercent) => {
+          const wallets = validatorWallets(signs.length, "fuzz");
+          const validators = wallets.map((w) => w.address);
+          const proof = buildEventProof(
+            { ...message, validatorSetId: 1, eventId: 1 },
+            validators,
+            wallets.filter((_, i) => signs[i])
+          );
+          const state = {
+            active: true,
+            activeValidatorSetId: 1,
+            proofTTL: 0,
+            thresholdPercent,
+            bridgeFee: 0,
+            validatorSetDigests: {
+              1: utils.keccak256(
+                utils.defaultAbiCoder.encode(["address[]"], [validators])
+              )
+            },
+            verifiedEventIds: []
+          };
+          const signatures = signs.filter(Boolean).length;
+          expect(verifyMessageWithState(state, message, proof)).to.deep.equal(
+            signatures >= acceptanceThreshold(signs.length, thresholdPercent)
+              ? { valid: true }
+              : { valid: false, reason: "Bridge: not enough signatures" }
+          );
+        }
+      ),
+      { numRuns: RUNS * 4 }
+    );
+  });
+});
@@ -0,0 +1,300 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { BigNumberish, Contract, Signer, constants, utils } from "ethers";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { EventProof, buildEventProof } from "../scripts/utils/proof";
+import {
+  ReceivedMessage,
+  verifyMessageWithState,
+  verifyReceiveMessage
+} from "../scripts/utils/verifier";
+
+describe("Bridge verifier (off-chain _verifyMessage)", () => {
+  const validatorPrivateKey =
+    "0xcb6df9de1efca7a3998a8ead4e02159d5fa99c3e0d4fd6432667390bb4726854"; // alice private key
+  const validatorSigner = new ethers.Wallet(validatorPrivateKey); // address: 0xE04CC55ebEE1cBCE552f250e85c57B70B2E2625b
+
+  async function setup() {
+    const [owner, user] = await ethers.getSigners();
+
+    const BridgeFactory = await ethers.getContractFactory("Bridge");
+    const bridge = await BridgeFactory.connect(owner).deploy();
+    await bridge.deployed();
+
+    const MockBridgeFactory = await ethers.getContractFactory(
+      "MockBridgeReceiver"
+    );
+    const mockBridge = await MockBridgeFactory.connect(owner).deploy();
+    await mockBridge.deployed();
+
+    const message: ReceivedMessage = {
+      source: "0x0000000000000000000000000000000000000001",
+      destination: mockBridge.address,
+      // encode valitators and validatorSetId into app message
+      appMessage: ethers.utils.defaultAbiCoder.encode(
+        ["address[]", "uint256"],
+        [[owner.address], 1]
+      )
+    };
+
+    return { owner, user, bridge, mockBridge, message };
+  }
+
+  /**
+   * Dry runs the proof off-chain, then submits it and checks the contract agrees with the verifier
+   */
+  async function expectContractAgrees(
+    bridge: Contract,
+    txExecutor: Signer,
+    message: ReceivedMessage,
+    proof: EventProof,
+    value: BigNumberish
+  ) {
+    const result = await verifyReceiveMessage(bridge, message, proof, value);
+    const tx = bridge
+      .connect(txExecutor)
+      .receiveMessage(
+        message.source,
+        message.destination,
+        message.appMessage,
+        proof,
+        { value }
+      );
+
+    if (result.valid) {
+      await expect(tx).to.emit(bridge, "MessageReceived");
+    } else {
+      await expect(tx).to.be.revertedWith(result.reason);
+    }
+    return result;
+  }
+
+  it("_verifyMessage", async () => {
+    const { owner, user, bridge, message } = await loadFixture(setup);
+
+    const verificationFee = await bridge.bridgeFee();
+    const validatorSetId = 1;
+    const proof = buildEventProof(
+      { ...message, validatorSetId, eventId: 1 },
+      [validatorSigner.address],
+      [validatorSigner]
+    );
+
+    // fails due to no supplied verification fee
+    expect(
+      await expectContractAgrees(bridge, user, message, proof, 0)
+    ).to.deep.equal({
+      valid: false,
+      reason: "Bridge: must supply bridge fee"
+    });
+
+    // fails due to inactive bridge
+    expect(
+      await expectContractAgrees(bridge, user, message, proof, verificationFee)
+    ).to.deep.equal({ valid: false, reason: "Bridge: bridge inactive" });
+
+    await bridge.connect(owner).setActive(true);
+
+    // fails due to unset validators
+    expect(
+      await expectContractAgrees(bridge, user, message, proof, verificationFee)
+    ).to.deep.equal({ valid: false, reason: "Bridge: future validator set" });
+
+    await bridge.forceActiveValidatorSet(
+      [validatorSigner.address],
+      validatorSetId
+    );
+
+    // successfully verifies message
+    expect(
+      await expectContractAgrees(bridge, user, message, proof, verificationFee)
+    ).to.deep.equal({ valid: true });
+
+    // fails due to replayed event id
+    expect(
+      await expectContractAgrees(bridge, user, message, proof, verificationFee)
+    ).to.deep.equal({ valid: false, reason: "Bridge: eventId replayed" });
+
+    // fails due to invalid signature (signed for a different eventId)
+    expect(
+      await expectContractAgrees(
+        bridge,
+        user,
+        message,
+        { ...proof, eventId: 2 },
+        verificationFee
+      )
+    ).to.deep.equal({ valid: false, reason: "Bridge: signature invalid" });
+
+    const proofUpd = buildEventProof(
+      { ...message, validatorSetId, eventId: 2 },
+      [validatorSigner.address],
+      [validatorSigner]
+    );
+
+    // set active validator set such that activeValidatorSetId - validatorSetId > proofTTL
+    await bridge.forceActiveValidatorSet([validatorSigner.address], 9);
+
+    // fails due to expired proof
+    expect(
+      await expectContractAgrees(
+        bridge,
+        user,
+        message,
+        proofUpd,
+        verificationFee
+      )
+    ).to.deep.equal({ valid: false, reason: "Bridge: expired proof" });
+  });
+
+  it("_verifyMessage - no consensus", async () => {
+    const { owner, user, bridge, message } = await loadFixture(setup);
+
+    const verificationFee = await bridge.bridgeFee();
+    const validatorSetId = 1;
+    const validators = Array(5).fill(validatorSigner.address);
+
+    await bridge.connect(owner).setActive(true);
+    await bridge.forceActiveValidatorSet(validators, validatorSetId);
+
+    const signed = buildEventProof(
+      { ...message, validatorSetId, eventId: 1 },
+      [validatorSigner.address],
+      [validatorSigner]
+    );
+
+    // proof contains 0 validators in set
+    expect(
+      await expectContractAgrees(
+        bridge,
+        user,
+        message,
+        { ...signed, validators: [] },
+        verificationFee
+      )
+    ).to.deep.equal({ valid: false, reason: "Bridge: invalid validator set" });
+
+    // proof contains fewer validators than those set from `forceActiveValidatorSet`
+    expect(
+      await expectContractAgrees(
+        bridge,
+        user,
+        message,
+        { ...signed, validators: validators.slice(1) },
+        verificationFee
+      )
+    ).to.deep.equal({
+      valid: false,
+      reason: "Bridge: unexpected validator digest"
+    });
+
+    // proof contains incorrect validator address in set
+    expect(
+      await expectContractAgrees(
+        bridge,
+        user,
+        message,
+        { ...signed, validators: [owner.address] },
+        verificationFee
+      )
+    ).to.deep.equal({
+      valid: false,
+      reason: "Bridge: unexpected validator digest"
+    });
+
+    // validators.length = 5; acceptance_threshold = 5 * 60 / 100 => 3; only 2 signatures provided
+    const omitted = constants.HashZero;
+    const [v, r, s] = [signed.v[0], signed.r[0], signed.s[0]];
+    const proofIncompleteSignatures = {
+      ...signed,
+      v: [v, 0, 0, v, 0],
+      r: [r, omitted, omitted, r, omitted],
+      s: [s, omitted, omitted, s, omitted],
+      validators
+    };
+    expect(
+      await expectContractAgrees(
+        bridge,
+        user,
+        message,
+        proofIncompleteSignatures,
+        verificationFee
+      )
+    ).to.deep.equal({ valid: false, reason: "Bridge: not enough signatures" });
+
+    // a third signature reaches consensus
+    const proofEnoughSignatures = {
+      ...proofIncompleteSignatures,
+      v: [v, 0, 0, v, v],
+      r: [r, omitted, omitted, r, r],
+      s: [s, omitted, omitted, s, s]
+    };
+    expect(
+      await expectContractAgrees(
+        bridge,
+        user,
+        message,
+        proofEnoughSignatures,
+        verificationFee
+      )
+    ).to.deep.equal({ valid: true });
+  });
+
+  it("verifies against a state snapshot", () => {
+    const message = {
+      source: "0x0000000000000000000000000000000000000001",
+      destination: "0x0000000000000000000000000000000000000002",
+      appMessage: "0x01"
+    };
+    const proof = buildEventProof(
+      { ...message, validatorSetId: 3, eventId: 10 },
+      [validatorSigner.address],
+      [validatorSigner]
+    );
+    const state = {
+      active: true,
+      activeValidatorSetId: 10,
+      proofTTL: 7,
+      thresholdPercent: 60,
+      bridgeFee: utils.parseEther("0.004"),
+      validatorSetDigests: {
+        3: utils.keccak256(
+          utils.defaultAbiCoder.encode(
+            ["address[]"],
+            [[validatorSigner.address]]
+          )
+        )
+      },
+      verifiedEventIds: [9]
+    };
+
+    // activeValidatorSetId - validatorSetId == proofTTL is still valid
+    expect(verifyMessageWithState(state, message, proof)).to.deep.equal({
+      valid: true
+    });
+    expect(
+      verifyMessageWithState(
+        { ...state, activeValidatorSetId: 11 },
+        message,
+        proof
+      )
+    ).to.deep.equal({ valid: false, reason: "Bridge: expired proof" });
+    expect(
+      verifyMessageWithState(
+        { ...state, verifiedEventIds: [10] },
+        message,
+        proof
+      )
+    ).to.deep.equal({ valid: false, reason: "Bridge: eventId replayed" });
+    expect(
+      verifyMessageWithState(
+        { ...state, validatorSetDigests: {} },
+        message,
+        proof
+      )
+    ).to.deep.equal({
+      valid: false,
+      reason: "Bridge: unexpected validator digest"
+    });
+  });
+});
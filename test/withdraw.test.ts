@@ -0,0 +1,162 @@
+import { expect } from "chai";
+import { constants, utils } from "ethers";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  PEG_PALLET_ADDRESS,
+  encodePayload,
+  pegDepositCodec
+} from "../scripts/utils/codecs";
+import { buildEventProof } from "../scripts/utils/proof";
+import { SignedMessage } from "../scripts/utils/relayer";
+import {
+  parseWithdrawalProof,
+  prepareWithdrawalClaim,
+  sendWithdrawalClaim
+} from "../scripts/utils/withdraw";
+import { BridgeFixture, VALIDATOR_SET_ID, bridgeFixture } from "./fixtures";
+
+describe("Withdrawal claims", () => {
+  async function setup() {
+    const f = await bridgeFixture();
+    await f.peg.endow({ value: utils.parseEther("1") });
+    return f;
+  }
+
+  function signedWithdrawal(
+    f: BridgeFixture,
+    {
+      tokenAddress = constants.AddressZero,
+      amount,
+      eventId = 1,
+      validatorSetId = VALIDATOR_SET_ID
+    }: {
+      tokenAddress?: string;
+      amount: string;
+      eventId?: number;
+      validatorSetId?: number;
+    }
+  ): SignedMessage {
+    const message = {
+      source: PEG_PALLET_ADDRESS,
+      destination: f.peg.address,
+      appMessage: encodePayload(pegDepositCodec, {
+        tokenAddress,
+        amount,
+        destination: f.user.address
+      })
+    };
+    return {
+      ...message,
+      proof: buildEventProof(
+        { ...message, validatorSetId, eventId },
+        f.validators.map((v) => v.address),
+        f.validators
+      )
+    };
+  }
+
+  it("parses a proof blob in the relayer's format", () => {
+    const blob = {
+      source: PEG_PALLET_ADDRESS,
+      destination: PEG_PALLET_ADDRESS,
+      appMessage: "0x01",
+      proof: {
+        eventId: "7",
+        validatorSetId: 1,
+        v: [27],
+        r: [constants.HashZero],
+        s: [constants.HashZero],
+        validators: [PEG_PALLET_ADDRESS]
+      }
+    };
+    expect(
+      parseWithdrawalProof(JSON.stringify([blob])).proof.eventId.toString()
+    ).to.equal("7");
+    expect(() =>
+      parseWithdrawalProof(JSON.stringify({ ...blob, proof: undefined }))
+    ).to.throw("Proof JSON is missing proof");
+    expect(() => parseWithdrawalProof(JSON.stringify([blob, blob]))).to.throw(
+      "Expected one signed message, got 2"
+    );
+  });
+
+  it("claims an Eth withdrawal with the bridge fee", async () => {
+    const f = await loadFixture(setup);
+    const amount = utils.parseEther("0.25");
+    const message = signedWithdrawal(f, { amount: amount.toString() });
+
+    const claim = await prepareWithdrawalClaim(
+      f.peg,
+      f.bridge,
+      f.relayer,
+      message
+    );
+    expect(claim).to.deep.include({
+      tokenAddress: constants.AddressZero,
+      symbol: "ETH",
+      recipient: f.user.address,
+      problems: []
+    });
+    expect(claim.amount).to.equal(amount);
+    expect(claim.bridgeFee).to.equal(await f.bridge.bridgeFee());
+
+    const before = await f.user.getBalance();
+    const result = await sendWithdrawalClaim(f.peg, f.bridge, f.relayer, claim);
+    expect(result.recipient).to.equal(f.user.address);
+    expect(result.amount).to.equal(amount);
+    expect(await f.user.getBalance()).to.equal(before.add(amount));
+
+    // a second claim is reported, not sent
+    const again = await prepareWithdrawalClaim(
+      f.peg,
+      f.bridge,
+      f.relayer,
+      message
+    );
+    expect(again.problems).to.deep.equal(["eventId 1 was already claimed"]);
+    await expect(
+      sendWithdrawalClaim(f.peg, f.bridge, f.relayer, again)
+    ).to.be.rejectedWith("Claim would fail: eventId 1 was already claimed");
+  });
+
+  it("explains every reason a claim would fail", async () => {
+    const f = await loadFixture(setup);
+    await f.peg.setWithdrawalsActive(false);
+    const claim = await prepareWithdrawalClaim(
+      f.peg,
+      f.bridge,
+      f.relayer,
+      signedWithdrawal(f, {
+        tokenAddress: f.mockERC20.address,
+        amount: utils.parseEther("5").toString()
+      })
+    );
+    expect(claim.symbol).to.equal("TEST");
+    expect(claim.problems).to.deep.equal([
+      "ERC20Peg withdrawals are paused",
+      "the ERC20Peg holds 0.0 TEST, the withdrawal needs 5.0 TEST"
+    ]);
+
+    // the active set moves past proofTTL
+    const proofTTL = (await f.bridge.proofTTL()).toNumber();
+    await f.bridge.forceActiveValidatorSet(
+      f.validators.map((v) => v.address),
+      VALIDATOR_SET_ID + proofTTL + 1
+    );
+    const expired = await prepareWithdrawalClaim(
+      f.peg,
+      f.bridge,
+      f.relayer,
+      signedWithdrawal(f, { amount: "1", eventId: 2 })
+    );
+    expect(expired.problems[0]).to.match(/^the proof has expired/);
+
+    const wrongDestination = {
+      ...signedWithdrawal(f, { amount: "1" }),
+      destination: f.receiver.address
+    };
+    await expect(
+      prepareWithdrawalClaim(f.peg, f.bridge, f.relayer, wrongDestination)
+    ).to.be.rejectedWith("not the ERC20Peg");
+  });
+});